@@ -2,6 +2,10 @@
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import CalculatorPage from "./pages/CalculatorPage";
 import XeroAuth from "./pages/XeroAuth";
+import RateSettingsAdmin from "./pages/RateSettingsAdmin";
+import QuoteHistory from "./pages/QuoteHistory";
+import RoomCatalogueAdmin from "./pages/RoomCatalogueAdmin";
+import DepotsAdmin from "./pages/DepotsAdmin";
 
 const App = () => {
   return (
@@ -9,6 +13,10 @@ const App = () => {
       <Routes>
         <Route path="/" element={<CalculatorPage />} />
         <Route path="/xero-auth" element={<XeroAuth />} />
+        <Route path="/admin/rates" element={<RateSettingsAdmin />} />
+        <Route path="/quotes" element={<QuoteHistory />} />
+        <Route path="/admin/rooms" element={<RoomCatalogueAdmin />} />
+        <Route path="/admin/depots" element={<DepotsAdmin />} />
       </Routes>
     </Router>
   );
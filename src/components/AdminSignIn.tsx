@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { XCircle, Loader2 } from 'lucide-react';
+import { adminAuthService, type AdminSession } from '@/services/adminAuth';
+
+interface AdminSignInProps {
+  description: string;
+  onSignIn: (session: AdminSession) => void;
+}
+
+// Email/password sign-in card shown by the admin-only pages
+const AdminSignIn = ({ description, onSignIn }: AdminSignInProps) => {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const [signInError, setSignInError] = useState('');
+
+  const handleSignIn = async () => {
+    try {
+      setIsSigningIn(true);
+      setSignInError('');
+      const session = await adminAuthService.signIn(email, password);
+      setPassword('');
+      onSignIn(session);
+    } catch (error) {
+      setSignInError(error instanceof Error ? error.message : 'Sign in failed');
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
+  return (
+    <Card className="max-w-md mx-auto">
+      <CardHeader>
+        <CardTitle>Admin sign in</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <Label htmlFor="email">Email</Label>
+          <Input id="email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} />
+        </div>
+        <div>
+          <Label htmlFor="password">Password</Label>
+          <Input
+            id="password"
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSignIn()}
+          />
+        </div>
+        {signInError && (
+          <Alert className="border-red-200 bg-red-50">
+            <XCircle className="h-4 w-4 text-red-600" />
+            <AlertDescription className="text-red-800">{signInError}</AlertDescription>
+          </Alert>
+        )}
+        <Button onClick={handleSignIn} disabled={isSigningIn || !email || !password} className="w-full">
+          {isSigningIn && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Sign in
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AdminSignIn;
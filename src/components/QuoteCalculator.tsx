@@ -1,150 +1,201 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
-import { Calculator, Home, Printer, Plus, X, MapPin, RefreshCw, Database } from 'lucide-react';
+import { Textarea } from '@/components/ui/textarea';
+import { Calculator, Home, FileDown, Plus, X, Layers, CheckCircle, BadgePercent, MapPin, RefreshCw, Database, Save, Link2, BookPlus } from 'lucide-react';
 import AddressAutocomplete from '@/components/ui/address-autocomplete-modern';
-import logoHeader from '/sparkle-space-logo-header.png';
+import {
+  MAX_OVERRIDE_REASON_LENGTH,
+  priceQuote,
+  staticPropertyTypes,
+  staticStylingTypes,
+  toQuoteCalculations,
+  type CalculatorFormData,
+  type PriceOverride,
+  type PriceOverrideKind,
+  type RoomData,
+} from '@/lib/pricing';
+import { validatePriceOverride } from '@/lib/validation';
+import { useRateCards } from '@/hooks/use-rate-cards';
+import { describeRateCard } from '@/lib/rateSettings';
+import RepriceComparison from '@/components/RepriceComparison';
+import QuoteOptionsComparison from '@/components/QuoteOptionsComparison';
+import { MIN_ADDRESS_LENGTH } from '@/lib/distance';
+import { nearestDepotDistance, type Depot, type DepotDistance } from '@/lib/depots';
+import { useDepots } from '@/hooks/use-depots';
+import { isRoomAllowed, validateCustomRoom, type CatalogueRoom } from '@/lib/roomCatalogue';
+import {
+  leadOptionIndex,
+  MAX_OPTION_NAME_LENGTH,
+  MAX_QUOTE_OPTIONS,
+  optionFromFormData,
+  suggestOptionName,
+  withOption,
+  type QuoteOption,
+} from '@/lib/quoteOptions';
+import { useRoomCatalogue } from '@/hooks/use-room-catalogue';
+import { buildQuotePdf, quotePdfFileName } from '@/lib/quotePdf';
+import { formatQuoteNumber } from '@/lib/quotes';
+import { buildShareUrl, defaultCalculatorState, type CalculatorState } from '@/lib/calculatorState';
+import { quoteService, type QuoteSubmission } from '@/services/quoteService';
+import { distanceService, DistanceLookupError } from '@/services/distanceService';
+import { notionService } from '@/services/notionService';
+import { draftService } from '@/services/draftService';
+import { adminAuthService } from '@/services/adminAuth';
+import { roomCatalogueService } from '@/services/roomCatalogueService';
+import type { FieldError } from '@/lib/validation';
 
-interface RoomData {
-  [key: string]: {
-    count: number;
-    percentage: number;
-    weight: number;
-  };
+interface QuoteCalculatorProps {
+  // A saved quote or share link to reopen instead of starting from a blank form
+  initialState?: CalculatorState;
+  // Draft being resumed, so autosaves keep updating it even if the address changes
+  draftKey?: string;
 }
 
-interface CalculatorFormData {
-  propertyType: string;
-  styling: string;
-  propertyAddress: string;
-  distanceFromWarehouse: number;
-  listingPrice: number;
-  accessDifficulty: string;
-  roomRate: number;
-  rooms: RoomData;
-}
+// The rooms with any the catalogue doesn't allow for the property type cleared; the same object when none are
+const withoutDisallowedRooms = (rooms: RoomData, catalogue: CatalogueRoom[], propertyType: string): RoomData => {
+  const disallowed = catalogue.filter(room => rooms[room.name]?.count > 0 && !isRoomAllowed(room, propertyType));
+  if (disallowed.length === 0) return rooms;
 
-interface PriceRange {
-  maxPrice: number;
-  rate: number;
-}
+  return {
+    ...rooms,
+    ...Object.fromEntries(disallowed.map(room => [room.name, { ...rooms[room.name], count: 0 }])),
+  };
+};
 
-interface DistanceRange {
-  maxDistance: number;
-  rate: number;
-}
+// Select value for measuring from whichever depot is nearest
+const NEAREST_DEPOT = 'nearest';
 
-interface RateSettings {
-  apartmentPriceRanges: PriceRange[];
-  housePriceRanges: PriceRange[];
-  distanceRanges: DistanceRange[];
-  accessDifficultyRates: {
-    [key: string]: number;
-  };
-}
+// The form measured from a depot: the one picked by hand, otherwise the nearest with a route.
+// A picked depot with no route is still recorded, leaving the distance to be entered by hand.
+const withDepotDistance = (
+  formData: CalculatorFormData,
+  distances: DepotDistance[],
+  depots: Depot[],
+  pickedDepotId: string | null,
+): CalculatorFormData => {
+  const distance = pickedDepotId
+    ? distances.find(depotDistance => depotDistance.depotId === pickedDepotId)
+    : nearestDepotDistance(distances);
+  const depot = depots.find(candidate => candidate.id === (distance?.depotId ?? pickedDepotId));
+  if (!depot) return formData;
 
-// Static configuration - no database required
-const staticRateSettings: RateSettings = {
-  apartmentPriceRanges: [
-    { maxPrice: 600000, rate: -0.1 },   // <$600k: -10%
-    { maxPrice: 800000, rate: -0.05 },  // <$800k: -5%
-    { maxPrice: 1000000, rate: 0 },     // <$1000k: 0%
-    { maxPrice: Infinity, rate: 0 },    // $1000k+: 0%
-  ],
-  housePriceRanges: [
-    { maxPrice: 1500000, rate: -0.1 },  // <$1500k: -10%
-    { maxPrice: 2000000, rate: -0.05 }, // <$2000k: -5%
-    { maxPrice: 3000000, rate: 0 },     // <$3000k: 0%
-    { maxPrice: 5000000, rate: 0.05 },  // <$5000k: +5%
-    { maxPrice: 7000000, rate: 0.1 },   // <$7000k: +10%
-    { maxPrice: 10000000, rate: 0.2 },  // <$10000k: +20%
-    { maxPrice: Infinity, rate: 0.2 },  // $10000k+: +20%
-  ],
-  distanceRanges: [
-    { maxDistance: 15, rate: 0 },       // <15km: 0%
-    { maxDistance: 30, rate: 0.05 },    // <30km: +5%
-    { maxDistance: 50, rate: 0.1 },     // <50km: +10%
-    { maxDistance: 80, rate: 0.25 },    // <80km: +25%
-    { maxDistance: Infinity, rate: 0.25 }, // 80km+: +25%
-  ],
-  accessDifficultyRates: {
-    'Easy': 0,      // 0%
-    'Standard': 0.05, // +5%
-    'Difficult': 0.1, // +10%
-  },
+  return distance ? { ...formData, depot, distanceFromWarehouse: distance.distanceKm } : { ...formData, depot };
 };
 
-const staticPropertyTypes = ['Apartment', 'House'];
-const staticStylingTypes = ['Full', 'Partial'];
-
-const QuoteCalculator = () => {
+const QuoteCalculator = ({ initialState: restoredState, draftKey }: QuoteCalculatorProps) => {
+  const [initialState] = useState(() => restoredState ?? defaultCalculatorState());
   // Use static configuration instead of database state
   const propertyTypes = staticPropertyTypes;
   const stylingTypes = staticStylingTypes;
+  const { cards: rateCards, current: currentRateCard, findCard } = useRateCards();
+  const { catalogue, isLoading: isCatalogueLoading, findRoom, isCustomRoom, addPromotedRoom } = useRoomCatalogue();
+  const { depots } = useDepots();
 
-  // Core room types (always visible)
-  const coreRooms = {
-    'Living Room': { count: 1, percentage: 100, weight: 2 },
-    'Dining Room': { count: 1, percentage: 100, weight: 1 },
-    'Kitchen': { count: 1, percentage: 100, weight: 0.5 },
-    'Master Bedroom': { count: 1, percentage: 100, weight: 1.5 },
-    'Master Wardrobe': { count: 0, percentage: 100, weight: 0.5 },
-    'Standard Bedroom': { count: 0, percentage: 100, weight: 1 },
-    'Standard Bathroom': { count: 0, percentage: 100, weight: 0.25 },
-    'Outdoor (large)': { count: 0, percentage: 100, weight: 1.5 },
-    'Outdoor (small)': { count: 0, percentage: 100, weight: 0.5 },
-  };
-
-  // Optional room types (hidden by default)
-  const optionalRooms = {
-    'Foyer/Entry': { count: 0, percentage: 100, weight: 0.5 },
-    'Family Room/Lounge': { count: 0, percentage: 100, weight: 1.5 },
-    'Hallway': { count: 0, percentage: 100, weight: 0.5 },
-    'Pantry': { count: 0, percentage: 100, weight: 0.25 },
-    'Laundry': { count: 0, percentage: 100, weight: 0.25 },
-    'Office': { count: 0, percentage: 100, weight: 1 },
-    'Study': { count: 0, percentage: 100, weight: 1 },
-  };
+  const [formData, setFormData] = useState<CalculatorFormData>(initialState.formData);
 
-  // Combine all rooms
-  const allRooms = { ...coreRooms, ...optionalRooms };
-
-  const [formData, setFormData] = useState<CalculatorFormData>({
-    propertyType: '',
-    styling: 'Full',
-    propertyAddress: '',
-    distanceFromWarehouse: 0,
-    listingPrice: 0,
-    accessDifficulty: '',
-    roomRate: 400,
-    rooms: allRooms,
-  });
-
-  const [calculations, setCalculations] = useState({
-    equivalentRooms: 0,
-    baseQuote: 0,
-    variation: 0,
-    finalQuote: 0,
-  });
-
-  const [isRoomRateCustomized, setIsRoomRateCustomized] = useState(false);
-  const [isAccessDifficultyCustomized, setIsAccessDifficultyCustomized] = useState(false);
-  const [hiddenRooms, setHiddenRooms] = useState<Set<string>>(new Set(Object.keys(optionalRooms)));
+  const [isRoomRateCustomized, setIsRoomRateCustomized] = useState(initialState.isRoomRateCustomized);
+  const [isAccessDifficultyCustomized, setIsAccessDifficultyCustomized] = useState(initialState.isAccessDifficultyCustomized);
+  const [hiddenRooms, setHiddenRooms] = useState<Set<string>>(() => new Set(initialState.hiddenRooms));
   const [isDistanceLoading, setIsDistanceLoading] = useState(false);
   const [isDistanceAutoCalculated, setIsDistanceAutoCalculated] = useState(false);
   const [distanceError, setDistanceError] = useState<string | null>(null);
-  const [lastCalculatedAddress, setLastCalculatedAddress] = useState<string>('');
-  const [isListingPriceCustomized, setIsListingPriceCustomized] = useState(false);
+  // A restored quote already has its distance, so don't look it up again
+  const [lastCalculatedAddress, setLastCalculatedAddress] = useState<string>(
+    initialState.formData.distanceFromWarehouse ? initialState.formData.propertyAddress : ''
+  );
+  const [isListingPriceCustomized, setIsListingPriceCustomized] = useState(initialState.isListingPriceCustomized);
+  const [isDepotCustomized, setIsDepotCustomized] = useState(initialState.isDepotCustomized ?? false);
+  // Distance from each depot to the address last looked up
+  const [depotDistances, setDepotDistances] = useState<DepotDistance[]>([]);
   const [isSubmittingToNotion, setIsSubmittingToNotion] = useState(false);
   const [notionSubmissionStatus, setNotionSubmissionStatus] = useState<'idle' | 'success' | 'error'>('idle');
   const [notionErrorMessage, setNotionErrorMessage] = useState<string>('');
+  // The quote's Notion row once it has been sent, with its Status as set in Notion
+  const [notionPage, setNotionPage] = useState<{ url: string; status: string | null } | null>(null);
+  // Rate card the quote is pinned to; null follows whichever card is current
+  const [rateCardId, setRateCardId] = useState<string | null>(initialState.rateCardId);
+  // Set once the quote has been saved, so later saves and sends update the same record
+  const [quoteId, setQuoteId] = useState<string | undefined>(initialState.quoteId);
+  const [quoteEditToken, setQuoteEditToken] = useState<string | undefined>(initialState.quoteEditToken);
+  const [quoteNumber, setQuoteNumber] = useState<number | undefined>(initialState.quoteNumber);
+  const [isGeneratingPdf, setIsGeneratingPdf] = useState(false);
+  const [pdfErrorMessage, setPdfErrorMessage] = useState('');
+  const [isSavingQuote, setIsSavingQuote] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  const [saveErrorMessage, setSaveErrorMessage] = useState<string>('');
+  const [shareStatus, setShareStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  const [customRoomName, setCustomRoomName] = useState('');
+  const [customRoomWeight, setCustomRoomWeight] = useState(1);
+  const [customRoomErrors, setCustomRoomErrors] = useState<FieldError[]>([]);
+  // Promoting a custom room into the catalogue needs an admin signed in on this browser
+  const [adminSession] = useState(() => adminAuthService.getSession());
+  const [promotingRoom, setPromotingRoom] = useState<string | null>(null);
+  const [promoteErrorMessage, setPromoteErrorMessage] = useState('');
+  // Multi-option quotes: the active option's choices are edited in formData, the others wait here
+  const [options, setOptions] = useState<QuoteOption[]>(initialState.options ?? []);
+  const [activeOption, setActiveOption] = useState(initialState.activeOption ?? 0);
+  const [acceptedOption, setAcceptedOption] = useState<number | null>(initialState.acceptedOption ?? null);
+  // Whether the override box means a discount or a premium; kept apart from the value so it survives clearing it
+  const [overrideSign, setOverrideSign] = useState((initialState.formData.override?.value ?? 0) > 0 ? 1 : -1);
+
+  const rateCard = (rateCardId && findCard(rateCardId)) || currentRateCard;
+  const rateSettings = rateCard.settings;
+
+
+  // Where a room starts: the catalogue's defaults, with the item quantity scaled for the styling
+  const roomDefaults = useCallback((roomType: string, styling: string) => {
+    const room = findRoom(roomType);
+    const stylingPercentage = rateSettings.stylingRules[styling]?.roomPercentage ?? 100;
+    return {
+      count: room?.defaultCount ?? 0,
+      percentage: Math.round((room?.defaultPercentage ?? 100) * stylingPercentage / 100),
+      weight: room?.weight ?? formData.rooms[roomType]?.weight ?? 1,
+    };
+  }, [findRoom, rateSettings, formData.rooms]);
+
+  // Once the saved catalogue arrives, a new quote nobody has touched starts again from its core rooms.
+  // Any other quote just gains core rooms it was missing, at a count of 0 so its price doesn't move.
+  useEffect(() => {
+    if (isCatalogueLoading) return;
+
+    setFormData(prev => {
+      const coreRooms = catalogue.filter(room => room.isCore);
 
+      if (!restoredState && prev.rooms === initialState.formData.rooms) {
+        return {
+          ...prev,
+          rooms: Object.fromEntries(coreRooms.map(room => [room.name, roomDefaults(room.name, prev.styling)])),
+        };
+      }
+
+      const missing = coreRooms.filter(room => !(room.name in prev.rooms));
+      if (missing.length === 0) return prev;
+
+      return {
+        ...prev,
+        rooms: {
+          ...prev.rooms,
+          ...Object.fromEntries(missing.map(room => [room.name, { ...roomDefaults(room.name, prev.styling), count: 0 }])),
+        },
+      };
+    });
+  }, [catalogue, isCatalogueLoading, restoredState, initialState, roomDefaults]);
+
+  // A reopened quote may already be in Notion; link its row and show where follow-up has got to
+  useEffect(() => {
+    if (!initialState.quoteId) return;
+
+    notionService.status(initialState.quoteId)
+      .then(status => setNotionPage(status.pageUrl ? { url: status.pageUrl, status: status.status } : null))
+      .catch(error => console.warn('Could not look up the quote in Notion:', error));
+  }, [initialState.quoteId]);
 
-  // Auto-adjust access difficulty, listing price, and Master Wardrobe based on property type
+  // Auto-adjust access difficulty and listing price based on property type
   useEffect(() => {
     if (!isAccessDifficultyCustomized && formData.propertyType) {
       const newAccessDifficulty = formData.propertyType === 'Apartment' ? 'Difficult' : 'Standard';
@@ -161,31 +212,45 @@ const QuoteCalculator = () => {
       }
     }
     
-    // Reset Master Wardrobe count when switching to Apartment
-    if (formData.propertyType === 'Apartment' && formData.rooms['Master Wardrobe']?.count > 0) {
-      setFormData(prev => ({
-        ...prev,
-        rooms: {
-          ...prev.rooms,
-          'Master Wardrobe': { ...prev.rooms['Master Wardrobe'], count: 0 }
-        }
-      }));
+  }, [formData.propertyType, isAccessDifficultyCustomized, formData.accessDifficulty, isListingPriceCustomized, formData.listingPrice]);
+
+  // Clear rooms the catalogue doesn't allow for the chosen property type, in every option
+  useEffect(() => {
+    if (withoutDisallowedRooms(formData.rooms, catalogue, formData.propertyType) !== formData.rooms) {
+      setFormData(prev => ({ ...prev, rooms: withoutDisallowedRooms(prev.rooms, catalogue, prev.propertyType) }));
     }
-  }, [formData.propertyType, isAccessDifficultyCustomized, formData.accessDifficulty, formData.rooms, isListingPriceCustomized, formData.listingPrice]);
 
-  // Auto-adjust room rate based on property type
+    setOptions(prev => {
+      const next = prev.map(option => {
+        const rooms = withoutDisallowedRooms(option.rooms, catalogue, formData.propertyType);
+        return rooms === option.rooms ? option : { ...option, rooms };
+      });
+      return next.some((option, index) => option !== prev[index]) ? next : prev;
+    });
+  }, [catalogue, formData.propertyType, formData.rooms]);
+
+  // Auto-adjust room rate based on property type and styling
   useEffect(() => {
     if (!isRoomRateCustomized && formData.propertyType) {
-      const newRoomRate = formData.propertyType === 'Apartment' ? 350 : 400;
-      if (formData.roomRate !== newRoomRate) {
+      const newRoomRate = rateSettings.stylingRules[formData.styling]?.roomRates[formData.propertyType];
+      if (newRoomRate !== undefined && formData.roomRate !== newRoomRate) {
         setFormData(prev => ({ ...prev, roomRate: newRoomRate }));
       }
+
+      // Options waiting their turn follow the rate card for their own styling too
+      setOptions(prev => {
+        const next = prev.map(option => {
+          const roomRate = rateSettings.stylingRules[option.styling]?.roomRates[formData.propertyType];
+          return roomRate === undefined || roomRate === option.roomRate ? option : { ...option, roomRate };
+        });
+        return next.some((option, index) => option !== prev[index]) ? next : prev;
+      });
     }
-  }, [formData.propertyType, isRoomRateCustomized, formData.roomRate]);
+  }, [formData.propertyType, formData.styling, isRoomRateCustomized, formData.roomRate, rateSettings]);
 
-  // Calculate distance between warehouse and property address
+  // Driving distance from every depot, looked up by the distance edge function
   const calculateDistance = useCallback(async (propertyAddress: string) => {
-    if (!propertyAddress || propertyAddress.length < 10) {
+    if (!propertyAddress || propertyAddress.length < MIN_ADDRESS_LENGTH) {
       return;
     }
 
@@ -194,71 +259,35 @@ const QuoteCalculator = () => {
       return;
     }
 
-    const warehouseAddress = "2/67 Mons Street, Lidcombe NSW 2141 Australia";
-    
     try {
       setIsDistanceLoading(true);
       setDistanceError(null);
 
-      // Wait for Google Maps to be loaded (should already be loaded by address autocomplete)
-      if (!window.google?.maps?.DistanceMatrixService) {
-        // Wait for the address autocomplete component to load Google Maps
-        let attempts = 0;
-        const maxAttempts = 50; // Wait up to 5 seconds
-        
-        while (!window.google?.maps?.DistanceMatrixService && attempts < maxAttempts) {
-          await new Promise(resolve => setTimeout(resolve, 100));
-          attempts++;
-        }
-        
-        if (!window.google?.maps?.DistanceMatrixService) {
-          throw new Error('Google Maps Distance Matrix service not available - address autocomplete may not be ready');
-        }
-      }
+      const { distances } = await distanceService.lookup(propertyAddress);
 
-      const service = new window.google.maps.DistanceMatrixService();
-      
-      return new Promise<void>((resolve, reject) => {
-        service.getDistanceMatrix(
-          {
-            origins: [warehouseAddress],
-            destinations: [propertyAddress],
-            travelMode: window.google.maps.TravelMode.DRIVING,
-            unitSystem: window.google.maps.UnitSystem.METRIC,
-            avoidHighways: false,
-            avoidTolls: false,
-          },
-          (response, status) => {
-            setIsDistanceLoading(false);
-            
-            if (status === window.google.maps.DistanceMatrixStatus.OK && response) {
-              const element = response.rows[0]?.elements[0];
-              
-              if (element?.status === 'OK' && element.distance) {
-                // Convert meters to kilometers and round to 2 decimal places
-                const distanceKm = Math.round((element.distance.value / 1000) * 100) / 100;
-                
-                setFormData(prev => ({ ...prev, distanceFromWarehouse: distanceKm }));
-                setIsDistanceAutoCalculated(true);
-                setDistanceError(null);
-                setLastCalculatedAddress(propertyAddress);
-                resolve();
-              } else {
-                throw new Error('Could not calculate distance for this address');
-              }
-            } else {
-              throw new Error(`Distance calculation failed: ${status}`);
-            }
-          }
-        );
-      });
+      setDepotDistances(distances);
+      setFormData(prev => withDepotDistance(prev, distances, depots, isDepotCustomized ? prev.depot?.id ?? null : null));
+      setIsDistanceAutoCalculated(true);
+      setLastCalculatedAddress(propertyAddress);
     } catch (error) {
-      console.error('Error calculating distance:', error);
+      // Leave the distance as it is so it can be entered by hand
+      setDistanceError(error instanceof DistanceLookupError ? error.message : 'Failed to calculate distance');
+    } finally {
       setIsDistanceLoading(false);
-      setDistanceError(error instanceof Error ? error.message : 'Failed to calculate distance');
-      // Don't reset the distance field, let user enter manually
     }
-  }, [lastCalculatedAddress]);
+  }, [lastCalculatedAddress, depots, isDepotCustomized]);
+
+  const handleDepotChange = (value: string) => {
+    const pickedDepotId = value === NEAREST_DEPOT ? null : value;
+    setIsDepotCustomized(pickedDepotId !== null);
+    setFormData(prev => withDepotDistance(prev, depotDistances, depots, pickedDepotId));
+    setIsDistanceAutoCalculated(depotDistances.some(distance => pickedDepotId === null || distance.depotId === pickedDepotId));
+  };
+
+  // Depots to pick from, plus the quote's own depot if it has since been removed
+  const depotChoices = formData.depot && !depots.some(depot => depot.id === formData.depot.id)
+    ? [...depots, formData.depot]
+    : depots;
 
   // Auto-calculate distance when property address changes
   useEffect(() => {
@@ -278,52 +307,140 @@ const QuoteCalculator = () => {
     }
   }, [formData.propertyAddress, calculateDistance, isDistanceLoading, lastCalculatedAddress]);
 
-  const calculateQuote = useCallback(() => {
-    // Calculate equivalent room count
-    const equivalentRooms = Object.values(formData.rooms).reduce((total, room) => {
-      return total + (room.count * (room.percentage / 100) * room.weight);
-    }, 0);
+  const currentOptions = useMemo(
+    () => options.map((option, index) => (index === activeOption ? optionFromFormData(option.name, formData) : option)),
+    [options, activeOption, formData],
+  );
 
-    // Calculate base quote
-    const baseQuote = equivalentRooms * formData.roomRate;
+  // Autosave a draft for this address whenever the form changes, once it differs from how it was opened
+  const draftKeyRef = useRef<string | undefined>(draftKey);
+  const openedSnapshot = useRef(JSON.stringify(initialState));
+  useEffect(() => {
+    const state: CalculatorState = {
+      formData,
+      hiddenRooms: [...hiddenRooms],
+      isRoomRateCustomized,
+      isAccessDifficultyCustomized,
+      isListingPriceCustomized,
+      isDepotCustomized,
+      rateCardId,
+      quoteId,
+      quoteEditToken,
+      quoteNumber,
+      options: currentOptions,
+      activeOption,
+      acceptedOption,
+    };
+    if (draftKeyRef.current === undefined && JSON.stringify(state) === openedSnapshot.current) return;
 
-    // Calculate penalty/reward rates using static configuration
-    let totalRate = 0;
-    const settings = staticRateSettings;
-    
-    // Listing price rates
-    if (formData.propertyType === 'Apartment') {
-      const priceRange = settings.apartmentPriceRanges.find(range => formData.listingPrice < range.maxPrice);
-      if (priceRange) totalRate += priceRange.rate;
-    } else if (formData.propertyType === 'House') {
-      const priceRange = settings.housePriceRanges.find(range => formData.listingPrice < range.maxPrice);
-      if (priceRange) totalRate += priceRange.rate;
-    }
+    const timeoutId = setTimeout(() => {
+      draftKeyRef.current = draftService.save(state, draftKeyRef.current).key;
+    }, 500);
 
-    // Distance rates
-    const distanceRange = settings.distanceRanges.find(range => formData.distanceFromWarehouse < range.maxDistance);
-    if (distanceRange) totalRate += distanceRange.rate;
+    return () => clearTimeout(timeoutId);
+  }, [formData, hiddenRooms, isRoomRateCustomized, isAccessDifficultyCustomized, isListingPriceCustomized, isDepotCustomized, rateCardId, quoteId, quoteEditToken, quoteNumber, currentOptions, activeOption, acceptedOption]);
 
-    // Access difficulty rates
-    const accessRate = settings.accessDifficultyRates[formData.accessDifficulty];
-    if (accessRate !== undefined) totalRate += accessRate;
+  // Catalogue rooms in catalogue order, then custom rooms; hidden or disallowed rooms aren't listed
+  const visibleRooms = [
+    ...catalogue
+      .filter(room => room.name in formData.rooms && isRoomAllowed(room, formData.propertyType))
+      .map(room => room.name),
+    ...Object.keys(formData.rooms).filter(isCustomRoom),
+  ]
+    .filter(roomType => !hiddenRooms.has(roomType))
+    .map(roomType => [roomType, formData.rooms[roomType]] as const);
 
-    // Calculate variation and final quote
-    const variation = totalRate * baseQuote;
-    const finalQuote = baseQuote + variation;
+  const optionalRoomTypes = catalogue
+    .filter(room => !room.isCore && isRoomAllowed(room, formData.propertyType))
+    .map(room => room.name);
 
-    setCalculations({
-      equivalentRooms: Math.round(equivalentRooms * 100) / 100,
-      baseQuote: Math.round(baseQuote * 100) / 100,
-      variation: Math.round(variation * 100) / 100,
-      finalQuote: Math.round(finalQuote * 100) / 100,
-    });
-  }, [formData.rooms, formData.roomRate, formData.listingPrice, formData.distanceFromWarehouse, formData.accessDifficulty, formData.propertyType]);
+  // Price the quote whenever the form changes
+  const breakdown = useMemo(() => priceQuote(formData, rateSettings), [formData, rateSettings]);
+  const calculations = toQuoteCalculations(breakdown);
 
-  // Calculate quote whenever relevant fields change
-  useEffect(() => {
-    calculateQuote();
-  }, [calculateQuote]);
+  const pricedOptions = useMemo(() => currentOptions.map(option => ({
+    name: option.name,
+    styling: option.styling,
+    breakdown: priceQuote(withOption(formData, option), rateSettings),
+  })), [currentOptions, formData, rateSettings]);
+
+  // What gets saved, sent or printed: with options, the form and figures are the accepted (or first) option's
+  const leadFormData = currentOptions.length > 0
+    ? withOption(formData, currentOptions[leadOptionIndex(acceptedOption)])
+    : formData;
+  const leadBreakdown = currentOptions.length > 0 ? pricedOptions[leadOptionIndex(acceptedOption)].breakdown : breakdown;
+
+  const buildSubmission = (): QuoteSubmission => ({
+    quoteId,
+    editToken: quoteEditToken,
+    formData: leadFormData,
+    calculations: toQuoteCalculations(leadBreakdown),
+    rateCardId: rateCard.id,
+    options: currentOptions,
+    acceptedOption: currentOptions.length > 0 ? acceptedOption : null,
+  });
+
+  // The override applies to every option, so a discount has to fit the cheapest of them
+  const overrideErrors = formData.override
+    ? validatePriceOverride(
+      formData.override,
+      Math.min(breakdown.quoteBeforeOverride, ...pricedOptions.map(option => option.breakdown.quoteBeforeOverride)),
+    )
+    : [];
+
+  const updateOverride = (changes: Partial<PriceOverride>) => {
+    setFormData(prev => ({
+      ...prev,
+      override: { kind: 'percent', value: 0, reason: '', ...prev.override, ...changes },
+    }));
+  };
+
+  // The box takes a positive size; the sign comes from the discount/premium toggle
+  const overrideSize = formData.override
+    ? Math.abs(formData.override.kind === 'percent' ? Math.round(formData.override.value * 10000) / 100 : formData.override.value)
+    : 0;
+
+  const setOverrideSize = (size: number, kind: PriceOverrideKind, sign: number) => {
+    updateOverride({ kind, value: sign * (kind === 'percent' ? size / 100 : size) });
+  };
+
+  // Turning a single quote into options starts with two identical ones, editing the second
+  const handleStartOptions = () => {
+    const first = optionFromFormData(suggestOptionName([]), formData);
+    setOptions([first, optionFromFormData(suggestOptionName([first]), formData)]);
+    setActiveOption(1);
+    setAcceptedOption(null);
+  };
+
+  const handleSelectOption = (index: number) => {
+    if (index === activeOption) return;
+    setOptions(currentOptions);
+    setFormData(prev => withOption(prev, currentOptions[index]));
+    setActiveOption(index);
+  };
+
+  // A new option starts as a copy of the one being edited
+  const handleAddOption = () => {
+    setOptions([...currentOptions, optionFromFormData(suggestOptionName(currentOptions), formData)]);
+    setActiveOption(currentOptions.length);
+  };
+
+  const handleRenameOption = (name: string) => {
+    setOptions(prev => prev.map((option, index) => (index === activeOption ? { ...option, name } : option)));
+  };
+
+  // Removing down to one option makes it a single quote again
+  const handleRemoveOption = (index: number) => {
+    const remaining = currentOptions.filter((_, i) => i !== index);
+    const nextActive = remaining.length < 2 ? 0 : Math.min(activeOption > index ? activeOption - 1 : activeOption, remaining.length - 1);
+    setFormData(prev => withOption(prev, remaining[nextActive]));
+    setOptions(remaining.length < 2 ? [] : remaining);
+    setActiveOption(nextActive);
+    setAcceptedOption(prev => {
+      if (remaining.length < 2 || prev === null || prev === index) return null;
+      return prev > index ? prev - 1 : prev;
+    });
+  };
 
   const updateRoomData = (roomType: string, field: 'count' | 'percentage', value: number) => {
     setFormData(prev => ({
@@ -338,29 +455,174 @@ const QuoteCalculator = () => {
     }));
   };
 
-  const toggleOptionalRoom = (roomType: string) => {
-    setHiddenRooms(prev => {
-      const newHiddenRooms = new Set(prev);
-      if (newHiddenRooms.has(roomType)) {
-        // Show the room
-        newHiddenRooms.delete(roomType);
-      } else {
-        // Hide the room and reset its values to defaults
-        newHiddenRooms.add(roomType);
-        setFormData(prevData => ({
-          ...prevData,
-          rooms: {
-            ...prevData.rooms,
-            [roomType]: optionalRooms[roomType], // Reset to default values
-          },
-        }));
-      }
-      return newHiddenRooms;
+  // Extras at 0 are dropped, so the quote only lists what was added
+  const setExtraQuantity = (extraId: string, quantity: number) => {
+    setFormData(prev => {
+      const { [extraId]: _removed, ...extras } = prev.extras ?? {};
+      return { ...prev, extras: quantity > 0 ? { ...extras, [extraId]: quantity } : extras };
     });
   };
 
-  const handlePrint = () => {
-    window.print();
+  // Extras on a reopened quote that its rate card no longer offers; they can't be priced or submitted
+  const unknownExtraIds = Object.keys(formData.extras ?? {})
+    .filter(extraId => !rateSettings.extras.some(extra => extra.id === extraId));
+
+  // Switching styling moves rooms still at the old styling's default percentage to the new one;
+  // rooms the stylist has set by hand keep their percentage
+  const handleStylingChange = (styling: string) => {
+    setFormData(prev => ({
+      ...prev,
+      styling,
+      rooms: Object.fromEntries(Object.entries(prev.rooms).map(([roomType, room]) => [
+        roomType,
+        room.percentage === roomDefaults(roomType, prev.styling).percentage
+          ? { ...room, percentage: roomDefaults(roomType, styling).percentage }
+          : room,
+      ])),
+    }));
+  };
+
+  // Optional rooms show once they are on the quote and not hidden
+  const isOptionalRoomShown = (roomType: string) => roomType in formData.rooms && !hiddenRooms.has(roomType);
+
+  const toggleOptionalRoom = (roomType: string) => {
+    const newHiddenRooms = new Set(hiddenRooms);
+    if (isOptionalRoomShown(roomType)) {
+      // Hide the room and reset its values to defaults
+      newHiddenRooms.add(roomType);
+      setFormData(prev => ({
+        ...prev,
+        rooms: { ...prev.rooms, [roomType]: { ...roomDefaults(roomType, prev.styling), count: 0 } },
+      }));
+    } else {
+      // Show the room at the catalogue's defaults
+      newHiddenRooms.delete(roomType);
+      setFormData(prev => ({
+        ...prev,
+        rooms: { ...prev.rooms, [roomType]: roomDefaults(roomType, prev.styling) },
+      }));
+    }
+    setHiddenRooms(newHiddenRooms);
+  };
+
+  const handleAddCustomRoom = () => {
+    const room = { name: customRoomName.trim(), weight: customRoomWeight };
+    const errors = validateCustomRoom(room, [...Object.keys(formData.rooms), ...catalogue.map(catalogueRoom => catalogueRoom.name)]);
+    setCustomRoomErrors(errors);
+    if (errors.length > 0) return;
+
+    setFormData(prev => ({
+      ...prev,
+      rooms: {
+        ...prev.rooms,
+        [room.name]: { count: 1, percentage: roomDefaults(room.name, prev.styling).percentage, weight: room.weight },
+      },
+    }));
+    setCustomRoomName('');
+    setCustomRoomWeight(1);
+  };
+
+  const removeCustomRoom = (roomType: string) => {
+    setFormData(prev => ({
+      ...prev,
+      rooms: Object.fromEntries(Object.entries(prev.rooms).filter(([name]) => name !== roomType)),
+    }));
+  };
+
+  const handlePromoteRoom = async (roomType: string) => {
+    if (!adminSession) return;
+
+    try {
+      setPromotingRoom(roomType);
+      setPromoteErrorMessage('');
+      const promoted = await roomCatalogueService.promote(
+        { name: roomType, weight: formData.rooms[roomType].weight },
+        adminSession.accessToken,
+      );
+      addPromotedRoom(promoted);
+    } catch (error) {
+      console.error('Failed to add room to catalogue:', error);
+      setPromoteErrorMessage(error instanceof Error ? error.message : 'Unknown error occurred');
+    } finally {
+      setPromotingRoom(null);
+    }
+  };
+
+  // The PDF carries the quote number, so the quote is saved (or updated) first
+  const handleDownloadPdf = async () => {
+    try {
+      setIsGeneratingPdf(true);
+      setPdfErrorMessage('');
+
+      // Saved the same way as Save Quote, so the quote can still be updated afterwards
+      const saved = await quoteService.save(buildSubmission(), adminSession?.accessToken);
+      setQuoteId(saved.id);
+      setQuoteEditToken(saved.editToken);
+      setQuoteNumber(saved.quoteNumber);
+
+      const pdf = await buildQuotePdf({
+        quoteNumber: saved.quoteNumber,
+        issuedAt: new Date(),
+        formData: leadFormData,
+        breakdown: leadBreakdown,
+        rateCardLabel: describeRateCard(rateCard),
+        options: pricedOptions,
+        acceptedOption,
+      });
+      pdf.save(quotePdfFileName(saved.quoteNumber, formData));
+    } catch (error) {
+      console.error('Failed to generate quote PDF:', error);
+      setPdfErrorMessage(error instanceof Error ? error.message : 'Unknown error occurred');
+    } finally {
+      setIsGeneratingPdf(false);
+    }
+  };
+
+  const handleCopyShareLink = async () => {
+    const url = buildShareUrl({
+      formData,
+      hiddenRooms: [...hiddenRooms],
+      isRoomRateCustomized,
+      isAccessDifficultyCustomized,
+      isListingPriceCustomized,
+      isDepotCustomized,
+      rateCardId,
+      options: currentOptions,
+      activeOption,
+      acceptedOption,
+    }, catalogue);
+
+    try {
+      await navigator.clipboard.writeText(url);
+      setShareStatus('success');
+      setTimeout(() => setShareStatus('idle'), 3000); // Clear success message after 3 seconds
+    } catch (error) {
+      console.error('Failed to copy share link:', error);
+      setShareStatus('error');
+    }
+  };
+
+  const handleSaveQuote = async () => {
+    try {
+      setIsSavingQuote(true);
+      setSaveStatus('idle');
+      setSaveErrorMessage('');
+
+      // A signed-in admin can update any quote, such as one reopened from quote history
+      const saved = await quoteService.save(buildSubmission(), adminSession?.accessToken);
+
+      setQuoteId(saved.id);
+      setQuoteEditToken(saved.editToken);
+      setQuoteNumber(saved.quoteNumber);
+      setSaveStatus('success');
+      setTimeout(() => setSaveStatus('idle'), 3000); // Clear success message after 3 seconds
+    } catch (error) {
+      console.error('Failed to save quote:', error);
+      setSaveStatus('error');
+      setSaveErrorMessage(error instanceof Error ? error.message : 'Unknown error occurred');
+    } finally {
+      setIsSavingQuote(false);
+    }
   };
 
   const handleSendToNotion = async () => {
@@ -369,22 +631,20 @@ const QuoteCalculator = () => {
       setNotionSubmissionStatus('idle');
       setNotionErrorMessage('');
 
-      const response = await fetch('https://xfnbyqqejpnfupbkspck.supabase.co/functions/v1/submit-quote', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-        },
-        body: JSON.stringify({
-          formData,
-          calculations
-        }),
-      });
+      // submit-quote saves the quote too; keep its id so a resend updates the same record and Notion row
+      const result = await notionService.submit(buildSubmission(), adminSession?.accessToken);
+      setQuoteId(result.quoteId);
+      setQuoteEditToken(result.editToken);
+      setQuoteNumber(result.quoteNumber);
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+      // The quote is saved even when Notion fails, so a retry updates it rather than saving another
+      if (!result.success) {
+        setNotionSubmissionStatus('error');
+        setNotionErrorMessage(`${result.notionError} (the quote was saved as ${formatQuoteNumber(result.quoteNumber)})`);
+        return;
       }
 
+      setNotionPage(current => ({ url: result.notionPageUrl, status: current?.status ?? null }));
       setNotionSubmissionStatus('success');
       setTimeout(() => setNotionSubmissionStatus('idle'), 3000); // Clear success message after 3 seconds
     } catch (error) {
@@ -398,187 +658,9 @@ const QuoteCalculator = () => {
 
   return (
     <>
-      <style>{`
-        @page {
-          size: A4;
-          margin: 0.4in;
-        }
-        @media print {
-          * {
-            -webkit-print-color-adjust: exact !important;
-            color-adjust: exact !important;
-            print-color-adjust: exact !important;
-          }
-          .no-print {
-            display: none !important;
-          }
-          .print-only {
-            display: block !important;
-          }
-          .calculator-inputs {
-            display: none !important;
-          }
-          .space-y-6 {
-            gap: 0 !important;
-          }
-          header {
-            display: none !important;
-          }
-          main > div > div:first-child {
-            display: none !important;
-          }
-          body {
-            font-size: 10pt;
-            line-height: 1.2;
-            overflow: hidden;
-          }
-          .print-container {
-            max-height: 9in;
-            overflow: hidden;
-            font-size: 11pt;
-            page-break-after: avoid;
-          }
-          .print-header {
-            text-align: center;
-            margin-bottom: 16px;
-          }
-          .print-section {
-            margin-bottom: 12px;
-          }
-          .print-row {
-            display: grid;
-            grid-template-columns: 1fr auto;
-            gap: 8px;
-            margin-bottom: 4px;
-            border-bottom: 1px solid #e2e8f0;
-            padding-bottom: 3px;
-            font-size: inherit;
-            align-items: center;
-          }
-          .print-total {
-            font-weight: bold;
-            font-size: 12pt;
-            border-top: 2px solid #334155;
-            padding-top: 6px;
-            margin-top: 12px;
-          }
-          .print-final-quote {
-            color: #16a34a !important;
-            -webkit-print-color-adjust: exact !important;
-            color-adjust: exact !important;
-            print-color-adjust: exact !important;
-          }
-          h1, h2, h3 {
-            margin-top: 0;
-            margin-bottom: 6px;
-          }
-        }
-        @media print and (max-width: 768px) {
-          body {
-            min-height: auto !important;
-          }
-          .print-container {
-            height: auto !important;
-            max-height: none !important;
-            overflow: visible !important;
-          }
-        }
-        .print-only {
-          display: none;
-        }
-      `}</style>
       <div className="space-y-6">
-      {/* Print Header - only visible when printing */}
-      <div className="print-only print-container">
-        <div className="print-header">
-          <div style={{display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '15px'}}>
-            <img 
-              src={logoHeader} 
-              alt="Sparkle Space Logo" 
-              style={{width: '300px', height: 'auto', objectFit: 'contain'}}
-              onError={(e) => {
-                const target = e.target as HTMLImageElement;
-                target.style.display = 'none';
-              }}
-            />
-            <h2 style={{fontSize: '24pt', fontWeight: 'bold', margin: '0', marginRight: '40px', color: '#b8860b'}}>Quote</h2>
-          </div>
-        </div>
-        
-        <div className="print-section">
-          <h3 style={{fontSize: '11pt', fontWeight: 'bold', marginBottom: '8px'}}>Property Details</h3>
-          <div className="print-row">
-            <span>Property Type:</span>
-            <span>{formData.propertyType}</span>
-          </div>
-          <div className="print-row">
-            <span>Styling Type:</span>
-            <span>{formData.styling}</span>
-          </div>
-          {formData.propertyAddress && (
-            <div className="print-row">
-              <span>Property Address:</span>
-              <span style={{color: '#2563eb', fontWeight: 'bold'}}>{formData.propertyAddress}</span>
-            </div>
-          )}
-          <div className="print-row">
-            <span>Distance from Warehouse:</span>
-            <span>{formData.distanceFromWarehouse} km</span>
-          </div>
-          <div className="print-row">
-            <span>Listing Price:</span>
-            <span>${formData.listingPrice.toLocaleString()}</span>
-          </div>
-          <div className="print-row">
-            <span>Access Difficulty:</span>
-            <span>{formData.accessDifficulty}</span>
-          </div>
-          <div className="print-row">
-            <span>Room Rate:</span>
-            <span style={{color: '#2563eb', fontWeight: 'bold'}}>${formData.roomRate}</span>
-          </div>
-        </div>
-
-        <div className="print-section">
-          <h3 style={{fontSize: '11pt', fontWeight: 'bold', marginBottom: '8px'}}>Room Breakdown</h3>
-          {Object.entries(formData.rooms)
-            .filter(([, room]) => room.count > 0)
-            .map(([roomType, room]) => {
-              const roomTotal = room.count * (room.percentage / 100) * room.weight * formData.roomRate;
-              return (
-                <div key={roomType} className="print-row">
-                  <span>{roomType} ({room.count} × {room.percentage}%)</span>
-                  <span>${Math.round(roomTotal).toLocaleString()}</span>
-                </div>
-              );
-            })}
-        </div>
-
-        <div className="print-section">
-          <h3 style={{fontSize: '11pt', fontWeight: 'bold', marginBottom: '8px'}}>Quote Summary</h3>
-          <div className="print-row">
-            <span>Equivalent Room Count:</span>
-            <span>{calculations.equivalentRooms}</span>
-          </div>
-          <div className="print-row">
-            <span>Base Quote:</span>
-            <span>${calculations.baseQuote.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
-          </div>
-          <div className="print-row">
-            <span>Variation:</span>
-            <span style={{color: calculations.variation >= 0 ? '#16a34a' : '#dc2626'}}>
-              {calculations.variation >= 0 ? '+' : ''}${calculations.variation.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
-            </span>
-          </div>
-          <div className="print-total print-row">
-            <span>Final Quote:</span>
-            <span className="print-final-quote" style={{color: '#16a34a', fontWeight: 'bold'}}>${calculations.finalQuote.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
-          </div>
-        </div>
-      </div>
-
       {/* Property Information */}
-      <Card className="border-0 shadow-sm calculator-inputs">
+      <Card className="border-0 shadow-sm">
         <CardHeader className="pb-3">
           <CardTitle className="text-lg font-semibold text-slate-900 flex items-center gap-2">
             <Home className="h-5 w-5 text-blue-600" />
@@ -612,7 +694,7 @@ const QuoteCalculator = () => {
               <Label htmlFor="styling">Styling Type *</Label>
               <Select 
                 value={formData.styling} 
-                onValueChange={(value) => setFormData(prev => ({ ...prev, styling: value }))}
+                onValueChange={handleStylingChange}
               >
                 <SelectTrigger>
                   <SelectValue />
@@ -626,30 +708,55 @@ const QuoteCalculator = () => {
             </div>
           </div>
           
-          <div>
-            <Label htmlFor="address">Property Address</Label>
-            <AddressAutocomplete
-              id="address"
-              placeholder="Enter property address"
-              value={formData.propertyAddress}
-              onChange={(value) => {
-                setFormData(prev => ({ ...prev, propertyAddress: value }));
-                // Reset auto-calculated status and clear last calculated address when user changes address
-                if (value !== lastCalculatedAddress) {
-                  setIsDistanceAutoCalculated(false);
-                  setDistanceError(null);
-                  // Clear the last calculated address so it can be recalculated
-                  if (value.length === 0) {
-                    setLastCalculatedAddress('');
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="md:col-span-2">
+              <Label htmlFor="address">Property Address</Label>
+              <AddressAutocomplete
+                id="address"
+                placeholder="Enter property address"
+                value={formData.propertyAddress}
+                onChange={(value) => {
+                  setFormData(prev => ({ ...prev, propertyAddress: value }));
+                  // Reset auto-calculated status and clear last calculated address when user changes address
+                  if (value !== lastCalculatedAddress) {
+                    setIsDistanceAutoCalculated(false);
+                    setDistanceError(null);
+                    setDepotDistances([]);
+                    // Clear the last calculated address so it can be recalculated
+                    if (value.length === 0) {
+                      setLastCalculatedAddress('');
+                    }
                   }
-                }
-              }}
-            />
+                }}
+              />
+            </div>
+            <div>
+              <Label htmlFor="depot">Depot</Label>
+              <Select value={isDepotCustomized && formData.depot ? formData.depot.id : NEAREST_DEPOT} onValueChange={handleDepotChange}>
+                <SelectTrigger id="depot">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NEAREST_DEPOT}>
+                    Nearest{!isDepotCustomized && formData.depot ? ` (${formData.depot.name})` : ''}
+                  </SelectItem>
+                  {depotChoices.map((depot) => {
+                    const distance = depotDistances.find(depotDistance => depotDistance.depotId === depot.id);
+                    return (
+                      <SelectItem key={depot.id} value={depot.id}>
+                        {depot.name}
+                        {distance ? ` (${distance.distanceKm} km)` : depotDistances.length > 0 ? ' (no route)' : ''}
+                      </SelectItem>
+                    );
+                  })}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
 
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <div>
-              <Label htmlFor="distance">Distance from Warehouse (km)</Label>
+              <Label htmlFor="distance">Distance from Depot (km)</Label>
               <div className="flex gap-2">
                 <div className="relative flex-1">
                   <Input
@@ -710,7 +817,7 @@ const QuoteCalculator = () => {
               
               {isDistanceAutoCalculated && !isDistanceLoading && (
                 <div className="text-xs text-green-600 mt-1">
-                  Auto-calculated from address
+                  Auto-calculated from address{formData.depot ? `, from ${formData.depot.name}` : ''}
                 </div>
               )}
               
@@ -747,32 +854,114 @@ const QuoteCalculator = () => {
                   <SelectValue placeholder="Select difficulty" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="Easy">Easy</SelectItem>
-                  <SelectItem value="Standard">Standard</SelectItem>
-                  <SelectItem value="Difficult">Difficult</SelectItem>
+                  {Object.keys(rateSettings.accessDifficultyRates).map((level) => (
+                    <SelectItem key={level} value={level}>{level}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
           </div>
 
-          <div>
-            <Label htmlFor="roomRate">Room Rate</Label>
-            <Input
-              id="roomRate"
-              type="number"
-              min="0"
-              value={formData.roomRate}
-              onChange={(e) => {
-                setFormData(prev => ({ ...prev, roomRate: parseFloat(e.target.value) || 400 }));
-                setIsRoomRateCustomized(true);
-              }}
-            />
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="roomRate">Room Rate</Label>
+              <Input
+                id="roomRate"
+                type="number"
+                min="0"
+                value={formData.roomRate}
+                onChange={(e) => {
+                  setFormData(prev => ({ ...prev, roomRate: parseFloat(e.target.value) || 400 }));
+                  setIsRoomRateCustomized(true);
+                }}
+              />
+            </div>
+            <div>
+              <Label htmlFor="hireWeeks">Hire Period (weeks)</Label>
+              <Input
+                id="hireWeeks"
+                type="number"
+                min="1"
+                value={breakdown.hire.hireWeeks}
+                onChange={(e) => {
+                  // Clearing the field goes back to the included term
+                  const weeks = parseInt(e.target.value);
+                  setFormData(prev => ({ ...prev, hireWeeks: weeks > 0 ? weeks : undefined }));
+                }}
+              />
+              <div className="text-xs text-slate-500 mt-1">
+                {breakdown.hire.includedWeeks} weeks included
+                {breakdown.hire.extensionWeeks > 0 && `, then $${breakdown.hire.weeklyRate.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} per extension week`}
+              </div>
+            </div>
           </div>
         </CardContent>
       </Card>
 
+      {/* Quote Options */}
+      <Card className="border-0 shadow-sm">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-lg font-semibold text-slate-900 flex items-center gap-2">
+            <Layers className="h-5 w-5 text-blue-600" />
+            Quote Options
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {currentOptions.length === 0 ? (
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-sm text-slate-500">Offer two or more options, e.g. Good / Better / Best, priced side by side.</p>
+              <Button variant="outline" size="sm" onClick={handleStartOptions}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add options
+              </Button>
+            </div>
+          ) : (
+            <>
+              <div className="flex flex-wrap gap-2">
+                {currentOptions.map((option, index) => (
+                  <Button
+                    key={index}
+                    variant={index === activeOption ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => handleSelectOption(index)}
+                  >
+                    {option.name || `Option ${index + 1}`}
+                    {index === acceptedOption && <CheckCircle className="h-4 w-4 ml-1" />}
+                  </Button>
+                ))}
+                {currentOptions.length < MAX_QUOTE_OPTIONS && (
+                  <Button variant="ghost" size="sm" onClick={handleAddOption}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add option
+                  </Button>
+                )}
+              </div>
+              <div className="flex items-end gap-2">
+                <div className="flex-1">
+                  <Label htmlFor="optionName" className="text-sm font-medium text-slate-700">Option Name</Label>
+                  <Input
+                    id="optionName"
+                    value={currentOptions[activeOption].name}
+                    maxLength={MAX_OPTION_NAME_LENGTH}
+                    onChange={(e) => handleRenameOption(e.target.value)}
+                    className="mt-1"
+                  />
+                </div>
+                <Button variant="ghost" size="sm" title="Remove option" onClick={() => handleRemoveOption(activeOption)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-xs text-slate-500">
+                Rooms, styling and room rate below belong to the selected option; the property details, hire period
+                and extras are shared by all of them.
+              </p>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Room Configuration */}
-      <Card className="border-0 shadow-sm calculator-inputs">
+      <Card className="border-0 shadow-sm">
         <CardHeader className="pb-3">
           <CardTitle className="text-lg font-semibold text-slate-900">
             Room Configuration
@@ -786,19 +975,37 @@ const QuoteCalculator = () => {
               <div className="col-span-3 text-center">Item Qty %</div>
             </div>
 
-            {Object.entries(formData.rooms)
-              .filter(([roomType]) => {
-                // Hide rooms that are in hiddenRooms set
-                if (hiddenRooms.has(roomType)) return false;
-                // Hide Master Wardrobe if property type is Apartment
-                if (roomType === 'Master Wardrobe' && formData.propertyType === 'Apartment') return false;
-                return true;
-              })
-              .map(([roomType, room]) => (
+            {visibleRooms.map(([roomType, room]) => (
               <div key={roomType} className="grid grid-cols-11 gap-2 items-center py-1">
-                <div className="col-span-5 text-sm font-medium text-slate-700">
-                  {roomType}
+                <div className="col-span-5 text-sm font-medium text-slate-700 flex items-center gap-1">
+                  <span className="truncate">{roomType}</span>
                   {roomType === 'Master Bedroom' && <span className="text-red-500 ml-1">*</span>}
+                  {isCustomRoom(roomType) && (
+                    <>
+                      <span className="text-xs text-slate-500 whitespace-nowrap">(custom, weight {room.weight})</span>
+                      {adminSession && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 px-1"
+                          title="Add to room catalogue"
+                          disabled={promotingRoom === roomType}
+                          onClick={() => handlePromoteRoom(roomType)}
+                        >
+                          <BookPlus className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-1"
+                        title="Remove custom room"
+                        onClick={() => removeCustomRoom(roomType)}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
                 </div>
                 <div className="col-span-3">
                   <Input
@@ -821,12 +1028,55 @@ const QuoteCalculator = () => {
                 </div>
               </div>
             ))}
+
+            {/* Custom Rooms */}
+            <div className="grid grid-cols-11 gap-2 items-end pt-3 border-t">
+              <div className="col-span-5">
+                <Label htmlFor="customRoomName" className="text-xs">Custom room</Label>
+                <Input
+                  id="customRoomName"
+                  placeholder="e.g. Media Room"
+                  value={customRoomName}
+                  onChange={(e) => setCustomRoomName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleAddCustomRoom()}
+                  className="h-8"
+                />
+              </div>
+              <div className="col-span-3">
+                <Label htmlFor="customRoomWeight" className="text-xs">Weight</Label>
+                <Input
+                  id="customRoomWeight"
+                  type="number"
+                  min="0"
+                  step="0.25"
+                  value={customRoomWeight}
+                  onChange={(e) => setCustomRoomWeight(parseFloat(e.target.value) || 0)}
+                  className="text-center h-8"
+                />
+              </div>
+              <div className="col-span-3">
+                <Button variant="outline" size="sm" className="w-full h-8" onClick={handleAddCustomRoom}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add custom room
+                </Button>
+              </div>
+            </div>
+            {customRoomErrors.length > 0 && (
+              <ul className="text-xs text-red-600 space-y-1">
+                {customRoomErrors.map((error) => (
+                  <li key={error.field}>{error.message}</li>
+                ))}
+              </ul>
+            )}
+            {promoteErrorMessage && (
+              <p className="text-xs text-red-600">Failed to add room to catalogue: {promoteErrorMessage}</p>
+            )}
           </div>
         </CardContent>
       </Card>
 
       {/* Optional Rooms */}
-      <Card className="border-0 shadow-sm calculator-inputs">
+      <Card className="border-0 shadow-sm">
         <CardHeader className="pb-3">
           <CardTitle className="text-lg font-semibold text-slate-900">
             Optional Rooms
@@ -837,8 +1087,8 @@ const QuoteCalculator = () => {
         </CardHeader>
         <CardContent>
           <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3">
-            {Object.keys(optionalRooms).map((roomType) => {
-              const isHidden = hiddenRooms.has(roomType);
+            {optionalRoomTypes.map((roomType) => {
+              const isHidden = !isOptionalRoomShown(roomType);
               return (
                 <Button
                   key={roomType}
@@ -866,8 +1116,160 @@ const QuoteCalculator = () => {
         </CardContent>
       </Card>
 
+      {/* Extras */}
+      <Card className="border-0 shadow-sm">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-lg font-semibold text-slate-900">Extras</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {rateSettings.extras.length === 0 && unknownExtraIds.length === 0 && (
+            <p className="text-sm text-slate-500">This rate card has no extras.</p>
+          )}
+          {rateSettings.extras.map((extra) => {
+            const quantity = formData.extras?.[extra.id] ?? 0;
+            const line = breakdown.extras.find(extraLine => extraLine.extraId === extra.id);
+            return (
+              <div key={extra.id} className="grid grid-cols-12 gap-2 items-center">
+                <div className="col-span-6">
+                  <Label className="text-sm font-medium text-slate-700">{extra.name}</Label>
+                  <p className="text-xs text-slate-500">
+                    ${extra.price.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                    {extra.pricing === 'perUnit' ? ` per ${extra.unit}` : ''}
+                  </p>
+                </div>
+                <div className="col-span-3">
+                  {extra.pricing === 'fixed' ? (
+                    <Button
+                      variant={quantity > 0 ? 'default' : 'outline'}
+                      size="sm"
+                      className="w-full h-8"
+                      onClick={() => setExtraQuantity(extra.id, quantity > 0 ? 0 : 1)}
+                    >
+                      {quantity > 0 ? <X className="h-4 w-4 mr-1" /> : <Plus className="h-4 w-4 mr-1" />}
+                      {quantity > 0 ? 'Added' : 'Add'}
+                    </Button>
+                  ) : (
+                    <Input
+                      type="number"
+                      min="0"
+                      value={quantity}
+                      onChange={(e) => setExtraQuantity(extra.id, Math.max(0, parseInt(e.target.value) || 0))}
+                      className="text-center h-8"
+                    />
+                  )}
+                </div>
+                <div className="col-span-3 text-right text-sm font-semibold text-slate-900">
+                  {line ? `$${line.subtotal.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}` : '-'}
+                </div>
+              </div>
+            );
+          })}
+          {unknownExtraIds.map((extraId) => (
+            <div key={extraId} className="flex justify-between items-center text-sm text-amber-700">
+              <span>An extra on this quote ({extraId}) isn't offered by rate card {describeRateCard(rateCard)}.</span>
+              <Button variant="ghost" size="sm" title="Remove extra" onClick={() => setExtraQuantity(extraId, 0)}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {/* Price Override */}
+      <Card className="border-0 shadow-sm">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-lg font-semibold text-slate-900 flex items-center gap-2">
+            <BadgePercent className="h-5 w-5 text-blue-600" />
+            Price Override
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div>
+              <Label htmlFor="overrideKind" className="text-sm font-medium text-slate-700">Override</Label>
+              <Select
+                value={formData.override?.kind ?? 'none'}
+                onValueChange={(value) => {
+                  if (value === 'none') {
+                    setFormData(prev => ({ ...prev, override: null }));
+                  } else {
+                    setOverrideSize(overrideSize, value as PriceOverrideKind, overrideSign);
+                  }
+                }}
+              >
+                <SelectTrigger id="overrideKind" className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No override</SelectItem>
+                  <SelectItem value="percent">Percentage</SelectItem>
+                  <SelectItem value="amount">Dollar amount (ex GST)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {formData.override && (
+              <>
+                <div className="flex gap-1">
+                  {[-1, 1].map((sign) => (
+                    <Button
+                      key={sign}
+                      variant={overrideSign === sign ? 'default' : 'outline'}
+                      size="sm"
+                      className="flex-1"
+                      onClick={() => {
+                        setOverrideSign(sign);
+                        setOverrideSize(overrideSize, formData.override.kind, sign);
+                      }}
+                    >
+                      {sign < 0 ? 'Discount' : 'Premium'}
+                    </Button>
+                  ))}
+                </div>
+                <div>
+                  <Label htmlFor="overrideValue" className="text-sm font-medium text-slate-700">
+                    {formData.override.kind === 'percent' ? 'Percentage (%)' : 'Amount ($)'}
+                  </Label>
+                  <Input
+                    id="overrideValue"
+                    type="number"
+                    min="0"
+                    step={formData.override.kind === 'percent' ? '0.5' : '10'}
+                    value={overrideSize}
+                    onChange={(e) => setOverrideSize(Math.max(0, parseFloat(e.target.value) || 0), formData.override.kind, overrideSign)}
+                    className="mt-1"
+                  />
+                </div>
+              </>
+            )}
+          </div>
+          {formData.override && (
+            <div>
+              <Label htmlFor="overrideReason" className="text-sm font-medium text-slate-700">Reason (required)</Label>
+              <Textarea
+                id="overrideReason"
+                value={formData.override.reason}
+                maxLength={MAX_OVERRIDE_REASON_LENGTH}
+                placeholder="Why this quote is priced differently, e.g. repeat agent, matching a competitor"
+                onChange={(e) => updateOverride({ reason: e.target.value })}
+                className="mt-1"
+              />
+            </div>
+          )}
+          {overrideErrors.length > 0 && (
+            <ul className="text-xs text-red-600 space-y-1">
+              {overrideErrors.map((error) => (
+                <li key={error.field}>{error.message}</li>
+              ))}
+            </ul>
+          )}
+          <p className="text-xs text-slate-500">
+            Use an override rather than changing the room rate, so the quote records how much was discounted and why.
+          </p>
+        </CardContent>
+      </Card>
+
       {/* Calculations */}
-      <Card className="border-0 shadow-sm bg-gradient-to-r from-blue-50 to-indigo-50 calculator-inputs">
+      <Card className="border-0 shadow-sm bg-gradient-to-r from-blue-50 to-indigo-50">
         <CardHeader className="pb-3">
           <CardTitle className="text-lg font-semibold text-slate-900 flex items-center gap-2">
             <Calculator className="h-5 w-5 text-blue-600" />
@@ -875,6 +1277,28 @@ const QuoteCalculator = () => {
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-3">
+          <div className="flex justify-between items-center gap-4">
+            <span className="text-sm font-medium text-slate-700">Rate Card:</span>
+            {rateCards.length > 1 ? (
+              <Select
+                value={rateCard.id}
+                onValueChange={(value) => setRateCardId(value === currentRateCard.id ? null : value)}
+              >
+                <SelectTrigger className="w-64 h-8 bg-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {rateCards.map((card) => (
+                    <SelectItem key={card.id} value={card.id}>
+                      {describeRateCard(card)}{card.id === currentRateCard.id ? ' · current' : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <span className="text-sm font-semibold text-slate-900">{describeRateCard(rateCard)}</span>
+            )}
+          </div>
           <div className="flex justify-between items-center">
             <span className="text-sm font-medium text-slate-700">Equivalent Room Count:</span>
             <span className="text-sm font-semibold text-slate-900">{calculations.equivalentRooms}</span>
@@ -883,33 +1307,130 @@ const QuoteCalculator = () => {
             <span className="text-sm font-medium text-slate-700">Base Quote:</span>
             <span className="text-sm font-semibold text-slate-900">${calculations.baseQuote.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
           </div>
+          {breakdown.adjustments.filter(adjustment => adjustment.amount !== 0).map((adjustment) => (
+            <div key={adjustment.source} className="flex justify-between items-center pl-4">
+              <span className="text-sm text-slate-600">
+                {adjustment.label}
+                {adjustment.rate !== null && ` (${adjustment.rate >= 0 ? '+' : ''}${Math.round(adjustment.rate * 10000) / 100}%)`}
+              </span>
+              <span className={`text-sm ${adjustment.amount >= 0 ? 'text-red-600' : 'text-green-600'}`}>
+                {adjustment.amount >= 0 ? '+' : ''}${adjustment.amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+              </span>
+            </div>
+          ))}
           <div className="flex justify-between items-center">
             <span className="text-sm font-medium text-slate-700">Variation:</span>
             <span className={`text-sm font-semibold ${calculations.variation >= 0 ? 'text-red-600' : 'text-green-600'}`}>
               {calculations.variation >= 0 ? '+' : ''}${calculations.variation.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
             </span>
           </div>
+          <div className="flex justify-between items-center">
+            <span className="text-sm font-medium text-slate-700">Hire Period:</span>
+            <span className="text-sm font-semibold text-slate-900">
+              {breakdown.hire.hireWeeks} weeks ({breakdown.hire.includedWeeks} included)
+            </span>
+          </div>
+          {breakdown.hire.extensionWeeks > 0 && (
+            <div className="flex justify-between items-center">
+              <span className="text-sm font-medium text-slate-700">
+                Hire Extension ({breakdown.hire.extensionWeeks} x ${breakdown.hire.weeklyRate.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} per week):
+              </span>
+              <span className="text-sm font-semibold text-slate-900">+${breakdown.hire.subtotal.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+            </div>
+          )}
+          {breakdown.extras.map((extra) => (
+            <div key={extra.extraId} className="flex justify-between items-center">
+              <span className="text-sm font-medium text-slate-700">
+                {extra.name}{extra.pricing === 'perUnit' ? ` (${extra.quantity} x ${extra.unit})` : ''}:
+              </span>
+              <span className="text-sm font-semibold text-slate-900">+${extra.subtotal.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+            </div>
+          ))}
           <Separator />
           <div className="flex justify-between items-center">
-            <span className="text-lg font-bold text-slate-900">Final Quote:</span>
-            <span className="text-2xl font-bold text-blue-600">${calculations.finalQuote.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+            <span className="text-sm font-medium text-slate-700">Final Quote (ex GST):</span>
+            <span className="text-sm font-semibold text-slate-900">${calculations.finalQuote.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+          </div>
+          <div className="flex justify-between items-center">
+            <span className="text-sm font-medium text-slate-700">GST ({Math.round(breakdown.gstRate * 10000) / 100}%):</span>
+            <span className="text-sm font-semibold text-slate-900">${calculations.gst.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+          </div>
+          <div className="flex justify-between items-center">
+            <span className="text-lg font-bold text-slate-900">Final Quote (inc GST):</span>
+            <span className="text-2xl font-bold text-blue-600">${calculations.finalQuoteIncGst.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
           </div>
         </CardContent>
       </Card>
 
+      {currentOptions.length > 0 && (
+        <QuoteOptionsComparison
+          options={pricedOptions}
+          activeOption={activeOption}
+          acceptedOption={acceptedOption}
+          onSelect={handleSelectOption}
+          onAccept={setAcceptedOption}
+        />
+      )}
+
+      {rateCard.id !== currentRateCard.id && (
+        <RepriceComparison
+          formData={formData}
+          pricedWith={rateCard}
+          current={currentRateCard}
+          onReprice={() => setRateCardId(null)}
+        />
+      )}
+
       {/* Action Buttons */}
-      <div className="flex flex-col sm:flex-row gap-3 justify-center items-center no-print">
+      <div className="flex flex-col sm:flex-row gap-3 justify-center items-center">
         <Button 
-          onClick={handlePrint}
-          className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2"
+          onClick={handleDownloadPdf}
+          disabled={isGeneratingPdf || !formData.propertyType || overrideErrors.length > 0}
+          className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white px-6 py-2"
         >
-          <Printer className="h-4 w-4 mr-2" />
-          Print Quote
+          {isGeneratingPdf ? (
+            <>
+              <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent mr-2"></div>
+              Generating...
+            </>
+          ) : (
+            <>
+              <FileDown className="h-4 w-4 mr-2" />
+              Download PDF
+            </>
+          )}
         </Button>
         
+        <Button 
+          onClick={handleSaveQuote}
+          disabled={isSavingQuote || !formData.propertyType || overrideErrors.length > 0}
+          className="bg-slate-700 hover:bg-slate-800 disabled:bg-gray-400 text-white px-6 py-2"
+        >
+          {isSavingQuote ? (
+            <>
+              <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent mr-2"></div>
+              Saving...
+            </>
+          ) : (
+            <>
+              <Save className="h-4 w-4 mr-2" />
+              {quoteId ? 'Update Quote' : 'Save Quote'}
+            </>
+          )}
+        </Button>
+
+        <Button 
+          onClick={handleCopyShareLink}
+          variant="outline"
+          className="px-6 py-2"
+        >
+          <Link2 className="h-4 w-4 mr-2" />
+          Copy Share Link
+        </Button>
+
         <Button 
           onClick={handleSendToNotion}
-          disabled={isSubmittingToNotion || !formData.propertyType}
+          disabled={isSubmittingToNotion || !formData.propertyType || overrideErrors.length > 0}
           className="bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400 text-white px-6 py-2"
         >
           {isSubmittingToNotion ? (
@@ -926,9 +1447,71 @@ const QuoteCalculator = () => {
         </Button>
       </div>
 
+      {quoteNumber && (
+        <p className="text-center text-sm text-slate-500">
+          Quote {formatQuoteNumber(quoteNumber)}
+          {notionPage && (
+            <>
+              {' · '}
+              <a href={notionPage.url} target="_blank" rel="noreferrer" className="text-purple-600 hover:underline">
+                In Notion{notionPage.status ? ` (${notionPage.status})` : ''}
+              </a>
+            </>
+          )}
+        </p>
+      )}
+
+      {/* PDF Status Messages */}
+      {pdfErrorMessage && (
+        <div className="text-center">
+          <div className="inline-flex items-center gap-2 px-4 py-2 bg-red-100 text-red-800 rounded-lg">
+            <div className="w-2 h-2 bg-red-600 rounded-full"></div>
+            Failed to generate PDF: {pdfErrorMessage}
+          </div>
+        </div>
+      )}
+
+      {/* Share Link Status Messages */}
+      {shareStatus === 'success' && (
+        <div className="text-center">
+          <div className="inline-flex items-center gap-2 px-4 py-2 bg-green-100 text-green-800 rounded-lg">
+            <div className="w-2 h-2 bg-green-600 rounded-full"></div>
+            Share link copied to clipboard!
+          </div>
+        </div>
+      )}
+
+      {shareStatus === 'error' && (
+        <div className="text-center">
+          <div className="inline-flex items-center gap-2 px-4 py-2 bg-red-100 text-red-800 rounded-lg">
+            <div className="w-2 h-2 bg-red-600 rounded-full"></div>
+            Could not copy the share link
+          </div>
+        </div>
+      )}
+
+      {/* Save Status Messages */}
+      {saveStatus === 'success' && (
+        <div className="text-center">
+          <div className="inline-flex items-center gap-2 px-4 py-2 bg-green-100 text-green-800 rounded-lg">
+            <div className="w-2 h-2 bg-green-600 rounded-full"></div>
+            Quote saved!
+          </div>
+        </div>
+      )}
+
+      {saveStatus === 'error' && (
+        <div className="text-center">
+          <div className="inline-flex items-center gap-2 px-4 py-2 bg-red-100 text-red-800 rounded-lg">
+            <div className="w-2 h-2 bg-red-600 rounded-full"></div>
+            Failed to save quote: {saveErrorMessage}
+          </div>
+        </div>
+      )}
+
       {/* Notion Status Messages */}
       {notionSubmissionStatus === 'success' && (
-        <div className="text-center no-print">
+        <div className="text-center">
           <div className="inline-flex items-center gap-2 px-4 py-2 bg-green-100 text-green-800 rounded-lg">
             <div className="w-2 h-2 bg-green-600 rounded-full"></div>
             Quote successfully sent to Notion!
@@ -937,7 +1520,7 @@ const QuoteCalculator = () => {
       )}
       
       {notionSubmissionStatus === 'error' && (
-        <div className="text-center no-print">
+        <div className="text-center">
           <div className="inline-flex items-center gap-2 px-4 py-2 bg-red-100 text-red-800 rounded-lg">
             <div className="w-2 h-2 bg-red-600 rounded-full"></div>
             Failed to send to Notion: {notionErrorMessage}
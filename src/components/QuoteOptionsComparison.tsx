@@ -0,0 +1,99 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CheckCircle, Pencil } from 'lucide-react';
+import type { QuoteBreakdown } from '@/lib/pricing';
+
+export interface PricedOption {
+  name: string;
+  styling: string;
+  breakdown: QuoteBreakdown;
+}
+
+interface QuoteOptionsComparisonProps {
+  options: PricedOption[];
+  activeOption: number;
+  acceptedOption: number | null;
+  onSelect: (index: number) => void;
+  onAccept: (index: number | null) => void;
+}
+
+const formatMoney = (value: number) =>
+  `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// Good / Better / Best side by side, one column per option
+const QuoteOptionsComparison = ({ options, activeOption, acceptedOption, onSelect, onAccept }: QuoteOptionsComparisonProps) => {
+  const roomTypes = [...new Set(options.flatMap(option => option.breakdown.rooms.map(room => room.roomType)))];
+
+  const rows: { label: string; values: string[]; isTotal?: boolean }[] = [
+    { label: 'Styling', values: options.map(option => option.styling) },
+    { label: 'Room Rate', values: options.map(option => formatMoney(option.breakdown.roomRate)) },
+    ...roomTypes.map(roomType => ({
+      label: roomType,
+      values: options.map(option => {
+        const room = option.breakdown.rooms.find(line => line.roomType === roomType);
+        return room ? `${room.count} x ${room.percentage}%` : '-';
+      }),
+    })),
+    { label: 'Equivalent Rooms', values: options.map(option => String(option.breakdown.equivalentRooms)) },
+    { label: 'Base Quote', values: options.map(option => formatMoney(option.breakdown.baseQuote)) },
+    { label: 'Variation', values: options.map(option => formatMoney(option.breakdown.variation)) },
+    { label: 'Final Quote (ex GST)', values: options.map(option => formatMoney(option.breakdown.finalQuote)) },
+    { label: 'GST', values: options.map(option => formatMoney(option.breakdown.gst)) },
+    { label: 'Final Quote (inc GST)', values: options.map(option => formatMoney(option.breakdown.finalQuoteIncGst)), isTotal: true },
+  ];
+
+  return (
+    <Card className="border-0 shadow-sm">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg font-semibold text-slate-900">Compare Options</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead></TableHead>
+              {options.map((option, index) => (
+                <TableHead key={index} className={`text-right ${index === activeOption ? 'text-blue-700' : ''}`}>
+                  {option.name}
+                  {index === acceptedOption && <Badge className="ml-2 bg-green-600">Accepted</Badge>}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow key={row.label}>
+                <TableCell className={row.isTotal ? 'font-bold' : 'text-slate-700'}>{row.label}</TableCell>
+                {row.values.map((value, index) => (
+                  <TableCell key={index} className={`text-right ${row.isTotal ? 'font-bold text-blue-600' : ''}`}>{value}</TableCell>
+                ))}
+              </TableRow>
+            ))}
+            <TableRow>
+              <TableCell></TableCell>
+              {options.map((_, index) => (
+                <TableCell key={index} className="text-right space-x-1">
+                  <Button variant="ghost" size="sm" title="Edit option" disabled={index === activeOption} onClick={() => onSelect(index)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant={index === acceptedOption ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => onAccept(index === acceptedOption ? null : index)}
+                  >
+                    <CheckCircle className="h-4 w-4 mr-1" />
+                    {index === acceptedOption ? 'Accepted' : 'Accept'}
+                  </Button>
+                </TableCell>
+              ))}
+            </TableRow>
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default QuoteOptionsComparison;
@@ -0,0 +1,62 @@
+import { useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { RefreshCw } from 'lucide-react';
+import { priceQuote, type CalculatorFormData } from '@/lib/pricing';
+import { compareBreakdowns } from '@/lib/repricing';
+import { describeRateCard, type RateCard } from '@/lib/rateSettings';
+
+interface RepriceComparisonProps {
+  formData: CalculatorFormData;
+  pricedWith: RateCard;
+  current: RateCard;
+  onReprice: () => void;
+}
+
+const formatMoney = (value: number) =>
+  value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// Shows what each line of a quote priced under an older card would cost under the current card
+const RepriceComparison = ({ formData, pricedWith, current, onReprice }: RepriceComparisonProps) => {
+  const deltas = useMemo(
+    () => compareBreakdowns(priceQuote(formData, pricedWith.settings), priceQuote(formData, current.settings)),
+    [formData, pricedWith, current],
+  );
+
+  return (
+    <Card className="border-0 shadow-sm border-amber-200 bg-amber-50">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg font-semibold text-slate-900">
+          Reprice Under Current Card
+        </CardTitle>
+        <p className="text-sm text-slate-600 mt-2">
+          This quote is priced with rate card {describeRateCard(pricedWith)}. The current card is {describeRateCard(current)}.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-12 gap-2 text-sm font-medium text-slate-600 pb-2 border-b">
+          <div className="col-span-6">Line Item</div>
+          <div className="col-span-2 text-right">Priced</div>
+          <div className="col-span-2 text-right">Current</div>
+          <div className="col-span-2 text-right">Delta</div>
+        </div>
+        {deltas.map((line) => (
+          <div key={line.key} className="grid grid-cols-12 gap-2 text-sm">
+            <div className="col-span-6 text-slate-700">{line.label}</div>
+            <div className="col-span-2 text-right">${formatMoney(line.original)}</div>
+            <div className="col-span-2 text-right">${formatMoney(line.repriced)}</div>
+            <div className={`col-span-2 text-right font-semibold ${line.delta > 0 ? 'text-red-600' : line.delta < 0 ? 'text-green-600' : 'text-slate-500'}`}>
+              {line.delta > 0 ? '+' : ''}{formatMoney(line.delta)}
+            </div>
+          </div>
+        ))}
+        <Button variant="outline" size="sm" onClick={onReprice}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Switch to current card
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RepriceComparison;
@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { FolderOpen, Pencil, Trash2, Check, X } from 'lucide-react';
+import { useDrafts } from '@/hooks/use-drafts';
+import { draftService, type QuoteDraft } from '@/services/draftService';
+
+interface ResumeDraftsProps {
+  // Key of the draft the calculator is editing right now, if any
+  activeKey?: string;
+  onResume: (draft: QuoteDraft) => void;
+}
+
+// Autosaved drafts in this browser, with reopen, rename and discard
+const ResumeDrafts = ({ activeKey, onResume }: ResumeDraftsProps) => {
+  const drafts = useDrafts();
+  const [renamingKey, setRenamingKey] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+
+  if (drafts.length === 0) return null;
+
+  const startRename = (draft: QuoteDraft) => {
+    setRenamingKey(draft.key);
+    setNewName(draft.name);
+  };
+
+  const finishRename = () => {
+    if (renamingKey !== null) draftService.rename(renamingKey, newName);
+    setRenamingKey(null);
+  };
+
+  return (
+    <Card className="border-0 shadow-sm mb-6">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg font-semibold text-slate-900">Resume Draft</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {drafts.map((draft) => (
+          <div key={draft.key} className="flex items-center gap-2 text-sm">
+            {renamingKey === draft.key ? (
+              <>
+                <Input
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') finishRename();
+                    if (e.key === 'Escape') setRenamingKey(null);
+                  }}
+                  className="h-8"
+                  autoFocus
+                />
+                <Button variant="ghost" size="sm" onClick={finishRename} aria-label="Save name">
+                  <Check className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setRenamingKey(null)} aria-label="Cancel rename">
+                  <X className="h-4 w-4" />
+                </Button>
+              </>
+            ) : (
+              <>
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium text-slate-900 truncate">
+                    {draft.name}
+                    {draft.key === activeKey && <span className="ml-2 text-xs text-blue-600">(open)</span>}
+                  </div>
+                  <div className="text-xs text-slate-500">
+                    {draft.state.formData.propertyType || 'No property type'} · saved {new Date(draft.updatedAt).toLocaleString()}
+                  </div>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => onResume(draft)}>
+                  <FolderOpen className="h-4 w-4 mr-2" />
+                  Reopen
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => startRename(draft)} aria-label="Rename draft">
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => draftService.discard(draft.key)} aria-label="Discard draft">
+                  <Trash2 className="h-4 w-4 text-red-600" />
+                </Button>
+              </>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ResumeDrafts;
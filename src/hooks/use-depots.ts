@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react';
+import { staticDepots, type Depot } from '@/lib/depots';
+import { depotService } from '@/services/depotService';
+
+// The depots quotes are measured from. Uses the built-in depot until the saved list arrives.
+export function useDepots() {
+  const [depots, setDepots] = useState<Depot[]>(staticDepots);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    depotService.load().then((loaded) => {
+      if (!cancelled) {
+        setDepots(loaded);
+        setIsLoading(false);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { depots, isLoading };
+}
@@ -0,0 +1,11 @@
+import { useEffect, useState } from 'react';
+import { draftService, type QuoteDraft } from '@/services/draftService';
+
+// Autosaved calculator drafts, kept up to date as the calculator saves them
+export function useDrafts(): QuoteDraft[] {
+  const [drafts, setDrafts] = useState<QuoteDraft[]>(() => draftService.list());
+
+  useEffect(() => draftService.subscribe(() => setDrafts(draftService.list())), []);
+
+  return drafts;
+}
@@ -0,0 +1,28 @@
+import { useCallback, useEffect, useState } from 'react';
+import { staticRateCard } from '@/lib/rateSettings';
+import { rateSettingsService, type LoadedRateCards } from '@/services/rateSettingsService';
+
+// Published rate cards for the calculator. Prices with the static card until the saved ones arrive.
+export function useRateCards() {
+  const [loaded, setLoaded] = useState<LoadedRateCards>({ cards: [staticRateCard], current: staticRateCard, source: 'static' });
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    rateSettingsService.load().then((result) => {
+      if (!cancelled) {
+        setLoaded(result);
+        setIsLoading(false);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const findCard = useCallback((id: string) => loaded.cards.find(card => card.id === id) ?? null, [loaded.cards]);
+
+  return { ...loaded, isLoading, findCard };
+}
@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { CatalogueRoom } from '@/lib/roomCatalogue';
+import { staticRoomCatalogue } from '@/lib/rooms';
+import { roomCatalogueService } from '@/services/roomCatalogueService';
+
+// The managed room catalogue. Uses the built-in rooms until the saved catalogue arrives.
+export function useRoomCatalogue() {
+  const [catalogue, setCatalogue] = useState<CatalogueRoom[]>(staticRoomCatalogue);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    roomCatalogueService.load().then((rooms) => {
+      if (!cancelled) {
+        setCatalogue(rooms);
+        setIsLoading(false);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const roomsByName = useMemo(() => new Map(catalogue.map(room => [room.name, room])), [catalogue]);
+
+  const findRoom = useCallback((name: string) => roomsByName.get(name) ?? null, [roomsByName]);
+
+  // Rooms on a quote that aren't in the catalogue were added by hand for that quote
+  const isCustomRoom = useCallback((name: string) => !roomsByName.has(name), [roomsByName]);
+
+  const addPromotedRoom = useCallback((room: CatalogueRoom) => {
+    setCatalogue(prev => [...prev, room]);
+  }, []);
+
+  return { catalogue, isLoading, findRoom, isCustomRoom, addPromotedRoom };
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it, vi } from 'vitest';
+import { decodeShareState, encodeShareState, type CalculatorState } from '@/lib/calculatorState';
+import type { CatalogueRoom } from '@/lib/roomCatalogue';
+
+// Backyard isn't one of the built-in rooms, so only this catalogue knows it
+const catalogue: CatalogueRoom[] = [
+  { name: 'Living Room', weight: 2, defaultCount: 1, defaultPercentage: 100, isCore: true, propertyTypes: [] },
+  { name: 'Backyard', weight: 0.5, defaultCount: 0, defaultPercentage: 100, isCore: false, propertyTypes: ['House'] },
+  { name: 'Study', weight: 1, defaultCount: 0, defaultPercentage: 100, isCore: false, propertyTypes: [] },
+];
+
+const state: CalculatorState = {
+  formData: {
+    propertyType: 'House',
+    styling: 'Partial',
+    propertyAddress: '1 Test St, Lidcombe NSW',
+    distanceFromWarehouse: 12.5,
+    listingPrice: 1800000,
+    accessDifficulty: 'Standard',
+    roomRate: 400,
+    rooms: {
+      'Living Room': { count: 1, percentage: 60, weight: 2 },
+      'Backyard': { count: 0, percentage: 100, weight: 0.5 },
+      'Study': { count: 0, percentage: 100, weight: 1 },
+      'Wine Cellar': { count: 1, percentage: 80, weight: 1.5 },
+    },
+    extras: { consult: 1 },
+    hireWeeks: 8,
+    override: { kind: 'amount', value: -100, reason: 'Repeat client' },
+    depot: { id: 'lidcombe', name: 'Lidcombe', address: '2/67 Mons Street, Lidcombe NSW 2141' },
+  },
+  hiddenRooms: ['Study'],
+  isRoomRateCustomized: true,
+  isAccessDifficultyCustomized: false,
+  isListingPriceCustomized: true,
+  isDepotCustomized: true,
+  rateCardId: 'card-1',
+  options: [],
+  activeOption: 0,
+  acceptedOption: null,
+};
+
+const encodeJson = (value: unknown): string =>
+  btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+describe('share links', () => {
+  it('restore the state they were made from', () => {
+    expect(decodeShareState(encodeShareState(state, catalogue), catalogue)).toEqual(state);
+  });
+
+  it('restore the options of a multi-option quote', () => {
+    const options = [
+      { name: 'Good', styling: 'Partial', roomRate: 400, rooms: state.formData.rooms },
+      { name: 'Best', styling: 'Full', roomRate: 450, rooms: { ...state.formData.rooms, 'Study': { count: 1, percentage: 100, weight: 1 } } },
+    ];
+    const withOptions = { ...state, options, activeOption: 1, acceptedOption: 0 };
+
+    expect(decodeShareState(encodeShareState(withOptions, catalogue), catalogue)).toEqual(withOptions);
+  });
+
+  it('bring back catalogue rooms left off the link from the loaded catalogue', () => {
+    const decoded = decodeShareState(encodeShareState(state, catalogue), catalogue);
+
+    expect(decoded?.formData.rooms['Backyard']).toEqual({ count: 0, percentage: 100, weight: 0.5 });
+    expect(decoded?.hiddenRooms).toEqual(['Study']);
+  });
+
+  describe('edited by hand', () => {
+    const link = { v: 1, p: 'House', s: 'Full', a: '', d: 0, l: 0, x: 'Easy', r: 400, rm: [], o: [], f: 0, c: null };
+
+    it('still open when every field has its type', () => {
+      expect(decodeShareState(encodeJson(link), catalogue)?.formData.propertyType).toBe('House');
+    });
+
+    it.each([
+      ['text that is not base64 JSON', '%%%'],
+      ['an unknown version', encodeJson({ ...link, v: 2 })],
+      ['no rooms', encodeJson({ ...link, rm: undefined })],
+      ['a distance that is not a number', encodeJson({ ...link, d: '12' })],
+      ['a room that is not [name, count, percentage, weight]', encodeJson({ ...link, rm: [['Study', 1]] })],
+      ['an override of an unknown kind', encodeJson({ ...link, ov: ['free', 1, 'Because'] })],
+    ])('are ignored with %s', (_description, encoded) => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(decodeShareState(encoded, catalogue)).toBeNull();
+    });
+  });
+});
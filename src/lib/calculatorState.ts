@@ -0,0 +1,268 @@
+import type { CalculatorFormData, PriceOverride, RoomData } from '@/lib/pricing';
+import { leadOptionIndex, type QuoteOption } from '@/lib/quoteOptions';
+import type { SavedQuote } from '@/lib/quotes';
+import { toRoomData, type CatalogueRoom } from '@/lib/roomCatalogue';
+import { allRooms, optionalRooms, staticRoomCatalogue } from '@/lib/rooms';
+
+// Everything needed to put the calculator back exactly as someone left it
+export interface CalculatorState {
+  formData: CalculatorFormData;
+  hiddenRooms: string[];
+  isRoomRateCustomized: boolean;
+  isAccessDifficultyCustomized: boolean;
+  isListingPriceCustomized: boolean;
+  // A depot picked by hand rather than the nearest; missing on drafts and links made before depots
+  isDepotCustomized?: boolean;
+  // Rate card the quote is pinned to; null follows whichever card is current
+  rateCardId: string | null;
+  quoteId?: string;
+  // Lets this browser update the saved quote; missing on quotes reopened from history, which admins update
+  quoteEditToken?: string;
+  quoteNumber?: number;
+  // Options of a multi-option quote, empty for a single quote. formData holds the active option's
+  // choices while it is edited. Missing on drafts and links made before options existed.
+  options?: QuoteOption[];
+  activeOption?: number;
+  acceptedOption?: number | null;
+}
+
+export const defaultCalculatorState = (): CalculatorState => ({
+  formData: {
+    propertyType: '',
+    styling: 'Full',
+    propertyAddress: '',
+    distanceFromWarehouse: 0,
+    listingPrice: 0,
+    accessDifficulty: '',
+    roomRate: 400,
+    rooms: allRooms,
+    extras: {},
+  },
+  hiddenRooms: Object.keys(optionalRooms),
+  isRoomRateCustomized: false,
+  isAccessDifficultyCustomized: false,
+  isListingPriceCustomized: false,
+  isDepotCustomized: false,
+  rateCardId: null,
+  options: [],
+  activeOption: 0,
+  acceptedOption: null,
+});
+
+// Optional rooms in use on a quote, in any of its options, are shown; the rest stay hidden
+const hiddenRoomsFor = (...rooms: RoomData[]): string[] =>
+  Object.keys(optionalRooms).filter(roomType => !rooms.some(roomData => roomData[roomType]?.count > 0));
+
+// A reopened quote keeps its own values rather than the property type defaults
+export const stateFromSavedQuote = (quote: SavedQuote): CalculatorState => ({
+  formData: quote.formData,
+  hiddenRooms: hiddenRoomsFor(quote.formData.rooms, ...quote.options.map(option => option.rooms)),
+  isRoomRateCustomized: true,
+  isAccessDifficultyCustomized: true,
+  isListingPriceCustomized: true,
+  isDepotCustomized: true,
+  rateCardId: quote.rateCardId,
+  quoteId: quote.id,
+  quoteNumber: quote.quoteNumber,
+  // The stored form is the lead option's, so that is the one being edited
+  options: quote.options.map(({ name, styling, roomRate, rooms }) => ({ name, styling, roomRate, rooms })),
+  activeOption: leadOptionIndex(quote.acceptedOption),
+  acceptedOption: quote.acceptedOption,
+});
+
+/*
+ * Share links carry the state in a single ?q= parameter: compact JSON with short keys,
+ * base64url encoded. Rooms travel with their weights, so a link prices the same even after
+ * rooms are added to, removed from or reweighted in the catalogue. Rooms left off a link are
+ * the catalogue's, at a count of 0, so both ends need the catalogue the calculator has loaded.
+ */
+const SHARE_FORMAT_VERSION = 1;
+
+// Room as [name, count, percentage, weight]
+type SharedRoom = [string, number, number, number];
+
+// Option as [name, styling, roomRate, rooms]
+type SharedOption = [string, string, number, SharedRoom[]];
+
+interface SharedStateV1 {
+  v: 1;
+  p: string;          // propertyType
+  s: string;          // styling
+  a: string;          // propertyAddress
+  d: number;          // distanceFromWarehouse
+  l: number;          // listingPrice
+  x: string;          // accessDifficulty
+  r: number;          // roomRate
+  rm: SharedRoom[];   // rooms with a count, or any room the catalogue doesn't know
+  o: string[];        // optional rooms shown
+  f: number;          // customisation flags, see FLAGS
+  c: string | null;   // rateCardId
+  e?: [string, number][]; // extras as [extraId, quantity]; missing on links made before extras
+  h?: number;         // hireWeeks, when set
+  op?: SharedOption[]; // options of a multi-option quote; missing on links made before options
+  ao?: number;        // activeOption
+  ac?: number | null; // acceptedOption
+  ov?: [PriceOverride['kind'], number, string] | null; // override as [kind, value, reason]
+  dp?: [string, string, string] | null; // depot as [id, name, address]
+}
+
+const FLAGS = {
+  roomRate: 1,
+  accessDifficulty: 2,
+  listingPrice: 4,
+  depot: 8,
+};
+
+const toBase64Url = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  const binary = String.fromCharCode(...bytes);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string): string => {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+};
+
+const encodeRooms = (rooms: RoomData, catalogue: CatalogueRoom[]): SharedRoom[] =>
+  Object.entries(rooms)
+    .filter(([roomType, room]) => room.count > 0 || !catalogue.some(catalogueRoom => catalogueRoom.name === roomType))
+    .map(([roomType, room]) => [roomType, room.count, room.percentage, room.weight]);
+
+// Catalogue rooms not on the link had a count of 0 when it was made
+const decodeRooms = (shared: SharedRoom[], catalogue: CatalogueRoom[]): RoomData => {
+  const rooms: RoomData = Object.fromEntries(
+    Object.entries(toRoomData(catalogue)).map(([roomType, room]) => [roomType, { ...room, count: 0 }])
+  );
+  for (const [roomType, count, percentage, weight] of shared) {
+    rooms[roomType] = { count, percentage, weight };
+  }
+  return rooms;
+};
+
+const optionalRoomNames = (catalogue: CatalogueRoom[]): string[] =>
+  catalogue.filter(room => !room.isCore).map(room => room.name);
+
+export const encodeShareState = (state: CalculatorState, catalogue: CatalogueRoom[] = staticRoomCatalogue): string => {
+  const { formData } = state;
+  const shared: SharedStateV1 = {
+    v: SHARE_FORMAT_VERSION,
+    p: formData.propertyType,
+    s: formData.styling,
+    a: formData.propertyAddress,
+    d: formData.distanceFromWarehouse,
+    l: formData.listingPrice,
+    x: formData.accessDifficulty,
+    r: formData.roomRate,
+    rm: encodeRooms(formData.rooms, catalogue),
+    o: optionalRoomNames(catalogue).filter(roomType => !state.hiddenRooms.includes(roomType)),
+    f: (state.isRoomRateCustomized ? FLAGS.roomRate : 0)
+      | (state.isAccessDifficultyCustomized ? FLAGS.accessDifficulty : 0)
+      | (state.isListingPriceCustomized ? FLAGS.listingPrice : 0)
+      | (state.isDepotCustomized ? FLAGS.depot : 0),
+    c: state.rateCardId,
+    e: Object.entries(formData.extras ?? {}),
+    h: formData.hireWeeks,
+    op: (state.options ?? []).map(option => [option.name, option.styling, option.roomRate, encodeRooms(option.rooms, catalogue)]),
+    ao: state.activeOption ?? 0,
+    ac: state.acceptedOption ?? null,
+    ov: formData.override ? [formData.override.kind, formData.override.value, formData.override.reason] : null,
+    dp: formData.depot ? [formData.depot.id, formData.depot.name, formData.depot.address] : null,
+  };
+
+  return toBase64Url(JSON.stringify(shared));
+};
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isTuple = (value: unknown, checks: ((item: unknown) => boolean)[]): boolean =>
+  Array.isArray(value) && value.length === checks.length && checks.every((check, index) => check(value[index]));
+
+const isListOf = (value: unknown, check: (item: unknown) => boolean): boolean =>
+  Array.isArray(value) && value.every(check);
+
+const isSharedRoom = (value: unknown): boolean => isTuple(value, [isString, isNumber, isNumber, isNumber]);
+
+const isOverrideKind = (value: unknown): boolean => value === 'percent' || value === 'amount';
+
+// Every field a version 1 link can carry, checked before any of it reaches the calculator
+const isSharedStateV1 = (value: Record<string, unknown>): boolean =>
+  [value.p, value.s, value.a, value.x].every(isString)
+  && [value.d, value.l, value.r, value.f].every(isNumber)
+  && isListOf(value.rm, isSharedRoom)
+  && isListOf(value.o, isString)
+  && (value.c === null || isString(value.c))
+  && (value.e === undefined || isListOf(value.e, item => isTuple(item, [isString, isNumber])))
+  && (value.h === undefined || isNumber(value.h))
+  && (value.op === undefined || isListOf(value.op, item =>
+    isTuple(item, [isString, isString, isNumber, rooms => isListOf(rooms, isSharedRoom)])))
+  && (value.ao === undefined || isNumber(value.ao))
+  && (value.ac === undefined || value.ac === null || isNumber(value.ac))
+  && (value.ov === undefined || value.ov === null || isTuple(value.ov, [isOverrideKind, isNumber, isString]))
+  && (value.dp === undefined || value.dp === null || isTuple(value.dp, [isString, isString, isString]));
+
+const decodeV1 = (shared: SharedStateV1, catalogue: CatalogueRoom[]): CalculatorState => {
+  const rooms = decodeRooms(shared.rm, catalogue);
+  const options = (shared.op ?? []).map(([name, styling, roomRate, optionRooms]) => ({
+    name,
+    styling,
+    roomRate,
+    rooms: decodeRooms(optionRooms, catalogue),
+  }));
+
+  return {
+    formData: {
+      propertyType: shared.p,
+      styling: shared.s,
+      propertyAddress: shared.a,
+      distanceFromWarehouse: shared.d,
+      listingPrice: shared.l,
+      accessDifficulty: shared.x,
+      roomRate: shared.r,
+      rooms,
+      extras: Object.fromEntries(shared.e ?? []),
+      hireWeeks: shared.h,
+      override: shared.ov ? { kind: shared.ov[0], value: shared.ov[1], reason: shared.ov[2] } : null,
+      depot: shared.dp ? { id: shared.dp[0], name: shared.dp[1], address: shared.dp[2] } : null,
+    },
+    hiddenRooms: optionalRoomNames(catalogue).filter(roomType => !shared.o.includes(roomType)),
+    isRoomRateCustomized: (shared.f & FLAGS.roomRate) !== 0,
+    isAccessDifficultyCustomized: (shared.f & FLAGS.accessDifficulty) !== 0,
+    isListingPriceCustomized: (shared.f & FLAGS.listingPrice) !== 0,
+    isDepotCustomized: (shared.f & FLAGS.depot) !== 0,
+    rateCardId: shared.c,
+    options,
+    activeOption: shared.ao ?? 0,
+    acceptedOption: shared.ac ?? null,
+  };
+};
+
+// Returns null for anything that isn't a link we know how to read, including one edited by hand
+export const decodeShareState = (encoded: string, catalogue: CatalogueRoom[] = staticRoomCatalogue): CalculatorState | null => {
+  try {
+    const shared = JSON.parse(fromBase64Url(encoded));
+
+    switch (shared?.v) {
+      case 1:
+        if (!isSharedStateV1(shared)) {
+          console.warn('Ignoring malformed share link');
+          return null;
+        }
+        return decodeV1(shared, catalogue);
+      default:
+        console.warn('Unsupported share link version:', shared?.v);
+        return null;
+    }
+  } catch (error) {
+    console.warn('Could not read share link:', error);
+    return null;
+  }
+};
+
+export const buildShareUrl = (state: CalculatorState, catalogue: CatalogueRoom[]): string => {
+  const url = new URL(import.meta.env.BASE_URL, window.location.origin);
+  url.searchParams.set('q', encodeShareState(state, catalogue));
+  return url.toString();
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { depotIdFromName, nearestDepotDistance, validateDepots, type Depot } from '@/lib/depots';
+
+const depot = (overrides: Partial<Depot> = {}): Depot => ({
+  id: 'lidcombe',
+  name: 'Lidcombe',
+  address: '2/67 Mons Street, Lidcombe NSW 2141',
+  ...overrides,
+});
+
+describe('nearestDepotDistance', () => {
+  it('picks the depot with the shortest drive', () => {
+    const distances = [
+      { depotId: 'lidcombe', distanceKm: 32.5, durationMinutes: 40 },
+      { depotId: 'penrith', distanceKm: 12.1, durationMinutes: 15 },
+      { depotId: 'kurnell', distanceKm: 48, durationMinutes: null },
+    ];
+
+    expect(nearestDepotDistance(distances)?.depotId).toBe('penrith');
+  });
+
+  it('keeps the first depot listed when two are as near', () => {
+    const distances = [
+      { depotId: 'lidcombe', distanceKm: 20, durationMinutes: 25 },
+      { depotId: 'penrith', distanceKm: 20, durationMinutes: 22 },
+    ];
+
+    expect(nearestDepotDistance(distances)?.depotId).toBe('lidcombe');
+  });
+
+  it('is null when no depot could be reached', () => {
+    expect(nearestDepotDistance([])).toBeNull();
+  });
+});
+
+describe('validateDepots', () => {
+  it('accepts a list of distinct depots', () => {
+    expect(validateDepots([depot(), depot({ id: 'penrith', name: 'Penrith', address: '10 High Street, Penrith NSW' })])).toEqual([]);
+  });
+
+  it('requires at least one depot', () => {
+    expect(validateDepots([])).toEqual([{ field: 'depots', message: 'At least one depot is required' }]);
+  });
+
+  it('rejects a depot id used twice', () => {
+    const errors = validateDepots([depot(), depot({ name: 'Lidcombe 2' })]);
+
+    expect(errors).toEqual([{ field: 'depots[1].id', message: 'Depot id "lidcombe" is used more than once' }]);
+  });
+
+  it('rejects blank names and addresses too short to look up', () => {
+    const errors = validateDepots([depot({ name: ' ', address: 'Lidcombe' })]);
+
+    expect(errors.map(error => error.field)).toEqual(['depots[0].name', 'depots[0].address']);
+  });
+});
+
+describe('depotIdFromName', () => {
+  it('slugs the name', () => {
+    expect(depotIdFromName('  Penrith (West) Store ')).toBe('penrith-west-store');
+  });
+});
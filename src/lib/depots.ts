@@ -0,0 +1,2 @@
+// Depots and their checks are shared with the depots and distance edge functions
+export * from '../../supabase/functions/_shared/depots.ts';
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { normaliseAddress } from '@/lib/distance';
+
+describe('normaliseAddress', () => {
+  it('gives both spellings of the same address one cache key', () => {
+    expect(normaliseAddress('2/67 Mons St., Lidcombe NSW')).toBe('2/67 mons street lidcombe nsw');
+    expect(normaliseAddress('2/67 mons street lidcombe nsw, Australia')).toBe('2/67 mons street lidcombe nsw');
+  });
+
+  it('spells out street types and the state', () => {
+    expect(normaliseAddress('5 Beach Pde, Cronulla New South Wales')).toBe('5 beach parade cronulla nsw');
+    expect(normaliseAddress('1 Smith Ave  Stanmore')).toBe('1 smith avenue stanmore');
+  });
+
+  it('only drops Australia from the end', () => {
+    expect(normaliseAddress('12 Australia St, Camperdown NSW')).toBe('12 australia street camperdown nsw');
+  });
+});
@@ -0,0 +1,2 @@
+// Distance lookup types and messages, shared with the distance edge function
+export * from '../../supabase/functions/_shared/distance.ts';
@@ -0,0 +1,2 @@
+// What the submit-quote and notion-status edge functions answer with
+export * from '../../supabase/functions/_shared/notion.ts';
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import {
+  checkNotionSchema,
+  defaultNotionMappings,
+  markMissingNotionProperties,
+  missingRequiredNotionProperties,
+  resolveNotionMappings,
+} from '../../supabase/functions/_shared/notionMapping.ts';
+
+const mapping = {
+  quoteNumber: { name: 'Quote #', type: 'title' as const },
+  followUp: { name: 'Follow-Up', type: 'rich_text' as const },
+  status: { name: 'Status', type: 'select' as const, optional: true },
+};
+
+const schema = {
+  'Quote #': { type: 'title' },
+  'Follow-Up': { type: 'rich_text' },
+  'Status': { type: 'select' },
+};
+
+describe('resolveNotionMappings', () => {
+  it('uses the defaults without overrides', () => {
+    expect(resolveNotionMappings(null)).toBe(defaultNotionMappings);
+  });
+
+  it('renames a property, or changes its type too', () => {
+    const mappings = resolveNotionMappings({
+      quotes: { followUp: 'Follow Up', status: { name: 'Stage', type: 'status' } },
+    });
+
+    expect(mappings.quotes.followUp).toEqual({ name: 'Follow Up', type: 'rich_text' });
+    expect(mappings.quotes.status).toEqual({ name: 'Stage', type: 'status', optional: true });
+    expect(defaultNotionMappings.quotes.followUp.name).toBe('Follow-Up');
+  });
+
+  it('names every unknown database, field and type', () => {
+    expect(() => resolveNotionMappings({ leads: {}, quotes: { colour: 'Colour', status: { name: 'Stage', type: 'people' } } }))
+      .toThrow(/unknown database "leads".*unknown field quotes\.colour.*quotes\.status must be/);
+  });
+});
+
+describe('checkNotionSchema', () => {
+  it('finds nothing wrong with a matching database', () => {
+    expect(checkNotionSchema(mapping, schema)).toEqual([]);
+  });
+
+  it('reports a missing column', () => {
+    const { 'Follow-Up': _followUp, ...withoutFollowUp } = schema;
+
+    expect(checkNotionSchema(mapping, withoutFollowUp)).toEqual(['"Follow-Up" (followUp) is missing']);
+  });
+
+  it('reports a column of another type', () => {
+    expect(checkNotionSchema(mapping, { ...schema, 'Follow-Up': { type: 'number' } }))
+      .toEqual(['"Follow-Up" (followUp) is number, expected rich_text']);
+  });
+
+  it('allows an optional column to be missing, but not to have another type', () => {
+    const { 'Status': _status, ...withoutStatus } = schema;
+
+    expect(checkNotionSchema(mapping, withoutStatus)).toEqual([]);
+    expect(checkNotionSchema(mapping, { ...schema, 'Status': { type: 'date' } }))
+      .toEqual(['"Status" (status) is date, expected select']);
+  });
+});
+
+describe('markMissingNotionProperties', () => {
+  it('marks only the optional columns the database lacks', () => {
+    const { 'Status': _status, ...withoutStatus } = schema;
+
+    expect(markMissingNotionProperties(mapping, withoutStatus)).toEqual({
+      ...mapping,
+      status: { ...mapping.status, missing: true },
+    });
+    expect(markMissingNotionProperties(mapping, schema)).toEqual(mapping);
+  });
+});
+
+describe('missingRequiredNotionProperties', () => {
+  it('reports the fields a caller needs that are marked missing', () => {
+    const marked = { ...mapping, status: { ...mapping.status, missing: true } };
+
+    expect(missingRequiredNotionProperties(marked, ['quoteNumber', 'status'])).toEqual(['"Status" (status) is missing']);
+    expect(missingRequiredNotionProperties(marked, ['quoteNumber'])).toEqual([]);
+  });
+});
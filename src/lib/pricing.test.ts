@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyGst,
+  priceQuote,
+  roundQuote,
+  staticRateSettings,
+  type CalculatorFormData,
+  type RateSettings,
+} from '@/lib/pricing';
+
+// An apartment whose listing price, distance and access all fall in 0% bands, so only the rooms price it
+const formData = (overrides: Partial<CalculatorFormData> = {}): CalculatorFormData => ({
+  propertyType: 'Apartment',
+  styling: 'Full',
+  propertyAddress: '1 Test St',
+  distanceFromWarehouse: 10,
+  listingPrice: 900000,
+  accessDifficulty: 'Easy',
+  roomRate: 350,
+  rooms: {
+    'Living Room': { count: 1, percentage: 100, weight: 1 },
+    'Bedroom': { count: 2, percentage: 50, weight: 1.5 },
+    'Study': { count: 0, percentage: 100, weight: 1 },
+  },
+  ...overrides,
+});
+
+const settings = (overrides: Partial<RateSettings> = {}): RateSettings => ({ ...staticRateSettings, ...overrides });
+
+const adjustment = (breakdown: ReturnType<typeof priceQuote>, source: string) =>
+  breakdown.adjustments.find(line => line.source === source);
+
+describe('priceQuote', () => {
+  it('weights rooms by count, percentage and weight', () => {
+    const breakdown = priceQuote(formData(), settings());
+
+    expect(breakdown.rooms.map(room => room.roomType)).toEqual(['Living Room', 'Bedroom']);
+    expect(breakdown.rooms[1]).toMatchObject({ equivalentRooms: 1.5, subtotal: 525 });
+    expect(breakdown.equivalentRooms).toBe(2.5);
+    expect(breakdown.baseQuote).toBe(875);
+    expect(breakdown.finalQuote).toBe(875);
+    expect(breakdown.variation).toBe(0);
+  });
+
+  it('applies the listing price band for the property type', () => {
+    const breakdown = priceQuote(formData({ listingPrice: 700000 }), settings());
+
+    expect(adjustment(breakdown, 'listingPrice')).toMatchObject({ bandMax: 800000, rate: -0.05, amount: -43.75 });
+    expect(breakdown.finalQuote).toBe(831.25);
+  });
+
+  it('uses the house bands for houses', () => {
+    const breakdown = priceQuote(formData({ propertyType: 'House', listingPrice: 4000000 }), settings());
+
+    expect(adjustment(breakdown, 'listingPrice')).toMatchObject({ bandMax: 5000000, rate: 0.05 });
+    expect(breakdown.finalQuote).toBe(918.75);
+  });
+
+  it('matches a value on a band boundary to the next band', () => {
+    const breakdown = priceQuote(formData({ distanceFromWarehouse: 15 }), settings());
+
+    expect(adjustment(breakdown, 'distance')).toMatchObject({ bandMax: 30, rate: 0.05, amount: 43.75 });
+  });
+
+  it('adds the distance and access rates together', () => {
+    const breakdown = priceQuote(formData({ distanceFromWarehouse: 40, accessDifficulty: 'Difficult' }), settings());
+
+    expect(adjustment(breakdown, 'distance')?.rate).toBe(0.1);
+    expect(adjustment(breakdown, 'accessDifficulty')?.rate).toBe(0.1);
+    expect(breakdown.totalRate).toBeCloseTo(0.2);
+    expect(breakdown.finalQuote).toBe(1050);
+    expect(breakdown.variation).toBe(175);
+  });
+
+  it('skips access difficulties the rate card has no rate for', () => {
+    const breakdown = priceQuote(formData({ accessDifficulty: 'Unknown' }), settings());
+
+    expect(adjustment(breakdown, 'accessDifficulty')).toBeUndefined();
+    expect(breakdown.finalQuote).toBe(875);
+  });
+
+  it('prices Partial styling below Full on the default card', () => {
+    const breakdown = priceQuote(formData({ styling: 'Partial' }), settings());
+
+    expect(adjustment(breakdown, 'styling')?.rate).toBeCloseTo(-0.15);
+    expect(adjustment(breakdown, 'styling')?.amount).toBe(-131.25);
+    expect(breakdown.finalQuote).toBe(743.75);
+  });
+
+  it('caps the combined discount at maxDiscount', () => {
+    const bigDiscounts = settings({
+      maxDiscount: 0.15,
+      accessDifficultyRates: { ...staticRateSettings.accessDifficultyRates, 'Easy': -0.1 },
+    });
+    const breakdown = priceQuote(formData({ listingPrice: 500000 }), bigDiscounts);
+
+    expect(breakdown.totalRate).toBe(-0.15);
+    expect(adjustment(breakdown, 'discountCap')).toMatchObject({ amount: 43.75 });
+    expect(breakdown.finalQuote).toBe(743.75);
+  });
+
+  it('leaves premiums uncapped by maxDiscount', () => {
+    const breakdown = priceQuote(formData({ distanceFromWarehouse: 100 }), settings({ maxDiscount: 0 }));
+
+    expect(adjustment(breakdown, 'discountCap')).toBeUndefined();
+    expect(breakdown.totalRate).toBe(0.25);
+  });
+
+  it('rounds the final quote with the rate card rule', () => {
+    const breakdown = priceQuote(formData({ listingPrice: 700000 }), settings({ rounding: 'nearest50' }));
+
+    expect(breakdown.finalQuote).toBe(850);
+    expect(adjustment(breakdown, 'rounding')).toMatchObject({ label: 'Nearest $50', amount: 18.75 });
+  });
+
+  it('brings small quotes up to the minimum charge, ahead of rounding', () => {
+    const breakdown = priceQuote(
+      formData(),
+      settings({ rounding: 'nearest100', minimumCharges: { 'Apartment': 950, 'House': 0 } }),
+    );
+
+    expect(breakdown.finalQuote).toBe(950);
+    expect(adjustment(breakdown, 'minimumCharge')).toMatchObject({ amount: 75 });
+    expect(adjustment(breakdown, 'rounding')).toBeUndefined();
+  });
+
+  it('never lets an override take the quote below $0 or call the difference a minimum charge', () => {
+    const override = { kind: 'amount' as const, value: -5000, reason: 'Test' };
+    const breakdown = priceQuote(formData({ override }), settings());
+
+    expect(adjustment(breakdown, 'override')).toMatchObject({ label: 'Discount', amount: -875 });
+    expect(adjustment(breakdown, 'minimumCharge')).toBeUndefined();
+    expect(breakdown.finalQuote).toBe(0);
+  });
+
+  it('adds GST on top of the final quote at the rate card rate', () => {
+    const breakdown = priceQuote(formData(), settings({ gstRate: 0.15 }));
+
+    expect(breakdown.finalQuote).toBe(875);
+    expect(breakdown.gst).toBe(131.25);
+    expect(breakdown.finalQuoteIncGst).toBe(1006.25);
+  });
+});
+
+describe('roundQuote', () => {
+  it.each([
+    ['none', 2347.18, 2347.18],
+    ['nearest10', 2347.18, 2350],
+    ['nearest50', 2347.18, 2350],
+    ['nearest100', 2347.18, 2300],
+    ['psychological', 2347.18, 2395],
+    ['psychological', 2340, 2295],
+  ] as const)('%s rounds %d to %d', (rule, value, expected) => {
+    expect(roundQuote(value, rule)).toBe(expected);
+  });
+
+  it('leaves quotes too small for a psychological price alone', () => {
+    expect(roundQuote(40, 'psychological')).toBe(40);
+  });
+});
+
+describe('applyGst', () => {
+  it('rounds GST to the cent', () => {
+    expect(applyGst(333.33, 0.1)).toEqual({ exGst: 333.33, gst: 33.33, incGst: 366.66 });
+  });
+});
@@ -0,0 +1,2 @@
+// The pricing engine lives with the edge functions so the browser and server price quotes identically
+export * from '../../supabase/functions/_shared/pricing.ts';
@@ -0,0 +1,2 @@
+// Multi-option quote helpers are shared with the edge functions, which price every option again
+export * from '../../supabase/functions/_shared/quoteOptions.ts';
@@ -0,0 +1,283 @@
+import { jsPDF } from 'jspdf';
+import type { CalculatorFormData, QuoteBreakdown } from '@/lib/pricing';
+import { formatQuoteNumber } from '@/lib/quotes';
+import logoHeader from '/sparkle-space-logo-header.png';
+
+// Quotes can be accepted for this many days after they are issued
+export const QUOTE_VALIDITY_DAYS = 30;
+
+export const QUOTE_TERMS = [
+  'This quote is valid until the date shown above and is based on the details provided.',
+  'Prices are in Australian dollars. GST is shown separately and included in the total payable.',
+  'Changes to the rooms, access or property details after acceptance may change the price.',
+  'Furniture and homewares remain the property of Sparkle Space at all times.',
+];
+
+export interface QuotePdfInput {
+  quoteNumber: number;
+  issuedAt: Date;
+  formData: CalculatorFormData;
+  breakdown: QuoteBreakdown;
+  rateCardLabel: string;
+  // Options of a multi-option quote, printed side by side; formData and breakdown are the accepted (or first) one
+  options?: QuoteOptionPdf[];
+  acceptedOption?: number | null;
+}
+
+export interface QuoteOptionPdf {
+  name: string;
+  styling: string;
+  breakdown: QuoteBreakdown;
+}
+
+// A4 portrait in millimetres
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 15;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const ROW_HEIGHT = 6.5;
+
+const GOLD = '#b8860b';
+const SLATE = '#334155';
+const MUTED = '#64748b';
+const RULE = '#e2e8f0';
+
+const formatMoney = (value: number) =>
+  `$${value.toLocaleString('en-AU', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatSigned = (value: number) => `${value >= 0 ? '+' : '-'}${formatMoney(Math.abs(value))}`;
+
+const formatPercent = (rate: number) => `${Math.round(rate * 10000) / 100}%`;
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('en-AU', { day: 'numeric', month: 'long', year: 'numeric' });
+
+export const quoteValidUntil = (issuedAt: Date): Date => {
+  const validUntil = new Date(issuedAt);
+  validUntil.setDate(validUntil.getDate() + QUOTE_VALIDITY_DAYS);
+  return validUntil;
+};
+
+// The logo is bundled with the app, so it loads the same way in every browser
+const loadLogo = async (): Promise<{ dataUrl: string; width: number; height: number } | null> => {
+  try {
+    const blob = await (await fetch(logoHeader)).blob();
+    const dataUrl = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+    const image = new Image();
+    image.src = dataUrl;
+    await image.decode();
+    return { dataUrl, width: image.naturalWidth, height: image.naturalHeight };
+  } catch (error) {
+    console.warn('Could not load logo for the quote PDF:', error);
+    return null;
+  }
+};
+
+// Writes top to bottom, starting a new page whenever the next block would not fit
+class PdfWriter {
+  y = MARGIN;
+
+  constructor(readonly doc: jsPDF) {}
+
+  ensureSpace(height: number) {
+    if (this.y + height > PAGE_HEIGHT - MARGIN) {
+      this.doc.addPage();
+      this.y = MARGIN;
+    }
+  }
+
+  heading(text: string) {
+    this.ensureSpace(ROW_HEIGHT * 2);
+    this.y += 4;
+    this.doc.setFont('helvetica', 'bold').setFontSize(11).setTextColor(SLATE);
+    this.doc.text(text, MARGIN, this.y);
+    this.y += ROW_HEIGHT - 1;
+  }
+
+  row(label: string, value: string, options: { bold?: boolean; color?: string } = {}) {
+    this.ensureSpace(ROW_HEIGHT);
+    this.doc.setFont('helvetica', options.bold ? 'bold' : 'normal').setFontSize(10).setTextColor(SLATE);
+    this.doc.text(label, MARGIN, this.y);
+    this.doc.setTextColor(options.color ?? SLATE);
+    this.doc.text(value, PAGE_WIDTH - MARGIN, this.y, { align: 'right' });
+    this.doc.setDrawColor(RULE).setLineWidth(0.2);
+    this.doc.line(MARGIN, this.y + 2, PAGE_WIDTH - MARGIN, this.y + 2);
+    this.y += ROW_HEIGHT;
+  }
+
+  // A label followed by one right-aligned value per column, for comparing options
+  columns(label: string, values: string[], options: { bold?: boolean; color?: string } = {}) {
+    this.ensureSpace(ROW_HEIGHT);
+    const labelWidth = CONTENT_WIDTH * 0.34;
+    const columnWidth = (CONTENT_WIDTH - labelWidth) / values.length;
+    this.doc.setFont('helvetica', options.bold ? 'bold' : 'normal').setFontSize(9.5).setTextColor(SLATE);
+    this.doc.text(label, MARGIN, this.y);
+    this.doc.setTextColor(options.color ?? SLATE);
+    values.forEach((value, index) => {
+      this.doc.text(value, MARGIN + labelWidth + columnWidth * (index + 1), this.y, { align: 'right' });
+    });
+    this.doc.setDrawColor(RULE).setLineWidth(0.2);
+    this.doc.line(MARGIN, this.y + 2, PAGE_WIDTH - MARGIN, this.y + 2);
+    this.y += ROW_HEIGHT;
+  }
+
+  total(label: string, value: string) {
+    this.ensureSpace(ROW_HEIGHT * 2);
+    this.doc.setDrawColor(SLATE).setLineWidth(0.6);
+    this.doc.line(MARGIN, this.y - 3, PAGE_WIDTH - MARGIN, this.y - 3);
+    this.y += 2;
+    this.doc.setFont('helvetica', 'bold').setFontSize(12).setTextColor(SLATE);
+    this.doc.text(label, MARGIN, this.y);
+    this.doc.setTextColor('#16a34a');
+    this.doc.text(value, PAGE_WIDTH - MARGIN, this.y, { align: 'right' });
+    this.y += ROW_HEIGHT;
+  }
+
+  paragraph(text: string) {
+    this.doc.setFont('helvetica', 'normal').setFontSize(8.5).setTextColor(MUTED);
+    const lines: string[] = this.doc.splitTextToSize(text, CONTENT_WIDTH);
+    this.ensureSpace(lines.length * 4);
+    this.doc.text(lines, MARGIN, this.y);
+    this.y += lines.length * 4 + 1;
+  }
+}
+
+/**
+ * Lay out a customer-facing quote as a PDF. Everything is drawn with jsPDF rather than printed
+ * from the page, so the file is identical in every browser and can be saved or attached directly.
+ */
+export const buildQuotePdf = async ({
+  quoteNumber,
+  issuedAt,
+  formData,
+  breakdown,
+  rateCardLabel,
+  options = [],
+  acceptedOption = null,
+}: QuotePdfInput): Promise<jsPDF> => {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const writer = new PdfWriter(doc);
+
+  // Header: logo on the left, title and quote reference on the right
+  const logo = await loadLogo();
+  if (logo) {
+    const logoWidth = 80;
+    doc.addImage(logo.dataUrl, 'PNG', MARGIN, MARGIN, logoWidth, (logo.height / logo.width) * logoWidth);
+  }
+  doc.setFont('helvetica', 'bold').setFontSize(24).setTextColor(GOLD);
+  doc.text('Quote', PAGE_WIDTH - MARGIN, MARGIN + 8, { align: 'right' });
+  doc.setFont('helvetica', 'normal').setFontSize(9).setTextColor(MUTED);
+  doc.text(
+    [
+      formatQuoteNumber(quoteNumber),
+      `Issued ${formatDate(issuedAt)}`,
+      `Valid until ${formatDate(quoteValidUntil(issuedAt))}`,
+    ],
+    PAGE_WIDTH - MARGIN,
+    MARGIN + 14,
+    { align: 'right' },
+  );
+  writer.y = MARGIN + 32;
+
+  writer.heading('Property Details');
+  if (formData.propertyAddress) writer.row('Property Address', formData.propertyAddress);
+  writer.row('Property Type', formData.propertyType);
+  if (options.length === 0) writer.row('Styling Type', formData.styling);
+  if (formData.depot) writer.row('Depot', formData.depot.name);
+  writer.row(formData.depot ? 'Distance from Depot' : 'Distance from Warehouse', `${formData.distanceFromWarehouse} km`);
+  writer.row('Listing Price', formatMoney(formData.listingPrice));
+  writer.row('Access Difficulty', formData.accessDifficulty);
+  if (options.length === 0) {
+    writer.row('Room Rate', formatMoney(breakdown.roomRate));
+
+    writer.heading('Room Breakdown');
+    for (const room of breakdown.rooms) {
+      writer.row(`${room.roomType} (${room.count} x ${room.percentage}%)`, formatMoney(room.subtotal));
+    }
+  }
+
+  const { hire } = breakdown;
+  writer.heading('Hire Period');
+  writer.row('Included hire term', `${hire.includedWeeks} weeks`);
+  writer.row('Hire period quoted', `${hire.hireWeeks} weeks`);
+  for (let week = hire.includedWeeks + 1; week <= hire.hireWeeks; week++) {
+    writer.row(`Extension week ${week}`, formatMoney(hire.weeklyRate));
+  }
+
+  if (breakdown.extras.length > 0) {
+    writer.heading('Extras');
+    for (const extra of breakdown.extras) {
+      const quantity = extra.pricing === 'perUnit' ? ` (${extra.quantity} ${extra.unit} x ${formatMoney(extra.price)})` : '';
+      writer.row(`${extra.name}${quantity}`, formatMoney(extra.subtotal));
+    }
+  }
+
+  if (options.length > 0) {
+    writeOptionsComparison(writer, options, acceptedOption);
+  } else {
+    writeQuoteSummary(writer, breakdown);
+  }
+
+  writer.heading('Terms');
+  for (const term of QUOTE_TERMS) {
+    writer.paragraph(`- ${term}`);
+  }
+  writer.paragraph(`Priced with rate card ${rateCardLabel}.`);
+
+  return doc;
+};
+
+const writeQuoteSummary = (writer: PdfWriter, breakdown: QuoteBreakdown) => {
+  const { hire } = breakdown;
+  writer.heading('Quote Summary');
+  writer.row('Equivalent Room Count', String(breakdown.equivalentRooms));
+  writer.row('Base Quote', formatMoney(breakdown.baseQuote));
+  for (const adjustment of breakdown.adjustments.filter(adjustment => adjustment.amount !== 0)) {
+    const rate = adjustment.rate === null ? '' : ` (${adjustment.rate >= 0 ? '+' : ''}${formatPercent(adjustment.rate)})`;
+    writer.row(`  ${adjustment.label}${rate}`, formatSigned(adjustment.amount));
+  }
+  writer.row('Variation', formatSigned(breakdown.variation));
+  if (hire.extensionWeeks > 0) writer.row('Hire Extension', formatSigned(breakdown.hireExtension));
+  if (breakdown.extras.length > 0) writer.row('Extras', formatSigned(breakdown.extrasTotal));
+  writer.row('Total (ex GST)', formatMoney(breakdown.finalQuote), { bold: true });
+  writer.row(`GST (${formatPercent(breakdown.gstRate)})`, formatMoney(breakdown.gst));
+  writer.total('Total (inc GST)', formatMoney(breakdown.finalQuoteIncGst));
+};
+
+// Hire and extras are shared by every option, so the comparison covers what differs between them
+const writeOptionsComparison = (writer: PdfWriter, options: QuoteOptionPdf[], acceptedOption: number | null) => {
+  const roomTypes = [...new Set(options.flatMap(option => option.breakdown.rooms.map(room => room.roomType)))];
+
+  writer.heading('Your Options');
+  writer.columns('', options.map((option, index) => (index === acceptedOption ? `${option.name} (Accepted)` : option.name)), { bold: true });
+  writer.columns('Styling', options.map(option => option.styling));
+  writer.columns('Room Rate', options.map(option => formatMoney(option.breakdown.roomRate)));
+  for (const roomType of roomTypes) {
+    writer.columns(roomType, options.map(option => {
+      const room = option.breakdown.rooms.find(line => line.roomType === roomType);
+      return room ? `${room.count} x ${room.percentage}%` : '-';
+    }));
+  }
+  writer.columns('Equivalent Room Count', options.map(option => String(option.breakdown.equivalentRooms)));
+  writer.columns('Base Quote', options.map(option => formatMoney(option.breakdown.baseQuote)));
+  writer.columns('Variation', options.map(option => formatSigned(option.breakdown.variation)));
+  if (options[0].breakdown.hire.extensionWeeks > 0) {
+    writer.columns('Hire Extension', options.map(option => formatSigned(option.breakdown.hireExtension)));
+  }
+  if (options[0].breakdown.extras.length > 0) {
+    writer.columns('Extras', options.map(option => formatSigned(option.breakdown.extrasTotal)));
+  }
+  writer.columns('Total (ex GST)', options.map(option => formatMoney(option.breakdown.finalQuote)), { bold: true });
+  writer.columns(`GST (${formatPercent(options[0].breakdown.gstRate)})`, options.map(option => formatMoney(option.breakdown.gst)));
+  writer.columns('Total (inc GST)', options.map(option => formatMoney(option.breakdown.finalQuoteIncGst)), { bold: true, color: '#16a34a' });
+};
+
+export const quotePdfFileName = (quoteNumber: number, formData: CalculatorFormData): string => {
+  const address = formData.propertyAddress.split(',')[0].trim().replace(/[^\w -]/g, '').replace(/\s+/g, '-');
+  return `${formatQuoteNumber(quoteNumber)}${address ? `-${address}` : ''}.pdf`;
+};
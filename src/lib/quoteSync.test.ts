@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { defaultNotionStatusMap, planQuoteSync, type NotionQuoteRow, type SyncQuoteState } from '@/lib/quoteSync';
+
+const row = (overrides: Partial<NotionQuoteRow> = {}): NotionQuoteRow => ({
+  pageId: 'page-1',
+  quoteId: 'quote-1',
+  status: 'Sent',
+  followUp: null,
+  createdAt: '2026-10-01T00:00:00.000Z',
+  editedAt: '2026-10-02T00:00:00.000Z',
+  ...overrides,
+});
+
+const quote = (overrides: Partial<SyncQuoteState> = {}): SyncQuoteState => ({
+  id: 'quote-1',
+  acceptedOption: null,
+  notionStatus: 'sent',
+  notionEditedAt: '2026-10-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('planQuoteSync', () => {
+  it('copies a changed status and follow-up onto the quote', () => {
+    const plan = planQuoteSync([row({ status: 'Accepted', followUp: 'Call Friday' })], [quote()], defaultNotionStatusMap);
+
+    expect(plan.conflicts).toEqual([]);
+    expect(plan.updates).toEqual([{
+      quoteId: 'quote-1',
+      pageId: 'page-1',
+      status: 'accepted',
+      statusLabel: 'Accepted',
+      followUp: 'Call Friday',
+      editedAt: '2026-10-02T00:00:00.000Z',
+    }]);
+  });
+
+  it('leaves a quote alone when its row is unchanged since the last sync', () => {
+    const plan = planQuoteSync([row()], [quote({ notionEditedAt: '2026-10-02T00:00:00.000Z' })], defaultNotionStatusMap);
+
+    expect(plan).toEqual({ updates: [], conflicts: [] });
+  });
+
+  it('records Lost on a quote with an accepted option as a conflict, and still takes the status', () => {
+    const plan = planQuoteSync([row({ status: 'Lost' })], [quote({ acceptedOption: 1 })], defaultNotionStatusMap);
+
+    expect(plan.conflicts).toMatchObject([{ quoteId: 'quote-1', kind: 'lost_after_accepting', notionValue: 'Lost' }]);
+    expect(plan.updates).toMatchObject([{ quoteId: 'quote-1', status: 'lost' }]);
+  });
+
+  it('keeps the last status for a Status the map does not know', () => {
+    const plan = planQuoteSync([row({ status: 'On hold' })], [quote()], defaultNotionStatusMap);
+
+    expect(plan.conflicts).toMatchObject([{ kind: 'unknown_status', notionValue: 'On hold' }]);
+    expect(plan.updates[0]).not.toHaveProperty('status');
+  });
+
+  it('syncs the oldest of several rows for one quote and reports the others', () => {
+    const newer = row({ pageId: 'page-2', status: 'Lost', createdAt: '2026-10-05T00:00:00.000Z' });
+    const older = row({ pageId: 'page-1', status: 'Accepted' });
+    const plan = planQuoteSync([newer, older], [quote()], defaultNotionStatusMap);
+
+    expect(plan.updates).toMatchObject([{ pageId: 'page-1', status: 'accepted' }]);
+    expect(plan.conflicts).toMatchObject([{ notionPageId: 'page-2', kind: 'duplicate_pages' }]);
+  });
+
+  it('reports a row whose Quote ID is not a saved quote', () => {
+    const plan = planQuoteSync([row({ quoteId: 'quote-2' })], [quote()], defaultNotionStatusMap);
+
+    expect(plan.updates).toEqual([]);
+    expect(plan.conflicts).toMatchObject([{ quoteId: null, kind: 'quote_not_found', notionValue: 'quote-2' }]);
+  });
+
+  it('ignores rows with no Quote ID', () => {
+    expect(planQuoteSync([row({ quoteId: '' })], [quote()], defaultNotionStatusMap)).toEqual({ updates: [], conflicts: [] });
+  });
+});
@@ -0,0 +1,2 @@
+// Quote statuses and sync conflicts pulled back from Notion by the notion-sync edge function
+export * from '../../supabase/functions/_shared/quoteSync.ts';
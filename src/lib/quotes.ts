@@ -0,0 +1,2 @@
+// Saved quote types are shared with the quotes edge function
+export * from '../../supabase/functions/_shared/quotes.ts';
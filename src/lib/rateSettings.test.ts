@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { staticRateSettings } from '@/lib/pricing';
+import { parseRateSettings, serializeRateSettings, staticRateCard } from '@/lib/rateSettings';
+
+const storedV1 = {
+  schemaVersion: 1,
+  apartmentPriceRanges: [{ maxPrice: null, rate: 0 }],
+  housePriceRanges: [{ maxPrice: null, rate: 0 }],
+  distanceRanges: [{ maxDistance: null, rate: 0 }],
+  accessDifficultyRates: { 'Easy': 0 },
+  defaultRoomRates: { 'Apartment': 300, 'House': 380 },
+};
+
+describe('parseRateSettings', () => {
+  it('reads back what serializeRateSettings stores', () => {
+    expect(parseRateSettings(serializeRateSettings(staticRateSettings))).toEqual(staticRateSettings);
+  });
+
+  it('prices every styling on a version 1 card as that card did', () => {
+    const unchanged = { multiplier: 1, roomPercentage: 100, roomRates: { 'Apartment': 300, 'House': 380 } };
+
+    expect(parseRateSettings(storedV1).stylingRules).toEqual({ 'Full': unchanged, 'Partial': unchanged });
+  });
+
+  it('keeps the styling rules a card was stored with', () => {
+    const full = { multiplier: 1, roomPercentage: 100, roomRates: { 'Apartment': 350, 'House': 400 } };
+    const stored = { ...serializeRateSettings(staticRateSettings), stylingRules: { 'Full': full, 'Partial': full } };
+
+    expect(parseRateSettings(stored).stylingRules).toEqual({ 'Full': full, 'Partial': full });
+  });
+});
+
+describe('staticRateCard', () => {
+  it('prices Partial as Full, like the card the migration seeds', () => {
+    expect(staticRateCard.settings.stylingRules['Partial']).toEqual(staticRateCard.settings.stylingRules['Full']);
+  });
+});
@@ -0,0 +1,2 @@
+// Rate settings schema and validation are shared with the rate-settings edge function
+export * from '../../supabase/functions/_shared/rateSettings.ts';
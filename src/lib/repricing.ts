@@ -0,0 +1,2 @@
+// Rate card comparison is shared with the edge functions
+export * from '../../supabase/functions/_shared/repricing.ts';
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import {
+  promotedRoom,
+  validateCustomRoom,
+  validateRoomsForPropertyType,
+  validateRoomWeights,
+  type CatalogueRoom,
+} from '@/lib/roomCatalogue';
+
+const catalogue: CatalogueRoom[] = [
+  { name: 'Living Room', weight: 1, defaultCount: 1, defaultPercentage: 100, isCore: true, propertyTypes: [] },
+  { name: 'Backyard', weight: 0.5, defaultCount: 0, defaultPercentage: 100, isCore: false, propertyTypes: ['House'] },
+];
+
+describe('validateRoomsForPropertyType', () => {
+  it('rejects a catalogue room quoted for a property type it is not allowed on', () => {
+    const rooms = { 'Backyard': { count: 1, percentage: 100, weight: 0.5 } };
+
+    expect(validateRoomsForPropertyType(rooms, 'Apartment', catalogue)).toEqual([
+      { field: 'formData.rooms.Backyard.count', message: 'Backyard can\'t be quoted for a Apartment' },
+    ]);
+    expect(validateRoomsForPropertyType(rooms, 'House', catalogue)).toEqual([]);
+  });
+
+  it('ignores disallowed rooms with no count, and custom rooms', () => {
+    const rooms = {
+      'Backyard': { count: 0, percentage: 100, weight: 0.5 },
+      'Wine Cellar': { count: 1, percentage: 100, weight: 2 },
+    };
+
+    expect(validateRoomsForPropertyType(rooms, 'Apartment', catalogue)).toEqual([]);
+  });
+});
+
+describe('validateRoomWeights', () => {
+  it('rejects a catalogue room at another weight, whatever its case', () => {
+    const rooms = {
+      'Living Room': { count: 1, percentage: 100, weight: 0 },
+      'backyard': { count: 2, percentage: 100, weight: 0.1 },
+    };
+
+    expect(validateRoomWeights(rooms, catalogue).map(error => error.field))
+      .toEqual(['formData.rooms.Living Room.weight', 'formData.rooms.backyard.weight']);
+  });
+
+  it('lets custom rooms bring their own weight', () => {
+    const rooms = {
+      'Living Room': { count: 1, percentage: 100, weight: 1 },
+      'Wine Cellar': { count: 1, percentage: 100, weight: 2.5 },
+    };
+
+    expect(validateRoomWeights(rooms, catalogue)).toEqual([]);
+  });
+});
+
+describe('validateCustomRoom', () => {
+  it('accepts a new name with a positive weight', () => {
+    expect(validateCustomRoom({ name: 'Wine Cellar', weight: 1.5 }, ['Living Room'])).toEqual([]);
+  });
+
+  it('rejects a name already on the quote or in the catalogue, ignoring case', () => {
+    expect(validateCustomRoom({ name: ' living room ', weight: 1 }, ['Living Room'])).toEqual([
+      { field: 'name', message: 'There is already a room called "living room"' },
+    ]);
+  });
+
+  it('rejects a blank name and a weight of 0', () => {
+    expect(validateCustomRoom({ name: '', weight: 0 }, []).map(error => error.field)).toEqual(['name', 'weight']);
+  });
+});
+
+describe('promotedRoom', () => {
+  it('joins the catalogue as an optional room for every property type', () => {
+    expect(promotedRoom('Wine Cellar', 1.5)).toEqual({
+      name: 'Wine Cellar',
+      weight: 1.5,
+      defaultCount: 0,
+      defaultPercentage: 100,
+      isCore: false,
+      propertyTypes: [],
+    });
+  });
+});
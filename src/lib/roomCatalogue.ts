@@ -0,0 +1,2 @@
+// Room catalogue types and custom room checks are shared with the room-catalogue edge function
+export * from '../../supabase/functions/_shared/roomCatalogue.ts';
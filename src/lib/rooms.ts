@@ -0,0 +1,2 @@
+// Built-in rooms are shared with the edge functions
+export * from '../../supabase/functions/_shared/rooms.ts';
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { priceQuote, staticRateSettings, toQuoteCalculations, type CalculatorFormData, type RateSettings } from '@/lib/pricing';
+import { validatePriceOverride, validateQuoteSubmission } from '@/lib/validation';
+
+// Prices at $875 ex GST before any override
+const formData = (overrides: Partial<CalculatorFormData> = {}): CalculatorFormData => ({
+  propertyType: 'Apartment',
+  styling: 'Full',
+  propertyAddress: '1 Test St',
+  distanceFromWarehouse: 10,
+  listingPrice: 900000,
+  accessDifficulty: 'Easy',
+  roomRate: 350,
+  rooms: {
+    'Living Room': { count: 1, percentage: 100, weight: 1 },
+    'Bedroom': { count: 2, percentage: 50, weight: 1.5 },
+  },
+  ...overrides,
+});
+
+// Submitted with the totals the browser would have worked out
+const submit = (data: CalculatorFormData, settings: RateSettings = staticRateSettings) =>
+  validateQuoteSubmission({ formData: data, calculations: toQuoteCalculations(priceQuote(data, settings)) }, settings);
+
+const fields = (result: ReturnType<typeof validateQuoteSubmission>) =>
+  'errors' in result ? result.errors.map(error => error.field) : [];
+
+describe('validatePriceOverride', () => {
+  it('requires a reason', () => {
+    expect(validatePriceOverride({ kind: 'percent', value: -0.1, reason: ' ' })).toEqual([
+      { field: 'formData.override.reason', message: 'A reason is required for every override' },
+    ]);
+  });
+
+  it('rejects a dollar discount as large as the quote', () => {
+    const errors = validatePriceOverride({ kind: 'amount', value: -875, reason: 'Friend' }, 875);
+
+    expect(errors.map(error => error.field)).toEqual(['formData.override.value']);
+  });
+
+  it('allows a dollar discount smaller than the quote', () => {
+    expect(validatePriceOverride({ kind: 'amount', value: -874, reason: 'Friend' }, 875)).toEqual([]);
+  });
+});
+
+describe('validateQuoteSubmission', () => {
+  it('reprices a valid quote', () => {
+    const result = submit(formData());
+
+    expect(result.ok).toBe(true);
+    expect('breakdown' in result && result.breakdown.finalQuote).toBe(875);
+  });
+
+  it('rejects totals that differ from the repriced quote', () => {
+    const data = formData();
+    const calculations = { ...toQuoteCalculations(priceQuote(data, staticRateSettings)), finalQuote: 1 };
+
+    expect(fields(validateQuoteSubmission({ formData: data, calculations }, staticRateSettings)))
+      .toEqual(['calculations.finalQuote']);
+  });
+
+  it('rejects negative room weights', () => {
+    const rooms = { 'Living Room': { count: 1, percentage: 100, weight: -1 } };
+
+    expect(fields(submit(formData({ rooms })))).toEqual(['formData.rooms.Living Room.weight']);
+  });
+
+  it('rejects a styling type the rate card has no rule for', () => {
+    const fullOnly = { ...staticRateSettings, stylingRules: { 'Full': staticRateSettings.stylingRules['Full'] } };
+
+    expect(fields(submit(formData({ styling: 'Partial' }), fullOnly))).toEqual(['formData.styling']);
+  });
+
+  it('rejects a dollar discount larger than the quote', () => {
+    const override = { kind: 'amount' as const, value: -5000, reason: 'Friend' };
+
+    expect(fields(submit(formData({ override })))).toEqual(['formData.override.value']);
+  });
+
+  it('accepts a premium of any size', () => {
+    expect(submit(formData({ override: { kind: 'amount', value: 5000, reason: 'Rush job' } })).ok).toBe(true);
+  });
+});
@@ -0,0 +1,2 @@
+// Quote validation is shared with the submit-quote edge function
+export * from '../../supabase/functions/_shared/validation.ts';
@@ -1,8 +1,34 @@
+import { useMemo, useState } from 'react';
+import { Link, useLocation, useSearchParams } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
 import QuoteCalculator from '@/components/QuoteCalculator';
+import ResumeDrafts from '@/components/ResumeDrafts';
+import { useRoomCatalogue } from '@/hooks/use-room-catalogue';
+import type { SavedQuote } from '@/lib/quotes';
+import { decodeShareState, stateFromSavedQuote } from '@/lib/calculatorState';
+import type { QuoteDraft } from '@/services/draftService';
 import logoUrl from '/android-chrome-192x192.png';
 import logoHeader from '/sparkle-space-logo-header.png';
 
 const CalculatorPage = () => {
+  // Quote history opens a saved quote by navigating here with it in the router state;
+  // share links carry the calculator state in ?q=
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  const initialQuote: SavedQuote | undefined = location.state?.quote;
+  const sharedState = searchParams.get('q');
+  const [resumedDraft, setResumedDraft] = useState<QuoteDraft | null>(null);
+  // Share links leave out rooms at a count of 0, which come back from the catalogue
+  const { catalogue, isLoading: isCatalogueLoading } = useRoomCatalogue();
+  const isDecodingShareLink = !resumedDraft && !initialQuote && !!sharedState;
+
+  const initialState = useMemo(() => {
+    if (resumedDraft) return resumedDraft.state;
+    if (initialQuote) return stateFromSavedQuote(initialQuote);
+    if (sharedState) return decodeShareState(sharedState, catalogue) ?? undefined;
+    return undefined;
+  }, [resumedDraft, initialQuote, sharedState, catalogue]);
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
       {/* Header */}
@@ -34,16 +60,31 @@ const CalculatorPage = () => {
           <div className="text-center mb-8">
             <h2 className="text-3xl font-bold text-slate-900 mb-4">Quote Calculator</h2>
           </div>
+
+          <ResumeDrafts activeKey={resumedDraft?.key} onResume={setResumedDraft} />
           
           <div className="bg-white rounded-lg shadow-sm border border-slate-200 p-6">
-            <QuoteCalculator />
+            {isDecodingShareLink && isCatalogueLoading ? (
+              <div className="text-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin mx-auto text-blue-600" />
+              </div>
+            ) : (
+              <QuoteCalculator
+                key={resumedDraft ? `draft:${resumedDraft.key}` : initialQuote?.id ?? sharedState ?? 'new'}
+                initialState={initialState}
+                draftKey={resumedDraft?.key}
+              />
+            )}
           </div>
 
           {/* Footer Note */}
-          <div className="mt-8 text-center no-print">
+          <div className="mt-8 text-center">
             <p className="text-sm text-slate-500">
               This is an estimate only.
             </p>
+            <Link to="/quotes" className="text-sm text-blue-600 hover:underline">
+              Quote history
+            </Link>
           </div>
         </div>
       </main>
@@ -0,0 +1,224 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { CheckCircle, XCircle, Loader2, Plus, Trash2, LogOut, ArrowUp, ArrowDown } from 'lucide-react';
+import { depotIdFromName, MAX_DEPOT_NAME_LENGTH, validateDepots, type Depot } from '@/lib/depots';
+import type { FieldError } from '@/lib/validation';
+import AdminSignIn from '@/components/AdminSignIn';
+import { adminAuthService } from '@/services/adminAuth';
+import { FunctionValidationError } from '@/services/edgeFunctions';
+import { depotService } from '@/services/depotService';
+import logoHeader from '/sparkle-space-logo-header.png';
+
+// New depots get their id from their name when first saved, so it stays put if they're renamed later
+const withIds = (depots: Depot[]): Depot[] => {
+  const taken = new Set(depots.map(depot => depot.id).filter(Boolean));
+  return depots.map((depot) => {
+    if (depot.id) return depot;
+
+    const base = depotIdFromName(depot.name) || 'depot';
+    let id = base;
+    for (let suffix = 2; taken.has(id); suffix++) id = `${base}-${suffix}`;
+    taken.add(id);
+    return { ...depot, id };
+  });
+};
+
+const DepotsAdmin = () => {
+  const [session, setSession] = useState(() => adminAuthService.getSession());
+  const [depots, setDepots] = useState<Depot[] | null>(null);
+  const [status, setStatus] = useState<'idle' | 'saving' | 'success' | 'error'>('idle');
+  const [message, setMessage] = useState('');
+  const [serverErrors, setServerErrors] = useState<FieldError[]>([]);
+
+  useEffect(() => {
+    if (!session) return;
+
+    depotService.load().then(setDepots);
+  }, [session]);
+
+  const handleSignOut = () => {
+    adminAuthService.signOut();
+    setSession(null);
+    setDepots(null);
+  };
+
+  const updateDepots = (next: Depot[]) => {
+    setDepots(next);
+    setStatus('idle');
+    setServerErrors([]);
+  };
+
+  const updateDepot = (index: number, changes: Partial<Depot>) => {
+    if (!depots) return;
+    updateDepots(depots.map((depot, i) => (i === index ? { ...depot, ...changes } : depot)));
+  };
+
+  const moveDepot = (index: number, offset: number) => {
+    if (!depots) return;
+    const next = [...depots];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    updateDepots(next);
+  };
+
+  const handleSave = async () => {
+    if (!depots || !session) return;
+
+    try {
+      setStatus('saving');
+      setServerErrors([]);
+      setDepots(await depotService.save(withIds(depots), session.accessToken));
+      setStatus('success');
+      setMessage('Depots saved. Existing quotes keep the depot and distance they were measured with.');
+    } catch (error) {
+      setStatus('error');
+      if (error instanceof FunctionValidationError) {
+        setServerErrors(error.fields);
+      }
+      setMessage(error instanceof Error ? error.message : 'Failed to save depots');
+    }
+  };
+
+  const errors = depots ? [...validateDepots(withIds(depots)), ...serverErrors] : [];
+  const errorsFor = (index: number) => errors.filter(error => error.field.startsWith(`depots[${index}]`));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b border-slate-200">
+        <div className="px-4 py-2">
+          <div className="flex items-center justify-center max-w-4xl mx-auto">
+            <img src={logoHeader} alt="Sparkle Space Logo" className="h-12 object-contain" />
+          </div>
+        </div>
+      </header>
+
+      <main className="px-4 py-8">
+        <div className="max-w-4xl mx-auto space-y-6">
+          <div className="text-center">
+            <h2 className="text-3xl font-bold text-slate-900 mb-2">Depots</h2>
+            <Link to="/" className="text-sm text-blue-600 hover:underline">Back to calculator</Link>
+          </div>
+
+          {!session && (
+            <AdminSignIn description="Only admins can change the depots quotes are measured from." onSignIn={setSession} />
+          )}
+
+          {session && !depots && (
+            <div className="text-center">
+              <Loader2 className="h-8 w-8 animate-spin mx-auto text-blue-600" />
+            </div>
+          )}
+
+          {session && depots && (
+            <>
+              <div className="flex items-center justify-between text-sm text-slate-600">
+                <span>Signed in as {session.email}</span>
+                <Button variant="ghost" size="sm" onClick={handleSignOut}>
+                  <LogOut className="h-4 w-4 mr-2" />
+                  Sign out
+                </Button>
+              </div>
+
+              <Card className="border-0 shadow-sm">
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-lg font-semibold text-slate-900">Depots</CardTitle>
+                  <CardDescription>
+                    The calculator measures the driving distance from every depot and uses the nearest one,
+                    unless the stylist picks another.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <div className="grid grid-cols-12 gap-2 text-sm font-medium text-slate-600 pb-2 border-b">
+                    <div className="col-span-3">Name</div>
+                    <div className="col-span-7">Address</div>
+                    <div className="col-span-2"></div>
+                  </div>
+
+                  {depots.map((depot, index) => (
+                    <div key={index} className="space-y-1">
+                      <div className="grid grid-cols-12 gap-2 items-center">
+                        <div className="col-span-3">
+                          <Input
+                            value={depot.name}
+                            maxLength={MAX_DEPOT_NAME_LENGTH}
+                            onChange={(e) => updateDepot(index, { name: e.target.value })}
+                            className="h-8"
+                          />
+                        </div>
+                        <div className="col-span-7">
+                          <Input
+                            value={depot.address}
+                            onChange={(e) => updateDepot(index, { address: e.target.value })}
+                            className="h-8"
+                          />
+                        </div>
+                        <div className="col-span-2 flex justify-end">
+                          <Button variant="ghost" size="sm" title="Move up" disabled={index === 0} onClick={() => moveDepot(index, -1)}>
+                            <ArrowUp className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" title="Move down" disabled={index === depots.length - 1} onClick={() => moveDepot(index, 1)}>
+                            <ArrowDown className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" title="Remove depot" onClick={() => updateDepots(depots.filter((_, i) => i !== index))}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                      {errorsFor(index).length > 0 && (
+                        <ul className="text-xs text-red-600 space-y-1">
+                          {errorsFor(index).map((error) => (
+                            <li key={error.field}>{error.message}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  ))}
+
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateDepots([...depots, { id: '', name: '', address: '' }])}
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add depot
+                  </Button>
+                </CardContent>
+              </Card>
+
+              {status === 'success' && (
+                <Alert className="border-green-200 bg-green-50">
+                  <CheckCircle className="h-4 w-4 text-green-600" />
+                  <AlertDescription className="text-green-800">{message}</AlertDescription>
+                </Alert>
+              )}
+
+              {status === 'error' && (
+                <Alert className="border-red-200 bg-red-50">
+                  <XCircle className="h-4 w-4 text-red-600" />
+                  <AlertDescription className="text-red-800">{message}</AlertDescription>
+                </Alert>
+              )}
+
+              <div className="flex justify-center">
+                <Button
+                  onClick={handleSave}
+                  disabled={status === 'saving' || errors.length > 0}
+                  className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2"
+                >
+                  {status === 'saving' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Save Depots
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default DepotsAdmin;
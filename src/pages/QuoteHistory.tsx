@@ -0,0 +1,349 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { XCircle, Loader2, LogOut, FolderOpen, Search, RefreshCw, AlertTriangle, ExternalLink } from 'lucide-react';
+import AdminSignIn from '@/components/AdminSignIn';
+import { notionPageUrl } from '@/lib/notion';
+import { staticPropertyTypes } from '@/lib/pricing';
+import { formatQuoteNumber, type QuoteFilters, type SavedQuote } from '@/lib/quotes';
+import { QUOTE_STATUSES, quoteStatusLabels, type QuoteStatus, type QuoteSyncConflict } from '@/lib/quoteSync';
+import { adminAuthService } from '@/services/adminAuth';
+import { notionService } from '@/services/notionService';
+import { quoteService } from '@/services/quoteService';
+import logoHeader from '/sparkle-space-logo-header.png';
+
+const ALL_PROPERTY_TYPES = 'all';
+const ALL_STATUSES = 'all';
+
+const statusClassNames: { [status in QuoteStatus]: string } = {
+  sent: 'text-blue-700',
+  accepted: 'text-green-700',
+  lost: 'text-slate-500',
+};
+
+const QuoteHistory = () => {
+  const navigate = useNavigate();
+  const [session, setSession] = useState(() => adminAuthService.getSession());
+  const [filters, setFilters] = useState<QuoteFilters>({});
+  const [quotes, setQuotes] = useState<SavedQuote[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+  const [conflicts, setConflicts] = useState<QuoteSyncConflict[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [syncMessage, setSyncMessage] = useState('');
+
+  const loadQuotes = useCallback(async (appliedFilters: QuoteFilters) => {
+    if (!session) return;
+
+    try {
+      setIsLoading(true);
+      setErrorMessage('');
+      setQuotes(await quoteService.list(appliedFilters, session.accessToken));
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to load quotes');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [session]);
+
+  const loadConflicts = useCallback(async () => {
+    if (!session) return;
+
+    try {
+      setConflicts(await notionService.conflicts(session.accessToken));
+    } catch (error) {
+      console.error('Failed to load Notion sync conflicts:', error);
+    }
+  }, [session]);
+
+  // Load everything once signed in; after that the Search button applies the filters
+  useEffect(() => {
+    loadQuotes({});
+    loadConflicts();
+  }, [loadQuotes, loadConflicts]);
+
+  // Runs the scheduled Notion sync now, then shows what it changed with the current filters
+  const syncFromNotion = async () => {
+    if (!session) return;
+
+    try {
+      setIsSyncing(true);
+      setErrorMessage('');
+      setSyncMessage('');
+      const result = await notionService.sync(session.accessToken);
+      setConflicts(result.conflicts);
+      setSyncMessage(`Checked ${result.rows} Notion rows, ${result.updated} quotes updated`);
+      await loadQuotes(filters);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to sync from Notion');
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const handleSignOut = () => {
+    adminAuthService.signOut();
+    setSession(null);
+    setQuotes([]);
+    setConflicts([]);
+    setSyncMessage('');
+  };
+
+  const openQuote = (quote: SavedQuote) => {
+    navigate('/', { state: { quote } });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b border-slate-200">
+        <div className="px-4 py-2">
+          <div className="flex items-center justify-center max-w-4xl mx-auto">
+            <img src={logoHeader} alt="Sparkle Space Logo" className="h-12 object-contain" />
+          </div>
+        </div>
+      </header>
+
+      <main className="px-4 py-8">
+        <div className="max-w-4xl mx-auto space-y-6">
+          <div className="text-center">
+            <h2 className="text-3xl font-bold text-slate-900 mb-2">Quote History</h2>
+            <Link to="/" className="text-sm text-blue-600 hover:underline">Back to calculator</Link>
+          </div>
+
+          {!session && (
+            <AdminSignIn description="Only admins can view saved quotes." onSignIn={setSession} />
+          )}
+
+          {session && (
+            <>
+              <div className="flex items-center justify-between text-sm text-slate-600">
+                <span>Signed in as {session.email}</span>
+                <div className="flex items-center gap-2">
+                  <Button variant="outline" size="sm" onClick={syncFromNotion} disabled={isSyncing}>
+                    <RefreshCw className={`h-4 w-4 mr-2 ${isSyncing ? 'animate-spin' : ''}`} />
+                    Sync from Notion
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={handleSignOut}>
+                    <LogOut className="h-4 w-4 mr-2" />
+                    Sign out
+                  </Button>
+                </div>
+              </div>
+
+              {/* Filters */}
+              <Card className="border-0 shadow-sm">
+                <CardContent className="pt-6">
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                    <div className="md:col-span-2">
+                      <Label htmlFor="search">Address</Label>
+                      <Input
+                        id="search"
+                        placeholder="Search by address"
+                        value={filters.search ?? ''}
+                        onChange={(e) => setFilters(prev => ({ ...prev, search: e.target.value }))}
+                        onKeyDown={(e) => e.key === 'Enter' && loadQuotes(filters)}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="propertyTypeFilter">Property Type</Label>
+                      <Select
+                        value={filters.propertyType ?? ALL_PROPERTY_TYPES}
+                        onValueChange={(value) => setFilters(prev => ({
+                          ...prev,
+                          propertyType: value === ALL_PROPERTY_TYPES ? undefined : value,
+                        }))}
+                      >
+                        <SelectTrigger id="propertyTypeFilter">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={ALL_PROPERTY_TYPES}>All</SelectItem>
+                          {staticPropertyTypes.map((type) => (
+                            <SelectItem key={type} value={type}>{type}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Button onClick={() => loadQuotes(filters)} disabled={isLoading}>
+                      <Search className="h-4 w-4 mr-2" />
+                      Search
+                    </Button>
+                    <div>
+                      <Label htmlFor="from">From</Label>
+                      <Input
+                        id="from"
+                        type="date"
+                        value={filters.from ?? ''}
+                        onChange={(e) => setFilters(prev => ({ ...prev, from: e.target.value || undefined }))}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="to">To</Label>
+                      <Input
+                        id="to"
+                        type="date"
+                        value={filters.to ?? ''}
+                        onChange={(e) => setFilters(prev => ({ ...prev, to: e.target.value || undefined }))}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="statusFilter">Notion Status</Label>
+                      <Select
+                        value={filters.status ?? ALL_STATUSES}
+                        onValueChange={(value) => setFilters(prev => ({
+                          ...prev,
+                          status: value === ALL_STATUSES ? undefined : value as QuoteStatus,
+                        }))}
+                      >
+                        <SelectTrigger id="statusFilter">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={ALL_STATUSES}>All</SelectItem>
+                          {QUOTE_STATUSES.map((status) => (
+                            <SelectItem key={status} value={status}>{quoteStatusLabels[status]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Button
+                      variant={filters.overridden ? 'default' : 'outline'}
+                      onClick={() => setFilters(prev => ({ ...prev, overridden: !prev.overridden || undefined }))}
+                    >
+                      Overrides only
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+
+              {errorMessage && (
+                <Alert className="border-red-200 bg-red-50">
+                  <XCircle className="h-4 w-4 text-red-600" />
+                  <AlertDescription className="text-red-800">{errorMessage}</AlertDescription>
+                </Alert>
+              )}
+
+              {syncMessage && (
+                <p className="text-sm text-slate-600">{syncMessage}</p>
+              )}
+
+              {/* Notion rows the sync couldn't apply; they clear once fixed in Notion and synced again */}
+              {conflicts.length > 0 && (
+                <Alert className="border-amber-200 bg-amber-50">
+                  <AlertTriangle className="h-4 w-4 text-amber-600" />
+                  <AlertDescription className="text-amber-800">
+                    <p className="font-medium mb-1">{conflicts.length} Notion {conflicts.length === 1 ? 'row needs' : 'rows need'} attention</p>
+                    <ul className="space-y-1">
+                      {conflicts.map((conflict) => (
+                        <li key={`${conflict.notionPageId}:${conflict.kind}`}>
+                          <a
+                            href={notionPageUrl(conflict.notionPageId)}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="underline"
+                          >
+                            {conflict.message}
+                          </a>
+                        </li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <Card className="border-0 shadow-sm">
+                <CardContent className="pt-6">
+                  {isLoading ? (
+                    <Loader2 className="h-8 w-8 animate-spin mx-auto text-blue-600" />
+                  ) : quotes.length === 0 ? (
+                    <p className="text-center text-sm text-slate-500">No quotes found.</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Quote</TableHead>
+                          <TableHead>Date</TableHead>
+                          <TableHead>Address</TableHead>
+                          <TableHead>Type</TableHead>
+                          <TableHead>Notion</TableHead>
+                          <TableHead className="text-right">Final Quote</TableHead>
+                          <TableHead></TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {quotes.map((quote) => (
+                          <TableRow key={quote.id}>
+                            <TableCell>{formatQuoteNumber(quote.quoteNumber)}</TableCell>
+                            <TableCell>{new Date(quote.createdAt).toLocaleDateString()}</TableCell>
+                            <TableCell>{quote.formData.propertyAddress || 'Not provided'}</TableCell>
+                            <TableCell>{quote.formData.propertyType}</TableCell>
+                            <TableCell>
+                              {quote.notion ? (
+                                <>
+                                  <a
+                                    href={notionPageUrl(quote.notion.pageId)}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className={`inline-flex items-center gap-1 hover:underline ${quote.notion.status ? statusClassNames[quote.notion.status] : 'text-slate-600'}`}
+                                  >
+                                    {quote.notion.statusLabel || 'No status'}
+                                    <ExternalLink className="h-3 w-3" />
+                                  </a>
+                                  {conflicts.some(conflict => conflict.quoteId === quote.id) && (
+                                    <AlertTriangle className="inline h-3 w-3 ml-1 text-amber-600" aria-label="Sync conflict" />
+                                  )}
+                                  {quote.notion.followUp && (
+                                    <div className="text-xs text-slate-500">{quote.notion.followUp}</div>
+                                  )}
+                                </>
+                              ) : (
+                                <span className="text-xs text-slate-400">Not sent</span>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              ${quote.calculations.finalQuote.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                              {quote.formData.override && (
+                                <div className="text-xs text-amber-700" title={quote.formData.override.reason}>
+                                  {quote.formData.override.value < 0 ? 'Discount' : 'Premium'}{' '}
+                                  {quote.formData.override.kind === 'percent'
+                                    ? `${Math.abs(Math.round(quote.formData.override.value * 10000) / 100)}%`
+                                    : `$${Math.abs(quote.formData.override.value).toFixed(2)}`}
+                                  : {quote.formData.override.reason}
+                                </div>
+                              )}
+                              {quote.options.length > 0 && (
+                                <div className="text-xs text-slate-500">
+                                  {quote.options.length} options
+                                  {quote.acceptedOption !== null && `, ${quote.options[quote.acceptedOption]?.name} accepted`}
+                                </div>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <Button variant="outline" size="sm" onClick={() => openQuote(quote)}>
+                                <FolderOpen className="h-4 w-4 mr-2" />
+                                Open
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default QuoteHistory;
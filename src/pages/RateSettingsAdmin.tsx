@@ -0,0 +1,660 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CheckCircle, XCircle, Loader2, Plus, Trash2, LogOut } from 'lucide-react';
+import {
+  roundingRuleLabels,
+  staticPropertyTypes,
+  staticRateSettings,
+  staticStylingTypes,
+  type ExtraItem,
+  type RateSettings,
+  type RoundingRule,
+  type StylingRule,
+} from '@/lib/pricing';
+import { describeRateCard, validateRateSettings, type RateCard } from '@/lib/rateSettings';
+import type { FieldError } from '@/lib/validation';
+import AdminSignIn from '@/components/AdminSignIn';
+import { adminAuthService } from '@/services/adminAuth';
+import { FunctionValidationError } from '@/services/edgeFunctions';
+import { rateSettingsService, type RateSettingsSource } from '@/services/rateSettingsService';
+import logoHeader from '/sparkle-space-logo-header.png';
+
+interface Band {
+  max: number;
+  rate: number;
+}
+
+// Rates are stored as fractions but edited as percentages
+const toPercent = (rate: number) => Math.round(rate * 10000) / 100;
+const fromPercent = (percent: number) => percent / 100;
+
+// Quotes refer to extras by id, so renaming or repricing an extra on a new card keeps them attached
+const newExtraId = () => crypto.randomUUID().slice(0, 8);
+
+const FieldErrors = ({ errors, prefix }: { errors: FieldError[]; prefix: string }) => {
+  const matching = errors.filter(error => error.field === prefix || error.field.startsWith(`${prefix}.`) || error.field.startsWith(`${prefix}[`));
+  if (matching.length === 0) return null;
+
+  return (
+    <ul className="text-xs text-red-600 space-y-1 mt-2">
+      {matching.map((error, index) => (
+        <li key={`${error.field}-${index}`}>{error.field}: {error.message}</li>
+      ))}
+    </ul>
+  );
+};
+
+interface BandEditorProps {
+  title: string;
+  unit: string;
+  field: string;
+  bands: Band[];
+  errors: FieldError[];
+  onChange: (bands: Band[]) => void;
+  // Rates are percentages unless the bands hold dollar amounts
+  rateLabel?: string;
+  isDollarRate?: boolean;
+}
+
+// Edits ascending bands; the last band is always the open-ended "and above" bucket
+const BandEditor = ({ title, unit, field, bands, errors, onChange, rateLabel = 'Rate %', isDollarRate = false }: BandEditorProps) => {
+  const updateBand = (index: number, changes: Partial<Band>) => {
+    onChange(bands.map((band, i) => (i === index ? { ...band, ...changes } : band)));
+  };
+
+  const addBand = () => {
+    // New band goes just before the open-ended bucket, starting above the previous bound
+    const finiteBands = bands.slice(0, -1);
+    const previousMax = finiteBands.length > 0 ? finiteBands[finiteBands.length - 1].max : 0;
+    const openBand = bands[bands.length - 1] ?? { max: Infinity, rate: 0 };
+    onChange([...finiteBands, { max: previousMax + 1, rate: openBand.rate }, { ...openBand, max: Infinity }]);
+  };
+
+  const removeBand = (index: number) => {
+    onChange(bands.filter((_, i) => i !== index));
+  };
+
+  return (
+    <Card className="border-0 shadow-sm">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg font-semibold text-slate-900">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-2">
+          <div className="grid grid-cols-12 gap-2 text-sm font-medium text-slate-600 pb-2 border-b">
+            <div className="col-span-6">Up to ({unit})</div>
+            <div className="col-span-4 text-center">{rateLabel}</div>
+            <div className="col-span-2"></div>
+          </div>
+
+          {bands.map((band, index) => {
+            const isLast = index === bands.length - 1;
+            return (
+              <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                <div className="col-span-6">
+                  {isLast ? (
+                    <span className="text-sm text-slate-600">and above</span>
+                  ) : (
+                    <Input
+                      type="number"
+                      min="0"
+                      value={band.max}
+                      onChange={(e) => updateBand(index, { max: parseFloat(e.target.value) || 0 })}
+                      className="h-8"
+                    />
+                  )}
+                </div>
+                <div className="col-span-4">
+                  <Input
+                    type="number"
+                    step={isDollarRate ? '1' : '0.5'}
+                    value={isDollarRate ? band.rate : toPercent(band.rate)}
+                    onChange={(e) => {
+                      const value = parseFloat(e.target.value) || 0;
+                      updateBand(index, { rate: isDollarRate ? value : fromPercent(value) });
+                    }}
+                    className="text-center h-8"
+                  />
+                </div>
+                <div className="col-span-2 text-right">
+                  {!isLast && (
+                    <Button variant="ghost" size="sm" onClick={() => removeBand(index)} title="Remove band">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <Button variant="outline" size="sm" onClick={addBand} className="mt-3">
+          <Plus className="h-4 w-4 mr-2" />
+          Add band
+        </Button>
+
+        <FieldErrors errors={errors} prefix={field} />
+      </CardContent>
+    </Card>
+  );
+};
+
+const RateSettingsAdmin = () => {
+  const [session, setSession] = useState(() => adminAuthService.getSession());
+
+  const [draft, setDraft] = useState<RateSettings | null>(null);
+  const [source, setSource] = useState<RateSettingsSource | null>(null);
+  const [cards, setCards] = useState<RateCard[]>([]);
+  const [currentCardId, setCurrentCardId] = useState<string | null>(null);
+  const [effectiveFrom, setEffectiveFrom] = useState(() => new Date().toISOString().split('T')[0]);
+  const [status, setStatus] = useState<'idle' | 'saving' | 'success' | 'error'>('idle');
+  const [message, setMessage] = useState('');
+  const [serverErrors, setServerErrors] = useState<FieldError[]>([]);
+
+  useEffect(() => {
+    if (!session) return;
+
+    rateSettingsService.load().then((loaded) => {
+      // New cards start from the one in force now
+      setDraft(loaded.current.settings);
+      setCards(loaded.cards);
+      setCurrentCardId(loaded.current.id);
+      setSource(loaded.source);
+    });
+  }, [session]);
+
+  const handleSignOut = () => {
+    adminAuthService.signOut();
+    setSession(null);
+    setDraft(null);
+  };
+
+  const handlePublish = async () => {
+    if (!draft || !session) return;
+
+    try {
+      setStatus('saving');
+      setServerErrors([]);
+      const published = await rateSettingsService.publish(new Date(effectiveFrom).toISOString(), draft, session.accessToken);
+      setCards(prev => [...prev, published]);
+      setStatus('success');
+      setMessage(`Published rate card ${describeRateCard(published)}. Quotes priced under earlier cards keep their prices.`);
+    } catch (error) {
+      setStatus('error');
+      if (error instanceof FunctionValidationError) {
+        setServerErrors(error.fields);
+      }
+      setMessage(error instanceof Error ? error.message : 'Failed to publish rate card');
+    }
+  };
+
+  const errors = draft ? [...validateRateSettings(draft), ...serverErrors] : [];
+
+  const updateDraft = (changes: Partial<RateSettings>) => {
+    setDraft(prev => (prev ? { ...prev, ...changes } : prev));
+    setStatus('idle');
+    setServerErrors([]);
+  };
+
+  const accessLevels = draft ? Object.entries(draft.accessDifficultyRates) : [];
+
+  const updateAccessLevel = (index: number, name: string, rate: number) => {
+    const entries = accessLevels.map((entry, i) => (i === index ? [name, rate] as const : entry));
+    updateDraft({ accessDifficultyRates: Object.fromEntries(entries) });
+  };
+
+  const updateExtra = (index: number, changes: Partial<ExtraItem>) => {
+    if (!draft) return;
+    updateDraft({ extras: draft.extras.map((extra, i) => (i === index ? { ...extra, ...changes } : extra)) });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b border-slate-200">
+        <div className="px-4 py-2">
+          <div className="flex items-center justify-center max-w-4xl mx-auto">
+            <img src={logoHeader} alt="Sparkle Space Logo" className="h-12 object-contain" />
+          </div>
+        </div>
+      </header>
+
+      <main className="px-4 py-8">
+        <div className="max-w-4xl mx-auto space-y-6">
+          <div className="text-center">
+            <h2 className="text-3xl font-bold text-slate-900 mb-2">Rate Cards</h2>
+            <Link to="/" className="text-sm text-blue-600 hover:underline">Back to calculator</Link>
+          </div>
+
+          {!session && (
+            <AdminSignIn description="Only admins can publish the rates used by the calculator." onSignIn={setSession} />
+          )}
+
+          {session && !draft && (
+            <div className="text-center">
+              <Loader2 className="h-8 w-8 animate-spin mx-auto text-blue-600" />
+            </div>
+          )}
+
+          {session && draft && (
+            <>
+              <div className="flex items-center justify-between text-sm text-slate-600">
+                <span>
+                  Signed in as {session.email}
+                  {source !== 'remote' && ' · showing offline defaults, saved settings could not be loaded'}
+                </span>
+                <Button variant="ghost" size="sm" onClick={handleSignOut}>
+                  <LogOut className="h-4 w-4 mr-2" />
+                  Sign out
+                </Button>
+              </div>
+
+              <Card className="border-0 shadow-sm">
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-lg font-semibold text-slate-900">Published Cards</CardTitle>
+                  <CardDescription>
+                    Cards are never edited. Publishing creates a new card; each quote records the card that priced it.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {cards.map((card) => (
+                    <div key={card.id} className="flex items-center justify-between text-sm">
+                      <span className="text-slate-700">
+                        {describeRateCard(card)}
+                        {card.id === currentCardId && <span className="ml-2 text-green-600 font-medium">current</span>}
+                        {new Date(card.effectiveFrom).getTime() > Date.now() && <span className="ml-2 text-amber-600 font-medium">scheduled</span>}
+                      </span>
+                      <Button variant="ghost" size="sm" onClick={() => updateDraft(card.settings)}>
+                        Edit a copy
+                      </Button>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+
+              <BandEditor
+                title="Apartment Listing Price Bands"
+                unit="$"
+                field="apartmentPriceRanges"
+                bands={draft.apartmentPriceRanges.map(range => ({ max: range.maxPrice, rate: range.rate }))}
+                errors={errors}
+                onChange={(bands) => updateDraft({ apartmentPriceRanges: bands.map(band => ({ maxPrice: band.max, rate: band.rate })) })}
+              />
+
+              <BandEditor
+                title="House Listing Price Bands"
+                unit="$"
+                field="housePriceRanges"
+                bands={draft.housePriceRanges.map(range => ({ max: range.maxPrice, rate: range.rate }))}
+                errors={errors}
+                onChange={(bands) => updateDraft({ housePriceRanges: bands.map(band => ({ maxPrice: band.max, rate: band.rate })) })}
+              />
+
+              <BandEditor
+                title="Distance Bands"
+                unit="km"
+                field="distanceRanges"
+                bands={draft.distanceRanges.map(range => ({ max: range.maxDistance, rate: range.rate }))}
+                errors={errors}
+                onChange={(bands) => updateDraft({ distanceRanges: bands.map(band => ({ maxDistance: band.max, rate: band.rate })) })}
+              />
+
+              <Card className="border-0 shadow-sm">
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-lg font-semibold text-slate-900">Access Difficulty Rates</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {accessLevels.map(([level, rate], index) => (
+                    <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                      <div className="col-span-6">
+                        <Input value={level} onChange={(e) => updateAccessLevel(index, e.target.value, rate)} className="h-8" />
+                      </div>
+                      <div className="col-span-4">
+                        <Input
+                          type="number"
+                          step="0.5"
+                          value={toPercent(rate)}
+                          onChange={(e) => updateAccessLevel(index, level, fromPercent(parseFloat(e.target.value) || 0))}
+                          className="text-center h-8"
+                        />
+                      </div>
+                      <div className="col-span-2 text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Remove access difficulty"
+                          onClick={() => updateDraft({ accessDifficultyRates: Object.fromEntries(accessLevels.filter((_, i) => i !== index)) })}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateDraft({ accessDifficultyRates: { ...draft.accessDifficultyRates, [`Level ${accessLevels.length + 1}`]: 0 } })}
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add access difficulty
+                  </Button>
+                  <FieldErrors errors={errors} prefix="accessDifficultyRates" />
+                </CardContent>
+              </Card>
+
+              <Card className="border-0 shadow-sm">
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-lg font-semibold text-slate-900">Styling</CardTitle>
+                  <p className="text-sm text-slate-600 mt-2">
+                    The multiplier scales the whole quote after the other adjustments. Room % and room rates are where a new quote starts.
+                  </p>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {staticStylingTypes.map((styling) => {
+                    // A styling the card has no rule for starts from the standard one
+                    const rule = draft.stylingRules[styling] ?? staticRateSettings.stylingRules[styling] ?? { multiplier: 1, roomPercentage: 100, roomRates: {} };
+                    const updateRule = (changes: Partial<StylingRule>) => updateDraft({
+                      stylingRules: { ...draft.stylingRules, [styling]: { ...rule, ...changes } },
+                    });
+
+                    return (
+                      <div key={styling} className="space-y-2">
+                        <div className="text-sm font-medium text-slate-700">{styling}</div>
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                          <div>
+                            <Label htmlFor={`multiplier-${styling}`}>Multiplier</Label>
+                            <Input
+                              id={`multiplier-${styling}`}
+                              type="number"
+                              min="0"
+                              step="0.05"
+                              value={rule.multiplier}
+                              onChange={(e) => updateRule({ multiplier: parseFloat(e.target.value) || 0 })}
+                            />
+                          </div>
+                          <div>
+                            <Label htmlFor={`roomPercentage-${styling}`}>Room %</Label>
+                            <Input
+                              id={`roomPercentage-${styling}`}
+                              type="number"
+                              min="0"
+                              max="100"
+                              value={rule.roomPercentage}
+                              onChange={(e) => updateRule({ roomPercentage: parseFloat(e.target.value) || 0 })}
+                            />
+                          </div>
+                          {staticPropertyTypes.map((propertyType) => (
+                            <div key={propertyType}>
+                              <Label htmlFor={`roomRate-${styling}-${propertyType}`}>{propertyType} room rate</Label>
+                              <Input
+                                id={`roomRate-${styling}-${propertyType}`}
+                                type="number"
+                                min="0"
+                                value={rule.roomRates[propertyType] ?? ''}
+                                onChange={(e) => updateRule({
+                                  roomRates: { ...rule.roomRates, [propertyType]: parseFloat(e.target.value) || 0 },
+                                })}
+                              />
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    );
+                  })}
+                  <FieldErrors errors={errors} prefix="stylingRules" />
+                </CardContent>
+              </Card>
+
+              <Card className="border-0 shadow-sm">
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-lg font-semibold text-slate-900">Minimums &amp; Rounding</CardTitle>
+                  <p className="text-sm text-slate-600 mt-2">
+                    The discount cap limits the listing price, distance and access rates combined. Rounding applies last, to
+                    the final quote ex-GST, and never takes it below the minimum charge.
+                  </p>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    {staticPropertyTypes.map((propertyType) => (
+                      <div key={propertyType}>
+                        <Label htmlFor={`minimumCharge-${propertyType}`}>{propertyType} minimum ($)</Label>
+                        <Input
+                          id={`minimumCharge-${propertyType}`}
+                          type="number"
+                          min="0"
+                          value={draft.minimumCharges[propertyType] ?? 0}
+                          onChange={(e) => updateDraft({
+                            minimumCharges: { ...draft.minimumCharges, [propertyType]: parseFloat(e.target.value) || 0 },
+                          })}
+                        />
+                      </div>
+                    ))}
+                    <div>
+                      <Label htmlFor="rounding">Rounding</Label>
+                      <Select value={draft.rounding} onValueChange={(value) => updateDraft({ rounding: value as RoundingRule })}>
+                        <SelectTrigger id="rounding">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(roundingRuleLabels).map(([rule, label]) => (
+                            <SelectItem key={rule} value={rule}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label htmlFor="maxDiscount">Max discount (%)</Label>
+                      <Input
+                        id="maxDiscount"
+                        type="number"
+                        min="0"
+                        max="100"
+                        placeholder="No cap"
+                        value={draft.maxDiscount === null ? '' : toPercent(draft.maxDiscount)}
+                        onChange={(e) => updateDraft({
+                          maxDiscount: e.target.value === '' ? null : fromPercent(parseFloat(e.target.value) || 0),
+                        })}
+                      />
+                    </div>
+                  </div>
+                  <FieldErrors errors={errors} prefix="minimumCharges" />
+                  <FieldErrors errors={errors} prefix="rounding" />
+                  <FieldErrors errors={errors} prefix="maxDiscount" />
+                </CardContent>
+              </Card>
+
+              <Card className="border-0 shadow-sm">
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-lg font-semibold text-slate-900">Extras</CardTitle>
+                  <p className="text-sm text-slate-600 mt-2">
+                    Add-ons the calculator offers on top of the rooms. They are charged as listed, without the
+                    listing price, distance, access or styling adjustments.
+                  </p>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {draft.extras.length > 0 && (
+                    <div className="grid grid-cols-12 gap-2 text-sm font-medium text-slate-600 pb-2 border-b">
+                      <div className="col-span-4">Name</div>
+                      <div className="col-span-3 text-center">Pricing</div>
+                      <div className="col-span-2 text-center">Price ($)</div>
+                      <div className="col-span-2 text-center">Unit</div>
+                      <div className="col-span-1"></div>
+                    </div>
+                  )}
+                  {draft.extras.map((extra, index) => (
+                    <div key={extra.id} className="grid grid-cols-12 gap-2 items-center">
+                      <div className="col-span-4">
+                        <Input value={extra.name} onChange={(e) => updateExtra(index, { name: e.target.value })} className="h-8" />
+                      </div>
+                      <div className="col-span-3">
+                        <Select value={extra.pricing} onValueChange={(value) => updateExtra(index, { pricing: value as ExtraItem['pricing'] })}>
+                          <SelectTrigger className="h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="fixed">Fixed price</SelectItem>
+                            <SelectItem value="perUnit">Per unit</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="col-span-2">
+                        <Input
+                          type="number"
+                          min="0"
+                          value={extra.price}
+                          onChange={(e) => updateExtra(index, { price: parseFloat(e.target.value) || 0 })}
+                          className="text-center h-8"
+                        />
+                      </div>
+                      <div className="col-span-2">
+                        <Input
+                          value={extra.unit}
+                          placeholder={extra.pricing === 'perUnit' ? 'week' : ''}
+                          disabled={extra.pricing === 'fixed'}
+                          onChange={(e) => updateExtra(index, { unit: e.target.value })}
+                          className="text-center h-8"
+                        />
+                      </div>
+                      <div className="col-span-1 text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Remove extra"
+                          onClick={() => updateDraft({ extras: draft.extras.filter((_, i) => i !== index) })}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateDraft({
+                      extras: [...draft.extras, { id: newExtraId(), name: `Extra ${draft.extras.length + 1}`, pricing: 'fixed', price: 0, unit: '' }],
+                    })}
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add extra
+                  </Button>
+                  <FieldErrors errors={errors} prefix="extras" />
+                </CardContent>
+              </Card>
+
+              <Card className="border-0 shadow-sm">
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-lg font-semibold text-slate-900">Hire Period</CardTitle>
+                  <p className="text-sm text-slate-600 mt-2">
+                    Every quote includes this many weeks of hire. Each week beyond it is charged at the extension rate
+                    below for the property type and equivalent room count.
+                  </p>
+                </CardHeader>
+                <CardContent>
+                  <Label htmlFor="includedWeeks">Included hire term (weeks)</Label>
+                  <Input
+                    id="includedWeeks"
+                    type="number"
+                    min="1"
+                    value={draft.hire.includedWeeks}
+                    onChange={(e) => updateDraft({ hire: { ...draft.hire, includedWeeks: parseInt(e.target.value) || 0 } })}
+                  />
+                  <FieldErrors errors={errors} prefix="hire.includedWeeks" />
+                </CardContent>
+              </Card>
+
+              {staticPropertyTypes.map((propertyType) => (
+                <BandEditor
+                  key={propertyType}
+                  title={`${propertyType} Hire Extension Rates`}
+                  unit="equivalent rooms"
+                  rateLabel="$ per week"
+                  isDollarRate
+                  field={`hire.extensionRates.${propertyType}`}
+                  bands={(draft.hire.extensionRates[propertyType] ?? []).map(band => ({ max: band.maxRooms, rate: band.rate }))}
+                  errors={errors}
+                  onChange={(bands) => updateDraft({
+                    hire: {
+                      ...draft.hire,
+                      extensionRates: {
+                        ...draft.hire.extensionRates,
+                        [propertyType]: bands.map(band => ({ maxRooms: band.max, rate: band.rate })),
+                      },
+                    },
+                  })}
+                />
+              ))}
+
+              <Card className="border-0 shadow-sm">
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-lg font-semibold text-slate-900">GST</CardTitle>
+                  <p className="text-sm text-slate-600 mt-2">
+                    Every rate above is ex-GST. GST is added on top of the final quote.
+                  </p>
+                </CardHeader>
+                <CardContent>
+                  <Label htmlFor="gstRate">GST rate (%)</Label>
+                  <Input
+                    id="gstRate"
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.5"
+                    value={toPercent(draft.gstRate)}
+                    onChange={(e) => updateDraft({ gstRate: fromPercent(parseFloat(e.target.value) || 0) })}
+                  />
+                  <FieldErrors errors={errors} prefix="gstRate" />
+                </CardContent>
+              </Card>
+
+              <Card className="border-0 shadow-sm">
+                <CardContent className="pt-6">
+                  <Label htmlFor="effectiveFrom">Effective from</Label>
+                  <Input
+                    id="effectiveFrom"
+                    type="date"
+                    value={effectiveFrom}
+                    onChange={(e) => setEffectiveFrom(e.target.value)}
+                  />
+                  <FieldErrors errors={errors} prefix="effectiveFrom" />
+                </CardContent>
+              </Card>
+
+              {status === 'success' && (
+                <Alert className="border-green-200 bg-green-50">
+                  <CheckCircle className="h-4 w-4 text-green-600" />
+                  <AlertDescription className="text-green-800">{message}</AlertDescription>
+                </Alert>
+              )}
+
+              {status === 'error' && (
+                <Alert className="border-red-200 bg-red-50">
+                  <XCircle className="h-4 w-4 text-red-600" />
+                  <AlertDescription className="text-red-800">{message}</AlertDescription>
+                </Alert>
+              )}
+
+              <div className="flex justify-center">
+                <Button
+                  onClick={handlePublish}
+                  disabled={status === 'saving' || errors.length > 0 || !effectiveFrom}
+                  className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2"
+                >
+                  {status === 'saving' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Publish Rate Card
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default RateSettingsAdmin;
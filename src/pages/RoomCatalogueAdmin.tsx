@@ -0,0 +1,270 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { CheckCircle, XCircle, Loader2, Plus, Trash2, LogOut, ArrowUp, ArrowDown } from 'lucide-react';
+import { staticPropertyTypes } from '@/lib/pricing';
+import { promotedRoom, validateRoomCatalogue, type CatalogueRoom } from '@/lib/roomCatalogue';
+import type { FieldError } from '@/lib/validation';
+import AdminSignIn from '@/components/AdminSignIn';
+import { adminAuthService } from '@/services/adminAuth';
+import { FunctionValidationError } from '@/services/edgeFunctions';
+import { roomCatalogueService } from '@/services/roomCatalogueService';
+import logoHeader from '/sparkle-space-logo-header.png';
+
+const RoomCatalogueAdmin = () => {
+  const [session, setSession] = useState(() => adminAuthService.getSession());
+  const [rooms, setRooms] = useState<CatalogueRoom[] | null>(null);
+  const [status, setStatus] = useState<'idle' | 'saving' | 'success' | 'error'>('idle');
+  const [message, setMessage] = useState('');
+  const [serverErrors, setServerErrors] = useState<FieldError[]>([]);
+
+  useEffect(() => {
+    if (!session) return;
+
+    roomCatalogueService.load().then(setRooms);
+  }, [session]);
+
+  const handleSignOut = () => {
+    adminAuthService.signOut();
+    setSession(null);
+    setRooms(null);
+  };
+
+  const updateRooms = (next: CatalogueRoom[]) => {
+    setRooms(next);
+    setStatus('idle');
+    setServerErrors([]);
+  };
+
+  const updateRoom = (index: number, changes: Partial<CatalogueRoom>) => {
+    if (!rooms) return;
+    updateRooms(rooms.map((room, i) => (i === index ? { ...room, ...changes } : room)));
+  };
+
+  const moveRoom = (index: number, offset: number) => {
+    if (!rooms) return;
+    const next = [...rooms];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    updateRooms(next);
+  };
+
+  // An empty list allows every property type, and is what we store whenever all are selected
+  const togglePropertyType = (index: number, propertyType: string) => {
+    const stored = rooms?.[index].propertyTypes ?? [];
+    const allowed = stored.length === 0 ? staticPropertyTypes : stored;
+    const next = allowed.includes(propertyType)
+      ? allowed.filter(type => type !== propertyType)
+      : [...allowed, propertyType];
+    updateRoom(index, { propertyTypes: next.length === staticPropertyTypes.length ? [] : next });
+  };
+
+  const handleSave = async () => {
+    if (!rooms || !session) return;
+
+    try {
+      setStatus('saving');
+      setServerErrors([]);
+      setRooms(await roomCatalogueService.save(rooms, session.accessToken));
+      setStatus('success');
+      setMessage('Room catalogue saved. Existing quotes keep the rooms and weights they were priced with.');
+    } catch (error) {
+      setStatus('error');
+      if (error instanceof FunctionValidationError) {
+        setServerErrors(error.fields);
+      }
+      setMessage(error instanceof Error ? error.message : 'Failed to save room catalogue');
+    }
+  };
+
+  const errors = rooms ? [...validateRoomCatalogue(rooms), ...serverErrors] : [];
+  const errorsFor = (index: number) => errors.filter(error => error.field.startsWith(`rooms[${index}]`));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b border-slate-200">
+        <div className="px-4 py-2">
+          <div className="flex items-center justify-center max-w-4xl mx-auto">
+            <img src={logoHeader} alt="Sparkle Space Logo" className="h-12 object-contain" />
+          </div>
+        </div>
+      </header>
+
+      <main className="px-4 py-8">
+        <div className="max-w-4xl mx-auto space-y-6">
+          <div className="text-center">
+            <h2 className="text-3xl font-bold text-slate-900 mb-2">Room Catalogue</h2>
+            <Link to="/" className="text-sm text-blue-600 hover:underline">Back to calculator</Link>
+          </div>
+
+          {!session && (
+            <AdminSignIn description="Only admins can change the rooms offered by the calculator." onSignIn={setSession} />
+          )}
+
+          {session && !rooms && (
+            <div className="text-center">
+              <Loader2 className="h-8 w-8 animate-spin mx-auto text-blue-600" />
+            </div>
+          )}
+
+          {session && rooms && (
+            <>
+              <div className="flex items-center justify-between text-sm text-slate-600">
+                <span>Signed in as {session.email}</span>
+                <Button variant="ghost" size="sm" onClick={handleSignOut}>
+                  <LogOut className="h-4 w-4 mr-2" />
+                  Sign out
+                </Button>
+              </div>
+
+              <Card className="border-0 shadow-sm">
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-lg font-semibold text-slate-900">Rooms</CardTitle>
+                  <CardDescription>
+                    Core rooms are always listed; optional rooms are added per quote. A room limited to some
+                    property types is hidden and cleared for the others.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <div className="grid grid-cols-12 gap-2 text-sm font-medium text-slate-600 pb-2 border-b">
+                    <div className="col-span-3">Room Type</div>
+                    <div className="col-span-1 text-center">Weight</div>
+                    <div className="col-span-1 text-center">Count</div>
+                    <div className="col-span-1 text-center">Qty %</div>
+                    <div className="col-span-2 text-center">Listing</div>
+                    <div className="col-span-2 text-center">Property Types</div>
+                    <div className="col-span-2"></div>
+                  </div>
+
+                  {rooms.map((room, index) => (
+                    <div key={index} className="space-y-1">
+                      <div className="grid grid-cols-12 gap-2 items-center">
+                        <div className="col-span-3">
+                          <Input
+                            value={room.name}
+                            onChange={(e) => updateRoom(index, { name: e.target.value })}
+                            className="h-8"
+                          />
+                        </div>
+                        <div className="col-span-1">
+                          <Input
+                            type="number"
+                            min="0"
+                            step="0.25"
+                            value={room.weight}
+                            onChange={(e) => updateRoom(index, { weight: parseFloat(e.target.value) || 0 })}
+                            className="text-center h-8 px-1"
+                          />
+                        </div>
+                        <div className="col-span-1">
+                          <Input
+                            type="number"
+                            min="0"
+                            value={room.defaultCount}
+                            onChange={(e) => updateRoom(index, { defaultCount: parseInt(e.target.value) || 0 })}
+                            className="text-center h-8 px-1"
+                          />
+                        </div>
+                        <div className="col-span-1">
+                          <Input
+                            type="number"
+                            min="0"
+                            max="100"
+                            value={room.defaultPercentage}
+                            onChange={(e) => updateRoom(index, { defaultPercentage: parseFloat(e.target.value) || 0 })}
+                            className="text-center h-8 px-1"
+                          />
+                        </div>
+                        <div className="col-span-2">
+                          <Button
+                            variant={room.isCore ? 'default' : 'outline'}
+                            size="sm"
+                            className="w-full h-8"
+                            onClick={() => updateRoom(index, { isCore: !room.isCore })}
+                          >
+                            {room.isCore ? 'Core' : 'Optional'}
+                          </Button>
+                        </div>
+                        <div className="col-span-2 flex gap-1">
+                          {staticPropertyTypes.map((propertyType) => (
+                            <Button
+                              key={propertyType}
+                              variant={room.propertyTypes.length === 0 || room.propertyTypes.includes(propertyType) ? 'default' : 'outline'}
+                              size="sm"
+                              className="flex-1 h-8 px-1 text-xs"
+                              title={room.propertyTypes.length === 0 ? 'Allowed for every property type' : undefined}
+                              onClick={() => togglePropertyType(index, propertyType)}
+                            >
+                              {propertyType}
+                            </Button>
+                          ))}
+                        </div>
+                        <div className="col-span-2 flex justify-end">
+                          <Button variant="ghost" size="sm" title="Move up" disabled={index === 0} onClick={() => moveRoom(index, -1)}>
+                            <ArrowUp className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" title="Move down" disabled={index === rooms.length - 1} onClick={() => moveRoom(index, 1)}>
+                            <ArrowDown className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" title="Remove room" onClick={() => updateRooms(rooms.filter((_, i) => i !== index))}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                      {errorsFor(index).length > 0 && (
+                        <ul className="text-xs text-red-600 space-y-1">
+                          {errorsFor(index).map((error) => (
+                            <li key={error.field}>{error.message}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  ))}
+
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateRooms([...rooms, promotedRoom(`Room ${rooms.length + 1}`, 1)])}
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add room
+                  </Button>
+                </CardContent>
+              </Card>
+
+              {status === 'success' && (
+                <Alert className="border-green-200 bg-green-50">
+                  <CheckCircle className="h-4 w-4 text-green-600" />
+                  <AlertDescription className="text-green-800">{message}</AlertDescription>
+                </Alert>
+              )}
+
+              {status === 'error' && (
+                <Alert className="border-red-200 bg-red-50">
+                  <XCircle className="h-4 w-4 text-red-600" />
+                  <AlertDescription className="text-red-800">{message}</AlertDescription>
+                </Alert>
+              )}
+
+              <div className="flex justify-center">
+                <Button
+                  onClick={handleSave}
+                  disabled={status === 'saving' || errors.length > 0}
+                  className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2"
+                >
+                  {status === 'saving' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Save Room Catalogue
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default RoomCatalogueAdmin;
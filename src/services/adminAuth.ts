@@ -0,0 +1,62 @@
+import { supabaseAnonKey, supabaseUrl } from './edgeFunctions';
+
+export interface AdminSession {
+  accessToken: string;
+  email: string;
+  expiresAt: number; // Unix seconds
+}
+
+const SESSION_STORAGE_KEY = 'ss-admin-session';
+
+// Email/password sign-in against Supabase Auth for the admin pages.
+// The access token is forwarded to edge functions, where the admin policies check the user's role.
+export class AdminAuthService {
+  getSession(): AdminSession | null {
+    const raw = sessionStorage.getItem(SESSION_STORAGE_KEY);
+    if (!raw) return null;
+
+    try {
+      const session: AdminSession = JSON.parse(raw);
+      if (session.expiresAt * 1000 <= Date.now()) {
+        this.signOut();
+        return null;
+      }
+      return session;
+    } catch {
+      this.signOut();
+      return null;
+    }
+  }
+
+  async signIn(email: string, password: string): Promise<AdminSession> {
+    const response = await fetch(`${supabaseUrl}/auth/v1/token?grant_type=password`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'apikey': supabaseAnonKey,
+      },
+      body: JSON.stringify({ email, password }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error_description || errorData.msg || `Sign in failed: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    const session: AdminSession = {
+      accessToken: data.access_token,
+      email: data.user?.email || email,
+      expiresAt: data.expires_at || Math.floor(Date.now() / 1000) + data.expires_in,
+    };
+
+    sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+    return session;
+  }
+
+  signOut(): void {
+    sessionStorage.removeItem(SESSION_STORAGE_KEY);
+  }
+}
+
+export const adminAuthService = new AdminAuthService();
@@ -0,0 +1,54 @@
+import { staticDepots, type Depot } from '@/lib/depots';
+import { functionHeaders, functionUrl, toFunctionError } from './edgeFunctions';
+
+const CACHE_STORAGE_KEY = 'ss-depots';
+
+export class DepotService {
+  // Never throws: offline the calculator uses the last fetched depots, or the built-in depot
+  async load(): Promise<Depot[]> {
+    try {
+      const response = await fetch(functionUrl('depots'), {
+        method: 'GET',
+        headers: functionHeaders(),
+      });
+
+      if (!response.ok) {
+        throw await toFunctionError(response);
+      }
+
+      const { depots } = await response.json();
+      localStorage.setItem(CACHE_STORAGE_KEY, JSON.stringify(depots));
+      return depots;
+    } catch (error) {
+      console.warn('Could not load depots, falling back:', error);
+    }
+
+    try {
+      const cached = localStorage.getItem(CACHE_STORAGE_KEY);
+      if (cached) return JSON.parse(cached);
+    } catch (error) {
+      console.warn('Ignoring unreadable cached depots:', error);
+    }
+
+    return staticDepots;
+  }
+
+  // Replace the whole list; depots left out are removed
+  async save(depots: Depot[], accessToken: string): Promise<Depot[]> {
+    const response = await fetch(functionUrl('depots'), {
+      method: 'PUT',
+      headers: functionHeaders(accessToken),
+      body: JSON.stringify({ depots }),
+    });
+
+    if (!response.ok) {
+      throw await toFunctionError(response);
+    }
+
+    const { depots: saved } = await response.json();
+    localStorage.setItem(CACHE_STORAGE_KEY, JSON.stringify(saved));
+    return saved;
+  }
+}
+
+export const depotService = new DepotService();
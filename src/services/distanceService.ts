@@ -0,0 +1,46 @@
+import {
+  distanceErrorMessages,
+  isDistanceErrorCode,
+  type DistanceErrorCode,
+  type DistanceLookup,
+} from '@/lib/distance';
+import { functionHeaders, functionUrl } from './edgeFunctions';
+
+// A failed lookup; the message is the one to show the stylist, the code says what went wrong
+export class DistanceLookupError extends Error {
+  code: DistanceErrorCode;
+
+  constructor(code: DistanceErrorCode) {
+    super(distanceErrorMessages[code]);
+    this.name = 'DistanceLookupError';
+    this.code = code;
+  }
+}
+
+export class DistanceService {
+  // Driving distance from every depot a route was found from; throws DistanceLookupError whenever there is no distance to use
+  async lookup(destination: string): Promise<DistanceLookup> {
+    let response: Response;
+    try {
+      response = await fetch(functionUrl('distance'), {
+        method: 'POST',
+        headers: functionHeaders(),
+        body: JSON.stringify({ destination }),
+      });
+    } catch (error) {
+      console.warn('Distance lookup request failed:', error);
+      throw new DistanceLookupError('provider_unavailable');
+    }
+
+    const body = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      console.warn('Distance lookup failed:', body?.error ?? `HTTP ${response.status}`);
+      throw new DistanceLookupError(isDistanceErrorCode(body?.code) ? body.code : 'provider_unavailable');
+    }
+
+    return body;
+  }
+}
+
+export const distanceService = new DistanceService();
@@ -0,0 +1,62 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { defaultCalculatorState, type CalculatorState } from '@/lib/calculatorState';
+import { DraftService } from '@/services/draftService';
+
+const stateAt = (propertyAddress: string, roomRate = 400): CalculatorState => {
+  const state = defaultCalculatorState();
+  return { ...state, formData: { ...state.formData, propertyAddress, roomRate } };
+};
+
+describe('DraftService.save', () => {
+  let drafts: DraftService;
+
+  beforeEach(() => {
+    const stored = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => stored.get(key) ?? null,
+      setItem: (key: string, value: string) => stored.set(key, value),
+    });
+    drafts = new DraftService();
+  });
+
+  it('keys a draft on its address, ignoring case and spacing', () => {
+    const first = drafts.save(stateAt('1 Test St'));
+    const again = drafts.save(stateAt(' 1  test st', 450), first.key);
+
+    expect(again.key).toBe('1 test st');
+    expect(drafts.list()).toHaveLength(1);
+  });
+
+  it('gives each untitled calculator its own draft', () => {
+    const first = drafts.save(stateAt(''));
+    const second = drafts.save(stateAt(''));
+
+    expect(first.key).not.toBe(second.key);
+    expect(drafts.list().map(draft => draft.name)).toEqual(['Untitled draft', 'Untitled draft']);
+  });
+
+  it('moves a draft with its address', () => {
+    const untitled = drafts.save(stateAt(''));
+    const moved = drafts.save(stateAt('1 Test St'), untitled.key);
+
+    expect(moved.key).toBe('1 test st');
+    expect(drafts.list().map(draft => draft.key)).toEqual(['1 test st']);
+  });
+
+  it('leaves a draft where it is rather than replace another draft with the same address', () => {
+    const other = drafts.save(stateAt('1 Test St', 350));
+    const untitled = drafts.save(stateAt(''));
+    const kept = drafts.save(stateAt('1 Test St', 500), untitled.key);
+
+    expect(kept.key).toBe(untitled.key);
+    expect(drafts.list().find(draft => draft.key === other.key)?.state.formData.roomRate).toBe(350);
+  });
+
+  it('starts a new draft when a new calculator reaches an address that has one', () => {
+    drafts.save(stateAt('1 Test St', 350));
+    const fresh = drafts.save(stateAt('1 Test St', 500));
+
+    expect(fresh.key).not.toBe('1 test st');
+    expect(drafts.list()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,106 @@
+import type { CalculatorState } from '@/lib/calculatorState';
+
+// A calculator session autosaved to this browser, keyed on its property address where it has one
+export interface QuoteDraft {
+  key: string;
+  name: string;
+  updatedAt: string;
+  state: CalculatorState;
+}
+
+const DRAFTS_STORAGE_KEY = 'ss-quote-drafts';
+
+// Typing the same address with different spacing or case should land on the same draft
+export const draftKeyFor = (address: string): string =>
+  address.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Drafts without an address, or whose address another draft already has, get a key of their own
+const newDraftKey = (): string => `draft:${crypto.randomUUID()}`;
+
+const defaultDraftName = (state: CalculatorState): string =>
+  state.formData.propertyAddress.trim() || 'Untitled draft';
+
+export class DraftService {
+  private listeners = new Set<() => void>();
+
+  // Newest first. Never throws: unreadable storage just means there are no drafts.
+  list(): QuoteDraft[] {
+    return Object.values(this.read()).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  // Saves under the state's address. Pass the key the last save returned, so the draft moves with
+  // the address as it changes, keeping its name, instead of leaving one draft behind per keystroke.
+  // A draft never replaces another one: while its address is taken it stays where it was.
+  save(state: CalculatorState, previousKey?: string): QuoteDraft {
+    const drafts = this.read();
+    const addressKey = draftKeyFor(state.formData.propertyAddress) || undefined;
+    const key = addressKey !== undefined && (addressKey === previousKey || !drafts[addressKey])
+      ? addressKey
+      : previousKey ?? newDraftKey();
+    const existing = drafts[previousKey ?? key];
+
+    if (previousKey !== undefined && previousKey !== key) {
+      delete drafts[previousKey];
+    }
+
+    const draft: QuoteDraft = {
+      key,
+      name: existing && existing.name !== defaultDraftName(existing.state) ? existing.name : defaultDraftName(state),
+      updatedAt: new Date().toISOString(),
+      state,
+    };
+    drafts[key] = draft;
+    this.write(drafts);
+    return draft;
+  }
+
+  rename(key: string, name: string): void {
+    const drafts = this.read();
+    if (!drafts[key]) return;
+
+    drafts[key] = { ...drafts[key], name: name.trim() || defaultDraftName(drafts[key].state) };
+    this.write(drafts);
+  }
+
+  discard(key: string): void {
+    const drafts = this.read();
+    delete drafts[key];
+    this.write(drafts);
+  }
+
+  // Called whenever drafts change in this tab or another one
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === DRAFTS_STORAGE_KEY) listener();
+    };
+    window.addEventListener('storage', onStorage);
+
+    return () => {
+      this.listeners.delete(listener);
+      window.removeEventListener('storage', onStorage);
+    };
+  }
+
+  private read(): Record<string, QuoteDraft> {
+    try {
+      const stored = localStorage.getItem(DRAFTS_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.warn('Ignoring unreadable quote drafts:', error);
+      return {};
+    }
+  }
+
+  private write(drafts: Record<string, QuoteDraft>): void {
+    try {
+      localStorage.setItem(DRAFTS_STORAGE_KEY, JSON.stringify(drafts));
+    } catch (error) {
+      // Storage full or disabled: the calculator keeps working, it just can't be resumed
+      console.warn('Could not save quote drafts:', error);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const draftService = new DraftService();
@@ -0,0 +1,35 @@
+import type { FieldError, ValidationErrorBody } from '@/lib/validation';
+
+// Where the browser reaches our Supabase project and its edge functions
+export const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || 'https://xfnbyqqejpnfupbkspck.supabase.co';
+export const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+export const functionUrl = (name: string): string => `${supabaseUrl}/functions/v1/${name}`;
+
+// Requests carry the anon key unless a signed-in admin's access token is given
+export const functionHeaders = (accessToken?: string): HeadersInit => ({
+  'Content-Type': 'application/json',
+  'Authorization': `Bearer ${accessToken || supabaseAnonKey}`,
+});
+
+// A 422 from an edge function, carrying the fields it rejected
+export class FunctionValidationError extends Error {
+  fields: FieldError[];
+
+  constructor(body: ValidationErrorBody) {
+    super(body.fields.map(field => `${field.field}: ${field.message}`).join('; ') || body.error);
+    this.name = 'FunctionValidationError';
+    this.fields = body.fields;
+  }
+}
+
+// Turn a failed edge function response into an Error with the most useful message available
+export const toFunctionError = async (response: Response): Promise<Error> => {
+  const body = await response.json().catch(() => null);
+
+  if (response.status === 422 && body?.fields) {
+    return new FunctionValidationError(body);
+  }
+
+  return new Error(body?.error || `HTTP error! status: ${response.status}`);
+};
@@ -1,107 +1,88 @@
-import { Client } from '@notionhq/client';
-
-interface RoomData {
-  [key: string]: {
-    count: number;
-    percentage: number;
-    weight: number;
-  };
-}
-
-interface CalculatorFormData {
-  propertyType: string;
-  styling: string;
-  propertyAddress: string;
-  distanceFromWarehouse: number;
-  listingPrice: number;
-  accessDifficulty: string;
-  roomRate: number;
-  rooms: RoomData;
-}
-
-interface QuoteCalculations {
-  equivalentRooms: number;
-  baseQuote: number;
-  variation: number;
-  finalQuote: number;
-}
-
-interface NotionQuoteData {
-  formData: CalculatorFormData;
-  calculations: QuoteCalculations;
-}
+import type { NotionConnection, NotionQuoteStatus, NotionSubmitResult } from '@/lib/notion';
+import type { QuoteSyncConflict, QuoteSyncResult } from '@/lib/quoteSync';
+import { functionHeaders, functionUrl, toFunctionError } from './edgeFunctions';
+import type { QuoteSubmission } from './quoteService';
 
+// Talks to Notion through our edge functions, which hold the Notion token; the browser never sees it
 export class NotionService {
-  private notion: Client;
-  private databaseId: string;
-
-  constructor() {
-    const notionToken = import.meta.env.VITE_NOTION_TOKEN;
-    const databaseId = import.meta.env.VITE_NOTION_DATABASE_ID;
+  // Saves the quote and creates its Notion row, or updates the row when the quote was sent before.
+  // Throws FunctionValidationError when the server's repricing rejects the quote.
+  async submit(submission: QuoteSubmission, accessToken?: string): Promise<NotionSubmitResult> {
+    const response = await fetch(functionUrl('submit-quote'), {
+      method: 'POST',
+      headers: functionHeaders(accessToken),
+      body: JSON.stringify(submission),
+    });
 
-    if (!notionToken) {
-      throw new Error('VITE_NOTION_TOKEN environment variable is required');
+    if (!response.ok) {
+      throw await toFunctionError(response);
     }
 
-    if (!databaseId) {
-      throw new Error('VITE_NOTION_DATABASE_ID environment variable is required');
-    }
+    return response.json();
+  }
 
-    this.notion = new Client({
-      auth: notionToken,
+  // The quote's Notion row and its Status, with nulls when it hasn't been sent
+  async status(quoteId: string): Promise<NotionQuoteStatus> {
+    const params = new URLSearchParams({ quoteId });
+    const response = await fetch(`${functionUrl('notion-status')}?${params}`, {
+      method: 'GET',
+      headers: functionHeaders(),
     });
-    this.databaseId = databaseId;
-  }
 
-  async submitQuote(data: NotionQuoteData): Promise<void> {
-    try {
-      await this.notion.pages.create({
-        parent: {
-          database_id: this.databaseId,
-        },
-        properties: {
-          'Date Sent': {
-            date: {
-              start: new Date().toISOString(),
-            },
-          },
-          'Property Address': {
-            rich_text: [
-              {
-                text: {
-                  content: data.formData.propertyAddress || 'Not provided',
-                },
-              },
-            ],
-          },
-          'Amount (+GST)': {
-            number: data.calculations.finalQuote,
-          },
-        },
-      });
-    } catch (error) {
-      console.error('Error submitting to Notion:', error);
-      throw new Error(
-        error instanceof Error 
-          ? `Failed to submit to Notion: ${error.message}`
-          : 'Failed to submit to Notion: Unknown error'
-      );
+    if (!response.ok) {
+      throw await toFunctionError(response);
     }
+
+    return response.json();
   }
 
-  // Method to test the connection
-  async testConnection(): Promise<boolean> {
+  // Whether the edge functions can reach the Quotes database; never throws
+  async testConnection(): Promise<NotionConnection> {
     try {
-      await this.notion.databases.retrieve({
-        database_id: this.databaseId,
+      const response = await fetch(functionUrl('notion-status'), {
+        method: 'GET',
+        headers: functionHeaders(),
       });
-      return true;
+
+      if (!response.ok) {
+        throw await toFunctionError(response);
+      }
+
+      return await response.json();
     } catch (error) {
       console.error('Notion connection test failed:', error);
-      return false;
+      return { connected: false, databaseTitle: null, error: error instanceof Error ? error.message : 'Unknown error occurred' };
+    }
+  }
+
+  // Pulls Status and Follow-Up from the Quotes database onto saved quotes now, rather than waiting for the schedule
+  async sync(accessToken: string): Promise<QuoteSyncResult> {
+    const response = await fetch(functionUrl('notion-sync'), {
+      method: 'POST',
+      headers: functionHeaders(accessToken),
+    });
+
+    if (!response.ok) {
+      throw await toFunctionError(response);
     }
+
+    return response.json();
+  }
+
+  // Notion rows the last sync couldn't apply, newest first
+  async conflicts(accessToken: string): Promise<QuoteSyncConflict[]> {
+    const response = await fetch(functionUrl('notion-sync'), {
+      method: 'GET',
+      headers: functionHeaders(accessToken),
+    });
+
+    if (!response.ok) {
+      throw await toFunctionError(response);
+    }
+
+    const { conflicts } = await response.json();
+    return conflicts;
   }
 }
 
-// Export a singleton instance
-export const notionService = new NotionService();
\ No newline at end of file
+export const notionService = new NotionService();
@@ -0,0 +1,56 @@
+import type { CalculatorFormData, QuoteCalculations } from '@/lib/pricing';
+import type { QuoteOption } from '@/lib/quoteOptions';
+import type { QuoteFilters, SavedQuote } from '@/lib/quotes';
+import { functionHeaders, functionUrl, toFunctionError } from './edgeFunctions';
+
+export interface QuoteSubmission {
+  quoteId?: string;
+  // From the save that created the quote; without it (or an admin session) the server saves a new quote
+  editToken?: string;
+  formData: CalculatorFormData;
+  calculations: QuoteCalculations;
+  rateCardId: string;
+  // With options, formData and calculations are the accepted (or first) option's
+  options?: QuoteOption[];
+  acceptedOption?: number | null;
+}
+
+export class QuoteService {
+  // Creates the quote, or updates it when quoteId is set and the caller may. The server reprices before storing.
+  async save(submission: QuoteSubmission, accessToken?: string): Promise<SavedQuote> {
+    const response = await fetch(functionUrl('quotes'), {
+      method: 'POST',
+      headers: functionHeaders(accessToken),
+      body: JSON.stringify(submission),
+    });
+
+    if (!response.ok) {
+      throw await toFunctionError(response);
+    }
+
+    const { quote } = await response.json();
+    return quote;
+  }
+
+  // Quote history is admin-only, so listing needs a signed-in admin's access token
+  async list(filters: QuoteFilters, accessToken: string): Promise<SavedQuote[]> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(filters)) {
+      if (value) params.set(key, String(value));
+    }
+
+    const response = await fetch(`${functionUrl('quotes')}?${params}`, {
+      method: 'GET',
+      headers: functionHeaders(accessToken),
+    });
+
+    if (!response.ok) {
+      throw await toFunctionError(response);
+    }
+
+    const { quotes } = await response.json();
+    return quotes;
+  }
+}
+
+export const quoteService = new QuoteService();
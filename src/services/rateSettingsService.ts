@@ -0,0 +1,78 @@
+import type { RateSettings } from '@/lib/pricing';
+import {
+  parseRateCard,
+  selectCurrentRateCard,
+  serializeRateSettings,
+  staticRateCard,
+  type RateCard,
+  type StoredRateCard,
+} from '@/lib/rateSettings';
+import { functionHeaders, functionUrl, toFunctionError } from './edgeFunctions';
+
+// Where the cards in use came from: freshly fetched, the last fetched copy, or the built-in default card
+export type RateSettingsSource = 'remote' | 'cached' | 'static';
+
+export interface LoadedRateCards {
+  cards: RateCard[];
+  current: RateCard;
+  source: RateSettingsSource;
+}
+
+const CACHE_STORAGE_KEY = 'ss-rate-cards';
+
+const toLoadedRateCards = (storedCards: StoredRateCard[], source: RateSettingsSource): LoadedRateCards => {
+  const cards = storedCards.map(parseRateCard);
+  return { cards, current: selectCurrentRateCard(cards) ?? staticRateCard, source };
+};
+
+export class RateSettingsService {
+  // Never throws: offline or on any error the calculator falls back to the last cached or static cards
+  async load(): Promise<LoadedRateCards> {
+    try {
+      const response = await fetch(functionUrl('rate-settings'), {
+        method: 'GET',
+        headers: functionHeaders(),
+      });
+
+      if (!response.ok) {
+        throw await toFunctionError(response);
+      }
+
+      const { cards } = await response.json();
+      const loaded = toLoadedRateCards(cards, 'remote');
+      localStorage.setItem(CACHE_STORAGE_KEY, JSON.stringify(cards));
+      return loaded;
+    } catch (error) {
+      console.warn('Could not load rate cards, falling back:', error);
+    }
+
+    try {
+      const cached = localStorage.getItem(CACHE_STORAGE_KEY);
+      if (cached) {
+        return toLoadedRateCards(JSON.parse(cached), 'cached');
+      }
+    } catch (error) {
+      console.warn('Ignoring unreadable cached rate cards:', error);
+    }
+
+    return { cards: [staticRateCard], current: staticRateCard, source: 'static' };
+  }
+
+  // Publish a new card; existing cards are never modified so old quotes keep their prices
+  async publish(effectiveFrom: string, settings: RateSettings, accessToken: string): Promise<RateCard> {
+    const response = await fetch(functionUrl('rate-settings'), {
+      method: 'POST',
+      headers: functionHeaders(accessToken),
+      body: JSON.stringify({ effectiveFrom, settings: serializeRateSettings(settings) }),
+    });
+
+    if (!response.ok) {
+      throw await toFunctionError(response);
+    }
+
+    const { card } = await response.json();
+    return parseRateCard(card);
+  }
+}
+
+export const rateSettingsService = new RateSettingsService();
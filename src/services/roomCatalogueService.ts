@@ -0,0 +1,71 @@
+import type { CatalogueRoom } from '@/lib/roomCatalogue';
+import { staticRoomCatalogue } from '@/lib/rooms';
+import { functionHeaders, functionUrl, toFunctionError } from './edgeFunctions';
+
+const CACHE_STORAGE_KEY = 'ss-room-catalogue';
+
+export class RoomCatalogueService {
+  // Never throws: offline the calculator uses the last fetched catalogue, or the built-in rooms
+  async load(): Promise<CatalogueRoom[]> {
+    try {
+      const response = await fetch(functionUrl('room-catalogue'), {
+        method: 'GET',
+        headers: functionHeaders(),
+      });
+
+      if (!response.ok) {
+        throw await toFunctionError(response);
+      }
+
+      const { rooms } = await response.json();
+      localStorage.setItem(CACHE_STORAGE_KEY, JSON.stringify(rooms));
+      return rooms;
+    } catch (error) {
+      console.warn('Could not load room catalogue, falling back:', error);
+    }
+
+    try {
+      const cached = localStorage.getItem(CACHE_STORAGE_KEY);
+      if (cached) return JSON.parse(cached);
+    } catch (error) {
+      console.warn('Ignoring unreadable cached room catalogue:', error);
+    }
+
+    return staticRoomCatalogue;
+  }
+
+  // Promote a custom room so every later quote can pick it from the optional rooms
+  async promote(room: Pick<CatalogueRoom, 'name' | 'weight'>, accessToken: string): Promise<CatalogueRoom> {
+    const response = await fetch(functionUrl('room-catalogue'), {
+      method: 'POST',
+      headers: functionHeaders(accessToken),
+      body: JSON.stringify(room),
+    });
+
+    if (!response.ok) {
+      throw await toFunctionError(response);
+    }
+
+    const { room: promoted } = await response.json();
+    return promoted;
+  }
+
+  // Replace the whole catalogue; rooms left out are removed from it
+  async save(rooms: CatalogueRoom[], accessToken: string): Promise<CatalogueRoom[]> {
+    const response = await fetch(functionUrl('room-catalogue'), {
+      method: 'PUT',
+      headers: functionHeaders(accessToken),
+      body: JSON.stringify({ rooms }),
+    });
+
+    if (!response.ok) {
+      throw await toFunctionError(response);
+    }
+
+    const { rooms: saved } = await response.json();
+    localStorage.setItem(CACHE_STORAGE_KEY, JSON.stringify(saved));
+    return saved;
+  }
+}
+
+export const roomCatalogueService = new RoomCatalogueService();
@@ -0,0 +1,45 @@
+// Reads and writes public.depots. Deno only.
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { staticDepots, type Depot } from './depots.ts'
+
+export interface DepotRow {
+  id: string
+  name: string
+  address: string
+  sort_order: number
+}
+
+export const DEPOT_COLUMNS = 'id, name, address, sort_order'
+
+export const toDepot = (row: DepotRow): Depot => ({
+  id: row.id,
+  name: row.name,
+  address: row.address,
+})
+
+export const toDepotRow = (depot: Depot, sortOrder: number): DepotRow => ({
+  id: depot.id,
+  name: depot.name.trim(),
+  address: depot.address.trim(),
+  sort_order: sortOrder,
+})
+
+// Every depot in display order. Falls back to the built-in depot when none can be read.
+export async function loadDepots(client: SupabaseClient): Promise<Depot[]> {
+  const { data, error } = await client
+    .from('depots')
+    .select(DEPOT_COLUMNS)
+    .order('sort_order', { ascending: true })
+    .order('name', { ascending: true })
+
+  if (error) {
+    console.error('Error loading depots, using the built-in depot:', error)
+    return staticDepots
+  }
+
+  if (!data || data.length === 0) {
+    return staticDepots
+  }
+
+  return (data as DepotRow[]).map(toDepot)
+}
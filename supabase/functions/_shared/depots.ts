@@ -0,0 +1,66 @@
+// Depots quotes are measured from, and the checks the admin page's list has to pass.
+// Shared with the browser, which picks the nearest depot from the distance function's answer.
+
+import { MIN_ADDRESS_LENGTH } from './distance.ts';
+import type { FieldError } from './validation.ts';
+
+export interface Depot {
+  // Stable key quotes and distance lookups refer to the depot by, kept when the name or address changes
+  id: string;
+  name: string;
+  address: string;
+}
+
+// Distance from one depot to a quote's property
+export interface DepotDistance {
+  depotId: string;
+  distanceKm: number;
+  durationMinutes: number | null;
+}
+
+export const MAX_DEPOT_NAME_LENGTH = 40;
+
+// Used until the saved depots arrive, and when none can be read
+export const staticDepots: Depot[] = [
+  { id: 'lidcombe', name: 'Lidcombe', address: '2/67 Mons Street, Lidcombe NSW 2141 Australia' },
+];
+
+// Depot ids are slugs of the name the depot was first saved with
+export const depotIdFromName = (name: string): string =>
+  name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+export const nearestDepotDistance = (distances: DepotDistance[]): DepotDistance | null =>
+  distances.reduce<DepotDistance | null>(
+    (nearest, distance) => (!nearest || distance.distanceKm < nearest.distanceKm ? distance : nearest),
+    null,
+  );
+
+// Checks the whole list as the admin page saves it
+export const validateDepots = (depots: Depot[]): FieldError[] => {
+  const errors: FieldError[] = [];
+
+  if (depots.length === 0) {
+    return [{ field: 'depots', message: 'At least one depot is required' }];
+  }
+
+  const ids = new Set<string>();
+  depots.forEach((depot, index) => {
+    const field = `depots[${index}]`;
+    const name = depot.name?.trim() ?? '';
+
+    if (!name || name.length > MAX_DEPOT_NAME_LENGTH) {
+      errors.push({ field: `${field}.name`, message: `Depot names must be 1 to ${MAX_DEPOT_NAME_LENGTH} characters` });
+    }
+    if ((depot.address?.trim() ?? '').length < MIN_ADDRESS_LENGTH) {
+      errors.push({ field: `${field}.address`, message: 'Enter the depot\'s full street address' });
+    }
+    if (!depot.id) {
+      errors.push({ field: `${field}.id`, message: 'Depot id is required' });
+    } else if (ids.has(depot.id)) {
+      errors.push({ field: `${field}.id`, message: `Depot id "${depot.id}" is used more than once` });
+    }
+    ids.add(depot.id);
+  });
+
+  return errors;
+};
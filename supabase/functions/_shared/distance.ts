@@ -0,0 +1,105 @@
+// Driving distance lookups, answered by the distance edge function.
+// Shared with the browser so the calculator can explain a failed lookup in the same terms.
+
+import type { DepotDistance } from './depots.ts';
+
+// Shorter input can't be told apart from a suburb or street name
+export const MIN_ADDRESS_LENGTH = 10;
+
+export type DistanceProviderName = 'google' | 'osrm' | 'graphhopper' | 'stub';
+
+export interface DistanceResult {
+  // Driving distance, rounded to 2 decimal places
+  distanceKm: number;
+  // Driving time, when the provider reports one
+  durationMinutes: number | null;
+  origin: string;
+  destination: string;
+  provider: DistanceProviderName;
+}
+
+// The distance function's answer: the distance from every depot a route was found from
+export interface DistanceLookup {
+  destination: string;
+  provider: DistanceProviderName;
+  distances: DepotDistance[];
+}
+
+export type DistanceErrorCode =
+  | 'invalid_address'      // Nothing worth looking up was sent
+  | 'address_not_found'    // The provider couldn't place the address
+  | 'no_route'             // Both ends were found but there is no driving route between them
+  | 'quota_exceeded'       // The provider is rate limiting us
+  | 'provider_unavailable' // The provider failed or didn't answer
+  | 'not_configured';      // The function is missing the provider's settings
+
+// Error body of a failed lookup, when no depot could be reached; 422 for invalid_address, otherwise a status matching the code
+export interface DistanceErrorBody {
+  error: string;
+  code: DistanceErrorCode;
+}
+
+// What the calculator tells the stylist; every one leaves the distance to be entered by hand
+export const distanceErrorMessages: { [code in DistanceErrorCode]: string } = {
+  invalid_address: 'Enter a full street address to calculate the distance.',
+  address_not_found: 'Could not find this address. Check it, or enter the distance manually.',
+  no_route: 'No driving route to this address. Enter the distance manually.',
+  quota_exceeded: 'Distance lookups are busy right now. Try again shortly, or enter the distance manually.',
+  provider_unavailable: 'The distance service is unavailable. Enter the distance manually.',
+  not_configured: 'Distance lookup is not set up. Enter the distance manually.',
+};
+
+export const distanceErrorStatus: { [code in DistanceErrorCode]: number } = {
+  invalid_address: 422,
+  address_not_found: 404,
+  no_route: 404,
+  quota_exceeded: 429,
+  provider_unavailable: 502,
+  not_configured: 500,
+};
+
+export const isDistanceErrorCode = (value: unknown): value is DistanceErrorCode =>
+  typeof value === 'string' && value in distanceErrorStatus;
+
+export const roundDistanceKm = (metres: number): number => Math.round((metres / 1000) * 100) / 100;
+
+// Street types as Australian addresses abbreviate them, so either spelling finds the same cache entry
+const ADDRESS_ABBREVIATIONS: { [word: string]: string } = {
+  st: 'street',
+  rd: 'road',
+  ave: 'avenue',
+  av: 'avenue',
+  dr: 'drive',
+  pde: 'parade',
+  cres: 'crescent',
+  cct: 'circuit',
+  pl: 'place',
+  ct: 'court',
+  cl: 'close',
+  hwy: 'highway',
+  tce: 'terrace',
+  ln: 'lane',
+  blvd: 'boulevard',
+  bvd: 'boulevard',
+  esp: 'esplanade',
+  gr: 'grove',
+  sq: 'square',
+};
+
+/**
+ * The key an address is cached under: lower case, without punctuation, street types spelled out
+ * and a trailing country dropped. "2/67 Mons St., Lidcombe NSW" and
+ * "2/67 mons street lidcombe nsw, Australia" share an entry.
+ */
+export const normaliseAddress = (address: string): string => {
+  const words = address
+    .toLowerCase()
+    .replace(/new south wales/g, 'nsw')
+    .replace(/[.,;#]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => ADDRESS_ABBREVIATIONS[word] ?? word);
+
+  if (words[words.length - 1] === 'australia') words.pop();
+  return words.join(' ');
+};
@@ -0,0 +1,106 @@
+// Shared cache of geocodes and driving distances in public.distance_cache and public.geocode_cache,
+// so the whole team reuses each lookup until it expires. Deno only.
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { normaliseAddress } from './distance.ts'
+import type { Coordinates, DistanceProvider, Geocoder } from './distanceProviders.ts'
+
+// Roads and addresses rarely change, so entries last a season unless DISTANCE_CACHE_TTL_DAYS says otherwise
+const DEFAULT_TTL_DAYS = 90
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface DistanceCache {
+  client: SupabaseClient
+  ttlDays: number
+}
+
+export function createDistanceCache(client: SupabaseClient): DistanceCache {
+  const ttlDays = Number(Deno.env.get('DISTANCE_CACHE_TTL_DAYS') || DEFAULT_TTL_DAYS)
+  return { client, ttlDays: Number.isFinite(ttlDays) && ttlDays > 0 ? ttlDays : DEFAULT_TTL_DAYS }
+}
+
+const expiresAt = (cache: DistanceCache) => new Date(Date.now() + cache.ttlDays * DAY_MS).toISOString()
+
+// A cache that can't be read or written only costs a provider call, so failures are logged and skipped
+export function withDistanceCache(provider: DistanceProvider, cache: DistanceCache): DistanceProvider {
+  return {
+    name: provider.name,
+    async distance(origin, destination) {
+      const key = {
+        provider: provider.name,
+        origin_key: normaliseAddress(origin),
+        destination_key: normaliseAddress(destination),
+      }
+
+      const { data, error } = await cache.client
+        .from('distance_cache')
+        .select('distance_km, duration_minutes')
+        .match(key)
+        .gt('expires_at', new Date().toISOString())
+        .maybeSingle()
+
+      if (error) {
+        console.warn('Could not read the distance cache:', error.message)
+      } else if (data) {
+        return {
+          distanceKm: Number(data.distance_km),
+          durationMinutes: data.duration_minutes,
+          origin,
+          destination,
+          provider: provider.name,
+        }
+      }
+
+      const result = await provider.distance(origin, destination)
+
+      const { error: writeError } = await cache.client
+        .from('distance_cache')
+        .upsert({
+          ...key,
+          distance_km: result.distanceKm,
+          duration_minutes: result.durationMinutes,
+          expires_at: expiresAt(cache),
+        })
+
+      if (writeError) {
+        console.warn('Could not write the distance cache:', writeError.message)
+      }
+
+      return result
+    },
+  }
+}
+
+export function withGeocodeCache(geocoder: Geocoder, cache: DistanceCache): Geocoder {
+  return {
+    name: geocoder.name,
+    async geocode(address): Promise<Coordinates> {
+      const key = { geocoder: geocoder.name, address_key: normaliseAddress(address) }
+
+      const { data, error } = await cache.client
+        .from('geocode_cache')
+        .select('lat, lon')
+        .match(key)
+        .gt('expires_at', new Date().toISOString())
+        .maybeSingle()
+
+      if (error) {
+        console.warn('Could not read the geocode cache:', error.message)
+      } else if (data) {
+        return { lat: Number(data.lat), lon: Number(data.lon) }
+      }
+
+      const coordinates = await geocoder.geocode(address)
+
+      const { error: writeError } = await cache.client
+        .from('geocode_cache')
+        .upsert({ ...key, lat: coordinates.lat, lon: coordinates.lon, expires_at: expiresAt(cache) })
+
+      if (writeError) {
+        console.warn('Could not write the geocode cache:', writeError.message)
+      }
+
+      return coordinates
+    },
+  }
+}
@@ -0,0 +1,264 @@
+// Routing providers behind the distance edge function. Deno only.
+// DISTANCE_PROVIDER picks one: google (the default), osrm, graphhopper or stub.
+import {
+  roundDistanceKm,
+  type DistanceErrorCode,
+  type DistanceProviderName,
+  type DistanceResult,
+} from './distance.ts'
+import { withDistanceCache, withGeocodeCache, type DistanceCache } from './distanceCache.ts'
+
+// Providers that don't answer in this long are treated as unavailable
+const PROVIDER_TIMEOUT_MS = 8000
+
+export class DistanceError extends Error {
+  code: DistanceErrorCode
+
+  constructor(code: DistanceErrorCode, message: string) {
+    super(message)
+    this.name = 'DistanceError'
+    this.code = code
+  }
+}
+
+export interface DistanceProvider {
+  name: DistanceProviderName
+  // Driving distance between two addresses; throws DistanceError when it can't be found
+  distance(origin: string, destination: string): Promise<DistanceResult>
+}
+
+export interface Coordinates {
+  lat: number
+  lon: number
+}
+
+// Places an address, for the routing engines that only take coordinates
+export interface Geocoder {
+  name: string
+  geocode(address: string): Promise<Coordinates>
+}
+
+// The parts of each provider's responses we read
+interface GoogleDistanceMatrixResponse {
+  status: string
+  error_message?: string
+  rows?: { elements?: { status: string; distance?: { value: number }; duration?: { value: number } }[] }[]
+}
+
+type NominatimResponse = { lat: string; lon: string }[]
+
+interface OsrmRouteResponse {
+  code?: string
+  routes?: { distance: number; duration: number }[]
+}
+
+interface GraphHopperGeocodeResponse {
+  hits?: { point: { lat: number; lng: number } }[]
+}
+
+interface GraphHopperRouteResponse {
+  message?: string
+  paths?: { distance: number; time: number }[]
+}
+
+async function fetchJson<T>(url: string, init: RequestInit = {}): Promise<T> {
+  let response: Response
+  try {
+    response = await fetch(url, { ...init, signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS) })
+  } catch (error) {
+    throw new DistanceError('provider_unavailable', `Request to ${new URL(url).host} failed: ${error instanceof Error ? error.message : error}`)
+  }
+
+  if (response.status === 429) {
+    throw new DistanceError('quota_exceeded', `${new URL(url).host} is rate limiting requests`)
+  }
+
+  const body = await response.json().catch(() => null)
+
+  // Routing engines answer 400 with a JSON body when there is no route, so leave those to the caller
+  if (!body || response.status >= 500) {
+    throw new DistanceError('provider_unavailable', `${new URL(url).host} answered HTTP ${response.status}`)
+  }
+
+  return body as T
+}
+
+function result(
+  name: DistanceProviderName,
+  origin: string,
+  destination: string,
+  metres: number,
+  seconds: number | null,
+): DistanceResult {
+  return {
+    distanceKm: roundDistanceKm(metres),
+    durationMinutes: seconds === null ? null : Math.round(seconds / 60),
+    origin,
+    destination,
+    provider: name,
+  }
+}
+
+// Google Distance Matrix, the same engine the calculator used from the browser
+export function googleProvider(apiKey: string): DistanceProvider {
+  return {
+    name: 'google',
+    async distance(origin, destination) {
+      const params = new URLSearchParams({
+        origins: origin,
+        destinations: destination,
+        mode: 'driving',
+        units: 'metric',
+        key: apiKey,
+      })
+      const body = await fetchJson<GoogleDistanceMatrixResponse>(`https://maps.googleapis.com/maps/api/distancematrix/json?${params}`)
+
+      if (body.status === 'OVER_QUERY_LIMIT' || body.status === 'OVER_DAILY_LIMIT') {
+        throw new DistanceError('quota_exceeded', `Google Distance Matrix: ${body.status}`)
+      }
+      if (body.status === 'REQUEST_DENIED') {
+        throw new DistanceError('not_configured', `Google Distance Matrix: ${body.error_message ?? body.status}`)
+      }
+      if (body.status !== 'OK') {
+        throw new DistanceError('provider_unavailable', `Google Distance Matrix: ${body.status}`)
+      }
+
+      const element = body.rows?.[0]?.elements?.[0]
+      if (element?.status === 'NOT_FOUND') {
+        throw new DistanceError('address_not_found', `Google could not geocode "${destination}"`)
+      }
+      if (element?.status !== 'OK' || !element.distance) {
+        throw new DistanceError('no_route', `Google found no route: ${element?.status ?? 'no result'}`)
+      }
+
+      return result('google', origin, destination, element.distance.value, element.duration?.value ?? null)
+    },
+  }
+}
+
+// A Nominatim-style geocoder, limited to Australian addresses
+export function nominatimGeocoder(geocoderUrl: string): Geocoder {
+  return {
+    name: 'nominatim',
+    async geocode(address) {
+      const params = new URLSearchParams({ q: address, format: 'json', limit: '1', countrycodes: 'au' })
+      const body = await fetchJson<NominatimResponse>(`${geocoderUrl}/search?${params}`, {
+        headers: { 'User-Agent': 'sparkle-space-quote-calculator' },
+      })
+
+      const match = Array.isArray(body) ? body[0] : null
+      if (!match) {
+        throw new DistanceError('address_not_found', `No geocoding match for "${address}"`)
+      }
+
+      return { lat: Number(match.lat), lon: Number(match.lon) }
+    },
+  }
+}
+
+// An OSRM server's route service, with addresses placed by the given geocoder
+export function osrmProvider(osrmUrl: string, geocoder: Geocoder): DistanceProvider {
+  return {
+    name: 'osrm',
+    async distance(origin, destination) {
+      const [from, to] = await Promise.all([geocoder.geocode(origin), geocoder.geocode(destination)])
+      const body = await fetchJson<OsrmRouteResponse>(
+        `${osrmUrl}/route/v1/driving/${from.lon},${from.lat};${to.lon},${to.lat}?overview=false`,
+      )
+
+      const route = body.routes?.[0]
+      if (body.code !== 'Ok' || !route) {
+        throw new DistanceError('no_route', `OSRM found no route: ${body.code ?? 'no result'}`)
+      }
+
+      return result('osrm', origin, destination, route.distance, route.duration)
+    },
+  }
+}
+
+// The key is optional for self-hosted GraphHopper servers
+const withGraphHopperKey = (params: URLSearchParams, apiKey: string | undefined) => {
+  if (apiKey) params.set('key', apiKey)
+  return params
+}
+
+// GraphHopper's geocoding API
+export function graphHopperGeocoder(graphHopperUrl: string, apiKey: string | undefined): Geocoder {
+  return {
+    name: 'graphhopper',
+    async geocode(address) {
+      const params = withGraphHopperKey(new URLSearchParams({ q: address, limit: '1' }), apiKey)
+      const body = await fetchJson<GraphHopperGeocodeResponse>(`${graphHopperUrl}/geocode?${params}`)
+      const point = body.hits?.[0]?.point
+      if (!point) {
+        throw new DistanceError('address_not_found', `No geocoding match for "${address}"`)
+      }
+      return { lat: point.lat, lon: point.lng }
+    },
+  }
+}
+
+// GraphHopper's routing API, with addresses placed by the given geocoder
+export function graphHopperProvider(graphHopperUrl: string, apiKey: string | undefined, geocoder: Geocoder): DistanceProvider {
+  return {
+    name: 'graphhopper',
+    async distance(origin, destination) {
+      const [from, to] = await Promise.all([geocoder.geocode(origin), geocoder.geocode(destination)])
+      const params = withGraphHopperKey(new URLSearchParams({ profile: 'car', calc_points: 'false' }), apiKey)
+      params.append('point', `${from.lat},${from.lon}`)
+      params.append('point', `${to.lat},${to.lon}`)
+      const body = await fetchJson<GraphHopperRouteResponse>(`${graphHopperUrl}/route?${params}`)
+
+      const path = body.paths?.[0]
+      if (!path) {
+        throw new DistanceError('no_route', `GraphHopper found no route: ${body.message ?? 'no result'}`)
+      }
+
+      return result('graphhopper', origin, destination, path.distance, path.time / 1000)
+    },
+  }
+}
+
+// Answers every lookup with the same distance, for local development and tests
+export function stubProvider(distanceKm: number): DistanceProvider {
+  return {
+    name: 'stub',
+    async distance(origin, destination) {
+      return result('stub', origin, destination, distanceKm * 1000, null)
+    },
+  }
+}
+
+// With a cache, geocodes and distances are shared across the team until they expire; the stub is never cached
+export function createDistanceProvider(cache: DistanceCache | null = null): DistanceProvider {
+  const provider = Deno.env.get('DISTANCE_PROVIDER') || 'google'
+  const cached = (routing: DistanceProvider) => (cache ? withDistanceCache(routing, cache) : routing)
+  const cachedGeocoder = (geocoder: Geocoder) => (cache ? withGeocodeCache(geocoder, cache) : geocoder)
+
+  switch (provider) {
+    case 'google': {
+      const apiKey = Deno.env.get('GOOGLE_MAPS_API_KEY')
+      if (!apiKey) {
+        throw new DistanceError('not_configured', 'GOOGLE_MAPS_API_KEY environment variable is required')
+      }
+      return cached(googleProvider(apiKey))
+    }
+    case 'osrm': {
+      const osrmUrl = Deno.env.get('OSRM_URL')
+      if (!osrmUrl) {
+        throw new DistanceError('not_configured', 'OSRM_URL environment variable is required')
+      }
+      const geocoder = nominatimGeocoder(Deno.env.get('GEOCODER_URL') || 'https://nominatim.openstreetmap.org')
+      return cached(osrmProvider(osrmUrl, cachedGeocoder(geocoder)))
+    }
+    case 'graphhopper': {
+      const graphHopperUrl = Deno.env.get('GRAPHHOPPER_URL') || 'https://graphhopper.com/api/1'
+      const apiKey = Deno.env.get('GRAPHHOPPER_API_KEY')
+      return cached(graphHopperProvider(graphHopperUrl, apiKey, cachedGeocoder(graphHopperGeocoder(graphHopperUrl, apiKey))))
+    }
+    case 'stub':
+      return stubProvider(Number(Deno.env.get('DISTANCE_STUB_KM') || 10))
+    default:
+      throw new DistanceError('not_configured', `Unknown DISTANCE_PROVIDER "${provider}"`)
+  }
+}
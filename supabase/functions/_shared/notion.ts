@@ -0,0 +1,38 @@
+// What the edge functions tell the browser about quotes in Notion.
+// Shared with the browser, which never talks to Notion itself: the Notion token stays in the edge functions.
+
+// submit-quote's answer: the saved quote and the Notion row it was sent to.
+// The quote is saved even when Notion fails; success is then false and notionError says why.
+export interface NotionSubmitResult {
+  success: boolean;
+  quoteId: string;
+  quoteNumber: number;
+  // The saved quote's edit token, for sending or saving it again
+  editToken: string;
+  rateCardId: string;
+  // Null when the quote couldn't be sent to Notion
+  notionPageId: string | null;
+  notionPageUrl: string | null;
+  // False when the quote had been sent before and its row was updated
+  notionPageCreated: boolean;
+  notionError: string | null;
+}
+
+// notion-status's answer for a quote; the page fields are null when it hasn't been sent to Notion
+export interface NotionQuoteStatus {
+  quoteId: string;
+  pageId: string | null;
+  pageUrl: string | null;
+  // The row's Status, as whoever follows up sets it in Notion
+  status: string | null;
+  lastEditedTime: string | null;
+}
+
+// notion-status's answer with no quote: whether the edge functions can reach the Quotes database
+export interface NotionConnection {
+  connected: boolean;
+  databaseTitle: string | null;
+  error: string | null;
+}
+
+export const notionPageUrl = (pageId: string): string => `https://www.notion.so/${pageId.replace(/-/g, '')}`;
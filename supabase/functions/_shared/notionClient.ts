@@ -0,0 +1,120 @@
+// Notion client and databases for the edge functions. Deno only: the browser reaches Notion through the edge functions.
+import { Client, isFullDatabase } from 'npm:@notionhq/client@4'
+import {
+  checkNotionSchema,
+  markMissingNotionProperties,
+  missingRequiredNotionProperties,
+  notionDatabaseLabels,
+  NotionSchemaError,
+  resolveNotionMappings,
+  type NotionDatabaseMappings,
+  type NotionDatabaseName,
+} from './notionMapping.ts'
+
+export interface NotionDatabase<D extends NotionDatabaseName> {
+  notion: Client
+  databaseId: string
+  title: string
+  // Optional properties the database doesn't have are marked missing
+  properties: NotionDatabaseMappings[D]
+}
+
+interface CheckedDatabase {
+  title: string
+  schema: { [name: string]: { type: string } }
+}
+
+// The secret holding each database's id
+const DATABASE_ID_ENV: { [database in NotionDatabaseName]: string } = {
+  quotes: 'NOTION_DATABASE_ID',
+  invoices: 'NOTION_DATABASE_ID_RECEIVABLE',
+  payments: 'NOTION_DATABASE_ID_PAYMENTS',
+}
+
+export function createNotionClient(): Client {
+  const notionToken = Deno.env.get('NOTION_TOKEN')
+
+  if (!notionToken) {
+    throw new Error('NOTION_TOKEN environment variable is required')
+  }
+
+  return new Client({ auth: notionToken })
+}
+
+// The default property mappings with NOTION_PROPERTY_MAP applied
+export function loadNotionMappings(): NotionDatabaseMappings {
+  const propertyMap = Deno.env.get('NOTION_PROPERTY_MAP')
+  if (!propertyMap) return resolveNotionMappings(null)
+
+  let overrides: unknown
+  try {
+    overrides = JSON.parse(propertyMap)
+  } catch {
+    throw new Error('NOTION_PROPERTY_MAP must be JSON')
+  }
+  return resolveNotionMappings(overrides)
+}
+
+// Databases this instance has checked, by id: the check runs once per cold start rather than per request
+const checkedDatabases = new Map<string, Promise<CheckedDatabase>>()
+
+// The database's title and columns, once they are known to match the mapping
+async function checkDatabase(
+  notion: Client,
+  database: NotionDatabaseName,
+  databaseId: string,
+  properties: NotionDatabaseMappings[NotionDatabaseName],
+): Promise<CheckedDatabase> {
+  const response = await notion.databases.retrieve({ database_id: databaseId })
+  if (!isFullDatabase(response)) {
+    throw new Error(`Notion ${notionDatabaseLabels[database]} database can't be read; share it with the integration`)
+  }
+
+  const problems = checkNotionSchema({ ...properties }, response.properties)
+  if (problems.length > 0) {
+    throw new NotionSchemaError(database, problems)
+  }
+
+  return { title: response.title.map(text => text.plain_text).join(''), schema: response.properties }
+}
+
+/**
+ * The database's id and property mapping, after checking its columns against the mapping with
+ * databases.retrieve. Throws NotionSchemaError when a mapped column is missing or has another type;
+ * an optional column may be missing, and is marked so nothing is written to it.
+ */
+export async function openNotionDatabase<D extends NotionDatabaseName>(
+  database: D,
+  notion: Client = createNotionClient(),
+): Promise<NotionDatabase<D>> {
+  const databaseId = Deno.env.get(DATABASE_ID_ENV[database])
+
+  if (!databaseId) {
+    throw new Error(`${DATABASE_ID_ENV[database]} environment variable is required`)
+  }
+
+  const properties = loadNotionMappings()[database]
+
+  let check = checkedDatabases.get(databaseId)
+  if (!check) {
+    check = checkDatabase(notion, database, databaseId, properties)
+    checkedDatabases.set(databaseId, check)
+    // Check again on the next request after a failure, so a fixed column is picked up without a redeploy
+    check.catch(() => checkedDatabases.delete(databaseId))
+  }
+
+  const { title, schema } = await check
+  return { notion, databaseId, title, properties: markMissingNotionProperties(properties, schema) }
+}
+
+// Throws NotionSchemaError when the database doesn't have an optional column the caller needs, such as its upsert key
+export function requireNotionProperties<D extends NotionDatabaseName>(
+  database: D,
+  properties: NotionDatabaseMappings[D],
+  fields: (keyof NotionDatabaseMappings[D] & string)[],
+): void {
+  const problems = missingRequiredNotionProperties(properties, fields)
+  if (problems.length > 0) {
+    throw new NotionSchemaError(database, problems)
+  }
+}
@@ -0,0 +1,204 @@
+// Which Notion property each of our fields is written to, per database.
+// The defaults match our databases; the NOTION_PROPERTY_MAP secret renames columns without a code change.
+
+export type NotionPropertyType = 'title' | 'rich_text' | 'number' | 'date' | 'select' | 'status';
+
+export interface NotionProperty {
+  name: string;
+  type: NotionPropertyType;
+  // Not every database has it: only checked when the database does
+  optional?: boolean;
+  // An optional property the database turned out not to have; nothing is written to it
+  missing?: boolean;
+}
+
+export interface NotionDatabaseMappings {
+  quotes: {
+    quoteNumber: NotionProperty;
+    quoteId: NotionProperty;
+    dateSent: NotionProperty;
+    propertyAddress: NotionProperty;
+    propertyType: NotionProperty;
+    styling: NotionProperty;
+    listingPrice: NotionProperty;
+    distanceKm: NotionProperty;
+    accessDifficulty: NotionProperty;
+    roomRate: NotionProperty;
+    amountIncGst: NotionProperty;
+    amountExGst: NotionProperty;
+    notes: NotionProperty;
+    followUp: NotionProperty;
+    status: NotionProperty;
+  };
+  invoices: {
+    invoiceNumber: NotionProperty;
+    invoiceId: NotionProperty;
+    dateSent: NotionProperty;
+    address: NotionProperty;
+    amount: NotionProperty;
+    updates: NotionProperty;
+  };
+  payments: {
+    invoiceNumber: NotionProperty;
+    invoiceId: NotionProperty;
+    address: NotionProperty;
+    amountPaid: NotionProperty;
+    datePaid: NotionProperty;
+    status: NotionProperty;
+  };
+}
+
+export type NotionDatabaseName = keyof NotionDatabaseMappings;
+
+export const notionDatabaseLabels: { [database in NotionDatabaseName]: string } = {
+  quotes: 'Quotes',
+  invoices: 'Invoices',
+  payments: 'Payments',
+};
+
+export const defaultNotionMappings: NotionDatabaseMappings = {
+  quotes: {
+    quoteNumber: { name: 'Quote #', type: 'title' },
+    quoteId: { name: 'Quote ID', type: 'rich_text', optional: true },
+    dateSent: { name: 'Date Sent', type: 'date' },
+    propertyAddress: { name: 'Property Address', type: 'rich_text' },
+    propertyType: { name: 'Property Type', type: 'select', optional: true },
+    styling: { name: 'Styling', type: 'select', optional: true },
+    listingPrice: { name: 'Listing Price', type: 'number', optional: true },
+    distanceKm: { name: 'Distance (km)', type: 'number', optional: true },
+    accessDifficulty: { name: 'Access Difficulty', type: 'select', optional: true },
+    roomRate: { name: 'Room Rate', type: 'number', optional: true },
+    amountIncGst: { name: 'Amount (+GST)', type: 'number' },
+    amountExGst: { name: 'Amount (ex GST)', type: 'number', optional: true },
+    notes: { name: 'Notes', type: 'rich_text' },
+    followUp: { name: 'Follow-Up', type: 'rich_text' },
+    status: { name: 'Status', type: 'select', optional: true },
+  },
+  invoices: {
+    invoiceNumber: { name: 'INV #', type: 'title' },
+    invoiceId: { name: 'Invoice ID', type: 'rich_text', optional: true },
+    dateSent: { name: 'Date Sent', type: 'date' },
+    address: { name: 'Address', type: 'rich_text' },
+    amount: { name: 'Amount', type: 'number' },
+    updates: { name: 'Updates', type: 'rich_text' },
+  },
+  payments: {
+    invoiceNumber: { name: 'INV #', type: 'title' },
+    invoiceId: { name: 'Invoice ID', type: 'rich_text', optional: true },
+    address: { name: 'Address', type: 'rich_text' },
+    amountPaid: { name: 'Amount Paid', type: 'rich_text' },
+    datePaid: { name: 'Date Paid', type: 'date' },
+    status: { name: 'Status', type: 'select' },
+  },
+};
+
+const PROPERTY_TYPES: NotionPropertyType[] = ['title', 'rich_text', 'number', 'date', 'select', 'status'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * The default mappings with overrides applied. An override names a field's property, either as just
+ * the new name or as { name, type }, e.g. { "quotes": { "followUp": "Follow Up" } }.
+ * Throws when the overrides name a database or field we don't have, or a type Notion doesn't.
+ */
+export const resolveNotionMappings = (overrides: unknown): NotionDatabaseMappings => {
+  if (overrides === undefined || overrides === null) return defaultNotionMappings;
+  if (!isRecord(overrides)) {
+    throw new Error('Notion property map must be an object of databases');
+  }
+
+  const mappings = structuredClone(defaultNotionMappings);
+  const problems: string[] = [];
+
+  for (const [database, fields] of Object.entries(overrides)) {
+    if (!(database in mappings)) {
+      problems.push(`unknown database "${database}"`);
+      continue;
+    }
+    if (!isRecord(fields)) {
+      problems.push(`${database} must be an object of fields`);
+      continue;
+    }
+
+    const mapping: Record<string, NotionProperty> = mappings[database as NotionDatabaseName];
+    for (const [field, override] of Object.entries(fields)) {
+      const current = mapping[field];
+      if (!current) {
+        problems.push(`unknown field ${database}.${field}`);
+      } else if (typeof override === 'string' && override.trim()) {
+        mapping[field] = { ...current, name: override.trim() };
+      } else if (
+        isRecord(override) &&
+        typeof override.name === 'string' && override.name.trim() &&
+        PROPERTY_TYPES.includes(override.type as NotionPropertyType)
+      ) {
+        mapping[field] = { ...current, name: override.name.trim(), type: override.type as NotionPropertyType };
+      } else {
+        problems.push(`${database}.${field} must be a property name or { name, type } with type one of ${PROPERTY_TYPES.join(', ')}`);
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid Notion property map: ${problems.join('; ')}`);
+  }
+
+  return mappings;
+};
+
+// Every way a database's properties differ from the mapping; empty when they match
+export const checkNotionSchema = (
+  mapping: { [field: string]: NotionProperty },
+  schema: { [name: string]: { type: string } },
+): string[] => {
+  const problems: string[] = [];
+
+  for (const [field, property] of Object.entries(mapping)) {
+    const actual = schema[property.name];
+    if (!actual) {
+      if (!property.optional) problems.push(`"${property.name}" (${field}) is missing`);
+    } else if (actual.type !== property.type) {
+      problems.push(`"${property.name}" (${field}) is ${actual.type}, expected ${property.type}`);
+    }
+  }
+
+  return problems;
+};
+
+// The mapping with each optional property the database doesn't have marked missing
+export const markMissingNotionProperties = <M extends { [field: string]: NotionProperty }>(
+  mapping: M,
+  schema: { [name: string]: { type: string } },
+): M => {
+  const marked: { [field: string]: NotionProperty } = {};
+  for (const [field, property] of Object.entries(mapping)) {
+    marked[field] = property.optional && !schema[property.name] ? { ...property, missing: true } : property;
+  }
+  return marked as M;
+};
+
+// The fields a caller can't do without, such as the key it upserts on, that the database doesn't have
+export const missingRequiredNotionProperties = (
+  mapping: { [field: string]: NotionProperty },
+  fields: string[],
+): string[] =>
+  fields
+    .filter(field => mapping[field]?.missing)
+    .map(field => `"${mapping[field].name}" (${field}) is missing`);
+
+// A Notion database whose columns don't match the property mapping
+export class NotionSchemaError extends Error {
+  database: NotionDatabaseName;
+  problems: string[];
+
+  constructor(database: NotionDatabaseName, problems: string[]) {
+    super(
+      `Notion ${notionDatabaseLabels[database]} database doesn't match the property mapping: ${problems.join('; ')}. ` +
+      'Rename the columns in Notion back, or point NOTION_PROPERTY_MAP at the new names.'
+    );
+    this.name = 'NotionSchemaError';
+    this.database = database;
+    this.problems = problems;
+  }
+}
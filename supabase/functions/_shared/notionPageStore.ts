@@ -0,0 +1,48 @@
+// Which Notion page each upsert key was given, kept in public.notion_page_keys. Deno only.
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+
+// The page recorded for the key, if any
+export async function loadNotionPageKey(client: SupabaseClient, databaseId: string, key: string): Promise<string | null> {
+  const { data, error } = await client
+    .from('notion_page_keys')
+    .select('page_id')
+    .eq('database_id', databaseId)
+    .eq('key', key)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load the Notion page for ${key}: ${error.message}`)
+  }
+
+  return data?.page_id ?? null
+}
+
+/**
+ * Record the page for the key unless another upsert got there first.
+ * Returns the page the key ends up with, which is someone else's when they won.
+ */
+export async function claimNotionPageKey(client: SupabaseClient, databaseId: string, key: string, pageId: string): Promise<string> {
+  const { error } = await client
+    .from('notion_page_keys')
+    .upsert({ database_id: databaseId, key, page_id: pageId }, { onConflict: 'database_id,key', ignoreDuplicates: true })
+
+  if (error) {
+    throw new Error(`Failed to record the Notion page for ${key}: ${error.message}`)
+  }
+
+  return await loadNotionPageKey(client, databaseId, key) ?? pageId
+}
+
+// Forget a page that has gone from Notion, so the next upsert finds or creates another
+export async function releaseNotionPageKey(client: SupabaseClient, databaseId: string, key: string, pageId: string): Promise<void> {
+  const { error } = await client
+    .from('notion_page_keys')
+    .delete()
+    .eq('database_id', databaseId)
+    .eq('key', key)
+    .eq('page_id', pageId)
+
+  if (error) {
+    throw new Error(`Failed to release the Notion page for ${key}: ${error.message}`)
+  }
+}
@@ -0,0 +1,150 @@
+// The quote breakdown written into the body of a quote's Notion page, so the team can see how the
+// number was built. Deno only.
+import { collectPaginatedAPI, isFullBlock, type BlockObjectRequest, type Client } from 'npm:@notionhq/client@4'
+import type { CalculatorFormData, QuoteBreakdown } from './pricing.ts'
+import type { PricedQuoteOption } from './quoteOptions.ts'
+
+export interface QuoteBreakdownInput {
+  formData: CalculatorFormData
+  breakdown: QuoteBreakdown
+  rateCardId: string
+  options: PricedQuoteOption[]
+  acceptedOption: number | null
+}
+
+// Starts the section we own in the page body; it runs to the next divider
+const BREAKDOWN_HEADING = 'Quote breakdown'
+
+const formatMoney = (value: number) =>
+  `$${value.toLocaleString('en-AU', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+const formatSigned = (value: number) => `${value >= 0 ? '+' : '-'}${formatMoney(Math.abs(value))}`
+
+const formatPercent = (rate: number) => `${Math.round(rate * 10000) / 100}%`
+
+const text = (content: string) => [{ type: 'text' as const, text: { content } }]
+
+const heading = (content: string, level: 2 | 3): BlockObjectRequest =>
+  level === 2 ? { heading_2: { rich_text: text(content) } } : { heading_3: { rich_text: text(content) } }
+
+const paragraph = (content: string): BlockObjectRequest => ({ paragraph: { rich_text: text(content) } })
+
+// A table with the first row as its column header
+const table = (rows: string[][]): BlockObjectRequest => ({
+  table: {
+    table_width: rows[0].length,
+    has_column_header: true,
+    has_row_header: false,
+    children: rows.map(cells => ({ table_row: { cells: cells.map(cell => text(cell)) } })),
+  },
+})
+
+export function quoteBreakdownBlocks({ formData, breakdown, rateCardId, options, acceptedOption }: QuoteBreakdownInput): BlockObjectRequest[] {
+  const { hire } = breakdown
+  const sentOn = new Date().toISOString().split('T')[0]
+
+  const details: string[][] = [
+    ['Detail', 'Value'],
+    ['Property Address', formData.propertyAddress || 'Not provided'],
+    ['Property Type', formData.propertyType],
+    ['Styling', formData.styling],
+    ['Listing Price', formatMoney(formData.listingPrice)],
+    [formData.depot ? `Distance from ${formData.depot.name}` : 'Distance from Warehouse', `${formData.distanceFromWarehouse} km`],
+    ['Access Difficulty', formData.accessDifficulty],
+    ['Room Rate', formatMoney(breakdown.roomRate)],
+    ['Hire Period', `${hire.hireWeeks} weeks (${hire.includedWeeks} included)`],
+  ]
+
+  const rooms: string[][] = [
+    ['Room', 'Count', 'Styled', 'Weight', 'Equivalent Rooms', 'Subtotal'],
+    ...breakdown.rooms.map(room => [
+      room.roomType,
+      String(room.count),
+      `${room.percentage}%`,
+      String(room.weight),
+      String(room.equivalentRooms),
+      formatMoney(room.subtotal),
+    ]),
+  ]
+
+  // The same lines as the PDF's Quote Summary, in the same order
+  const summary: string[][] = [
+    ['Line', 'Amount'],
+    ['Equivalent Room Count', String(breakdown.equivalentRooms)],
+    ['Base Quote', formatMoney(breakdown.baseQuote)],
+    ...breakdown.adjustments
+      .filter(adjustment => adjustment.amount !== 0)
+      .map(adjustment => [
+        `${adjustment.label}${adjustment.rate === null ? '' : ` (${adjustment.rate >= 0 ? '+' : ''}${formatPercent(adjustment.rate)})`}`,
+        formatSigned(adjustment.amount),
+      ]),
+    ['Variation', formatSigned(breakdown.variation)],
+    ...(hire.extensionWeeks > 0
+      ? [[`Hire Extension (${hire.extensionWeeks} weeks at ${formatMoney(hire.weeklyRate)})`, formatSigned(breakdown.hireExtension)]]
+      : []),
+    ...breakdown.extras.map(extra => [
+      `${extra.name}${extra.pricing === 'perUnit' ? ` (${extra.quantity} ${extra.unit} x ${formatMoney(extra.price)})` : ''}`,
+      formatSigned(extra.subtotal),
+    ]),
+    ['Total (ex GST)', formatMoney(breakdown.finalQuote)],
+    [`GST (${formatPercent(breakdown.gstRate)})`, formatMoney(breakdown.gst)],
+    ['Total (inc GST)', formatMoney(breakdown.finalQuoteIncGst)],
+  ]
+
+  const blocks: BlockObjectRequest[] = [
+    heading(BREAKDOWN_HEADING, 2),
+    paragraph(`Priced by the calculator with rate card ${rateCardId} on ${sentOn}. Sending the quote again replaces this section down to the divider.`),
+    table(details),
+    heading('Rooms', 3),
+    table(rooms),
+    heading('Summary', 3),
+    table(summary),
+  ]
+
+  // The figures above are the accepted (or first) option's
+  if (options.length > 0) {
+    blocks.push(
+      heading('Options', 3),
+      table([
+        ['Option', 'Styling', 'Room Rate', 'Total (ex GST)', 'Total (inc GST)'],
+        ...options.map((option, index) => [
+          index === acceptedOption ? `${option.name} (accepted)` : option.name,
+          option.styling,
+          formatMoney(option.roomRate),
+          formatMoney(option.calculations.finalQuote),
+          formatMoney(option.calculations.finalQuoteIncGst),
+        ]),
+      ]),
+    )
+  }
+
+  blocks.push({ divider: {} })
+  return blocks
+}
+
+/**
+ * Swap the breakdown in an existing page for a new one, in the same place. Anything else in the
+ * page body, like notes the team wrote, is left alone.
+ */
+export async function replaceQuoteBreakdown(notion: Client, pageId: string, blocks: BlockObjectRequest[]): Promise<void> {
+  const children = await collectPaginatedAPI(notion.blocks.children.list, { block_id: pageId })
+
+  const start = children.findIndex(block =>
+    isFullBlock(block) &&
+    block.type === 'heading_2' &&
+    block.heading_2.rich_text.map(part => part.plain_text).join('') === BREAKDOWN_HEADING)
+
+  if (start < 0) {
+    await notion.blocks.children.append({ block_id: pageId, children: blocks })
+    return
+  }
+
+  const end = children.findIndex((block, index) => index > start && isFullBlock(block) && block.type === 'divider')
+  const stale = children.slice(start, end < 0 ? undefined : end + 1)
+
+  // Add the new section after the old one before removing it, so it keeps its place in the page
+  await notion.blocks.children.append({ block_id: pageId, children: blocks, after: stale[stale.length - 1].id })
+  for (const block of stale) {
+    await notion.blocks.delete({ block_id: block.id })
+  }
+}
@@ -0,0 +1,200 @@
+// Creates or updates Notion rows keyed on an identifier the source system owns, so a resent quote
+// or a repeated webhook updates its row instead of adding another. Deno only.
+import {
+  APIErrorCode,
+  isFullPage,
+  isNotionClientError,
+  type BlockObjectRequest,
+  type Client,
+  type PageObjectResponse,
+} from 'npm:@notionhq/client@4'
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+
+import type { NotionProperty } from './notionMapping.ts'
+import { claimNotionPageKey, loadNotionPageKey, releaseNotionPageKey } from './notionPageStore.ts'
+
+type PageProperties = NonNullable<Parameters<Client['pages']['create']>[0]['properties']>
+
+// A property that identifies the row; its value is written on every upsert
+export interface NotionKey {
+  property: NotionProperty
+  value: string
+}
+
+export interface NotionUpsert {
+  databaseId: string
+  // Every key must match for a row to be the same one
+  keys: NotionKey[]
+  // Written on create and on every update
+  properties: PageProperties
+  // Written only when the row is created, for columns people edit in Notion afterwards
+  createOnly?: PageProperties
+  // Page body for a new row; updating a row leaves its body to the caller
+  children?: BlockObjectRequest[]
+}
+
+export interface NotionUpsertResult {
+  pageId: string
+  created: boolean
+}
+
+// A value in the shape Notion expects for the property's type
+export function notionPropertyValue(property: NotionProperty, value: string | number): PageProperties[string] {
+  switch (property.type) {
+    case 'title':
+      return { title: [{ text: { content: String(value) } }] }
+    case 'rich_text':
+      return { rich_text: [{ text: { content: String(value) } }] }
+    case 'number':
+      return { number: Number(value) }
+    case 'date':
+      return { date: { start: String(value) } }
+    case 'select':
+      return { select: { name: String(value) } }
+    case 'status':
+      return { status: { name: String(value) } }
+  }
+}
+
+// Page properties from [mapped property, value] pairs, leaving out optional columns the database doesn't have
+export function notionProperties(values: [NotionProperty, string | number][]): PageProperties {
+  const properties: PageProperties = {}
+  for (const [property, value] of values) {
+    if (property.missing) continue
+    properties[property.name] = notionPropertyValue(property, value)
+  }
+  return properties
+}
+
+const keyFilter = ({ property, value }: NotionKey) => {
+  switch (property.type) {
+    case 'title':
+      return { property: property.name, title: { equals: value } }
+    case 'rich_text':
+      return { property: property.name, rich_text: { equals: value } }
+    case 'number':
+      return { property: property.name, number: { equals: Number(value) } }
+    case 'date':
+      return { property: property.name, date: { equals: value } }
+    case 'select':
+      return { property: property.name, select: { equals: value } }
+    case 'status':
+      return { property: property.name, status: { equals: value } }
+  }
+}
+
+// The oldest row matching every key, if there is one
+export async function findNotionPage(notion: Client, databaseId: string, keys: NotionKey[]): Promise<PageObjectResponse | null> {
+  const response = await notion.databases.query({
+    database_id: databaseId,
+    filter: { and: keys.map(keyFilter) },
+    sorts: [{ timestamp: 'created_time', direction: 'ascending' }],
+    page_size: 1,
+  })
+
+  const [page] = response.results
+  return page && isFullPage(page) ? page : null
+}
+
+// The key as notion_page_keys stores it; a key property renamed in the mapping starts a fresh entry
+const storedKey = (keys: NotionKey[]): string => keys.map(key => `${key.property.name}=${key.value}`).join('&')
+
+// A page deleted or archived in Notion can't be updated any more
+const isMissingPage = (error: unknown): boolean =>
+  isNotionClientError(error) && (
+    error.code === APIErrorCode.ObjectNotFound ||
+    (error.code === APIErrorCode.ValidationError && /archived/i.test(error.message))
+  )
+
+/**
+ * Update the row for the keys, or create it. The page each key was given is recorded, so a known row
+ * is updated by its id without querying the database. When two upserts create the same row at once,
+ * only the first to record its page keeps it; the other archives its copy and updates that one.
+ * Without one of its key columns (an optional one the database doesn't have yet) the row can't be
+ * found again, so a new row is created every time.
+ */
+export async function upsertNotionPage(notion: Client, supabase: SupabaseClient, upsert: NotionUpsert): Promise<NotionUpsertResult> {
+  const properties = { ...upsert.properties, ...notionProperties(upsert.keys.map(key => [key.property, key.value])) }
+  const label = upsert.keys.map(key => `${key.property.name}=${key.value}`).join(', ')
+  const key = storedKey(upsert.keys)
+
+  const missingKeys = upsert.keys.filter(key => key.property.missing)
+  if (missingKeys.length > 0) {
+    const page = await notion.pages.create({
+      parent: { database_id: upsert.databaseId },
+      properties: { ...upsert.createOnly, ...properties },
+      children: upsert.children,
+    })
+    console.warn(`Created Notion page ${page.id} (${label}) without a key: the database has no ${missingKeys.map(key => `"${key.property.name}"`).join(' or ')} column`)
+    return { pageId: page.id, created: true }
+  }
+
+  const knownPageId = await loadNotionPageKey(supabase, upsert.databaseId, key)
+  if (knownPageId) {
+    try {
+      await notion.pages.update({ page_id: knownPageId, properties })
+      console.log(`Updated Notion page ${knownPageId} (${label})`)
+      return { pageId: knownPageId, created: false }
+    } catch (error) {
+      if (!isMissingPage(error)) throw error
+      console.log(`Notion page ${knownPageId} (${label}) is gone, finding or creating another`)
+      await releaseNotionPageKey(supabase, upsert.databaseId, key, knownPageId)
+    }
+  }
+
+  // Rows made before their key was recorded, or by hand, are found by their key properties
+  const existing = await findNotionPage(notion, upsert.databaseId, upsert.keys)
+
+  if (existing) {
+    const pageId = await claimNotionPageKey(supabase, upsert.databaseId, key, existing.id)
+    await notion.pages.update({ page_id: pageId, properties })
+    console.log(`Updated Notion page ${pageId} (${label})`)
+    return { pageId, created: false }
+  }
+
+  const page = await notion.pages.create({
+    parent: { database_id: upsert.databaseId },
+    properties: { ...upsert.createOnly, ...properties },
+    children: upsert.children,
+  })
+
+  const pageId = await claimNotionPageKey(supabase, upsert.databaseId, key, page.id)
+  if (pageId !== page.id) {
+    await notion.pages.update({ page_id: page.id, archived: true })
+    await notion.pages.update({ page_id: pageId, properties })
+    console.log(`Archived Notion page ${page.id}, created alongside ${pageId} (${label})`)
+    return { pageId, created: false }
+  }
+
+  console.log(`Created Notion page ${page.id} (${label})`)
+  return { pageId: page.id, created: true }
+}
+
+// A property's value as text, or null when the page doesn't have it or it's empty
+export function notionPropertyText(page: PageObjectResponse, property: NotionProperty): string | null {
+  const value = page.properties[property.name]
+  let text: string | null = null
+
+  switch (value?.type) {
+    case 'title':
+      text = value.title.map(part => part.plain_text).join('')
+      break
+    case 'rich_text':
+      text = value.rich_text.map(part => part.plain_text).join('')
+      break
+    case 'number':
+      text = value.number === null ? null : String(value.number)
+      break
+    case 'date':
+      text = value.date?.start ?? null
+      break
+    case 'select':
+      text = value.select?.name ?? null
+      break
+    case 'status':
+      text = value.status?.name ?? null
+      break
+  }
+
+  return text?.trim() || null
+}
@@ -0,0 +1,507 @@
+// Pure quote pricing engine shared by the calculator (browser) and the edge functions (Deno).
+// Keep this file free of React, DOM and Deno APIs so both runtimes can import it.
+
+import type { Depot } from './depots.ts';
+
+export interface RoomData {
+  [key: string]: {
+    count: number;
+    percentage: number;
+    weight: number;
+  };
+}
+
+export type PriceOverrideKind = 'percent' | 'amount';
+
+// A stylist's manual discount (negative) or premium (positive) on the whole quote, with the reason for it
+export interface PriceOverride {
+  kind: PriceOverrideKind;
+  // percent: a fraction of the quote (-0.1 = 10% off); amount: dollars ex GST
+  value: number;
+  reason: string;
+}
+
+export const MAX_OVERRIDE_REASON_LENGTH = 200;
+
+// Quantity of each extra on a quote, keyed by ExtraItem.id; fixed-price extras are 0 or 1
+export interface ExtraQuantities {
+  [extraId: string]: number;
+}
+
+export interface CalculatorFormData {
+  propertyType: string;
+  styling: string;
+  propertyAddress: string;
+  distanceFromWarehouse: number;
+  listingPrice: number;
+  accessDifficulty: string;
+  roomRate: number;
+  rooms: RoomData;
+  // Missing on quotes saved before extras existed
+  extras?: ExtraQuantities;
+  // Weeks of hire; the rate card's included term when missing
+  hireWeeks?: number;
+  override?: PriceOverride | null;
+  // Depot distanceFromWarehouse is measured from, copied onto the quote; missing on quotes saved before depots
+  depot?: Depot | null;
+}
+
+export interface PriceRange {
+  maxPrice: number;
+  rate: number;
+}
+
+export interface DistanceRange {
+  maxDistance: number;
+  rate: number;
+}
+
+// How a styling type (Full, Partial) prices compared with the others
+export interface StylingRule {
+  // Applied to the whole quote after the listing price, distance and access adjustments
+  multiplier: number;
+  // Scales each room's default item quantity for this styling (100 keeps the catalogue's default)
+  roomPercentage: number;
+  // Room rate a quote starts from until the stylist overrides it, per property type
+  roomRates: {
+    [propertyType: string]: number;
+  };
+}
+
+export type ExtraPricing = 'fixed' | 'perUnit';
+
+// An add-on from the rate card's extras catalogue, e.g. furniture removal or extra hire weeks
+export interface ExtraItem {
+  // Stable key quotes refer to the extra by, kept when the name or price changes
+  id: string;
+  name: string;
+  // fixed: one flat price per quote; perUnit: price for each unit
+  pricing: ExtraPricing;
+  price: number;
+  // What a unit is, e.g. "week"; unused for fixed-price extras
+  unit: string;
+}
+
+// Weekly extension rate for quotes up to an equivalent room count
+export interface HireExtensionBand {
+  maxRooms: number;
+  rate: number;
+}
+
+export interface HireSettings {
+  // Weeks of hire included in the styling price
+  includedWeeks: number;
+  // Dollars per week past the included term, banded by equivalent room count for each property type
+  extensionRates: {
+    [propertyType: string]: HireExtensionBand[];
+  };
+}
+
+// How the final quote (ex GST) is rounded once every adjustment is applied
+export type RoundingRule = 'none' | 'nearest10' | 'nearest50' | 'nearest100' | 'psychological';
+
+export const roundingRuleLabels: { [rule in RoundingRule]: string } = {
+  none: 'No rounding',
+  nearest10: 'Nearest $10',
+  nearest50: 'Nearest $50',
+  nearest100: 'Nearest $100',
+  psychological: 'Psychological price (nearest $X95)',
+};
+
+export interface RateSettings {
+  apartmentPriceRanges: PriceRange[];
+  housePriceRanges: PriceRange[];
+  distanceRanges: DistanceRange[];
+  accessDifficultyRates: {
+    [key: string]: number;
+  };
+  stylingRules: {
+    [styling: string]: StylingRule;
+  };
+  // Lowest final quote (ex GST) per property type; 0 for no minimum
+  minimumCharges: {
+    [propertyType: string]: number;
+  };
+  rounding: RoundingRule;
+  // Largest combined discount the listing price, distance and access rates can give
+  // (0.15 caps totalRate at -15%); null for no cap
+  maxDiscount: number | null;
+  extras: ExtraItem[];
+  hire: HireSettings;
+  // GST charged on top of the final quote, as a fraction (0.1 = 10%)
+  gstRate: number;
+}
+
+// Summary figures stored with a quote and sent to integrations.
+// finalQuote is ex-GST; finalQuoteIncGst is what the customer pays.
+export interface QuoteCalculations {
+  equivalentRooms: number;
+  baseQuote: number;
+  variation: number;
+  extrasTotal: number;
+  hireExtension: number;
+  finalQuote: number;
+  gst: number;
+  finalQuoteIncGst: number;
+}
+
+export interface RoomLine {
+  roomType: string;
+  count: number;
+  percentage: number;
+  weight: number;
+  equivalentRooms: number;
+  subtotal: number;
+}
+
+export interface ExtraLine {
+  extraId: string;
+  name: string;
+  pricing: ExtraPricing;
+  unit: string;
+  quantity: number;
+  price: number;
+  subtotal: number;
+}
+
+export interface HireTerm {
+  hireWeeks: number;
+  includedWeeks: number;
+  extensionWeeks: number;
+  // Upper bound of the matched room band (Infinity for the open-ended last band), or null if none matched
+  bandMax: number | null;
+  weeklyRate: number;
+  subtotal: number;
+}
+
+export type RateAdjustmentSource =
+  | 'listingPrice'
+  | 'distance'
+  | 'accessDifficulty'
+  | 'discountCap'
+  | 'styling'
+  | 'override'
+  | 'minimumCharge'
+  | 'rounding';
+
+export interface RateAdjustment {
+  source: RateAdjustmentSource;
+  label: string;
+  // Upper bound of the matched band (Infinity for the open-ended last band), or null for keyed rates
+  bandMax: number | null;
+  // Fraction applied, or null for dollar adjustments (minimum charge, rounding, dollar overrides)
+  rate: number | null;
+  amount: number;
+}
+
+export interface QuoteBreakdown extends QuoteCalculations {
+  roomRate: number;
+  rooms: RoomLine[];
+  adjustments: RateAdjustment[];
+  extras: ExtraLine[];
+  hire: HireTerm;
+  // Sum of the listing price, distance and access rates after the discount cap; the styling multiplier applies on top
+  totalRate: number;
+  // Quote with extras and hire, before any manual override, rounding and the minimum charge
+  quoteBeforeOverride: number;
+  stylingMultiplier: number;
+  gstRate: number;
+}
+
+// Every figure priceQuote returns is ex-GST unless named otherwise; GST goes on top of the final quote
+export const GST_RATE = 0.1;
+
+// Static configuration - no database required
+export const staticRateSettings: RateSettings = {
+  apartmentPriceRanges: [
+    { maxPrice: 600000, rate: -0.1 },   // <$600k: -10%
+    { maxPrice: 800000, rate: -0.05 },  // <$800k: -5%
+    { maxPrice: 1000000, rate: 0 },     // <$1000k: 0%
+    { maxPrice: Infinity, rate: 0 },    // $1000k+: 0%
+  ],
+  housePriceRanges: [
+    { maxPrice: 1500000, rate: -0.1 },  // <$1500k: -10%
+    { maxPrice: 2000000, rate: -0.05 }, // <$2000k: -5%
+    { maxPrice: 3000000, rate: 0 },     // <$3000k: 0%
+    { maxPrice: 5000000, rate: 0.05 },  // <$5000k: +5%
+    { maxPrice: 7000000, rate: 0.1 },   // <$7000k: +10%
+    { maxPrice: 10000000, rate: 0.2 },  // <$10000k: +20%
+    { maxPrice: Infinity, rate: 0.2 },  // $10000k+: +20%
+  ],
+  distanceRanges: [
+    { maxDistance: 15, rate: 0 },       // <15km: 0%
+    { maxDistance: 30, rate: 0.05 },    // <30km: +5%
+    { maxDistance: 50, rate: 0.1 },     // <50km: +10%
+    { maxDistance: 80, rate: 0.25 },    // <80km: +25%
+    { maxDistance: Infinity, rate: 0.25 }, // 80km+: +25%
+  ],
+  accessDifficultyRates: {
+    'Easy': 0,      // 0%
+    'Standard': 0.05, // +5%
+    'Difficult': 0.1, // +10%
+  },
+  // Partial styling dresses rooms more lightly: fewer items per room by default and 15% off the quote
+  stylingRules: {
+    'Full': { multiplier: 1, roomPercentage: 100, roomRates: { 'Apartment': 350, 'House': 400 } },
+    'Partial': { multiplier: 0.85, roomPercentage: 60, roomRates: { 'Apartment': 350, 'House': 400 } },
+  },
+  // No minimums, rounding or discount cap, so quotes on the default card keep their prices
+  minimumCharges: { 'Apartment': 0, 'House': 0 },
+  rounding: 'none',
+  maxDiscount: null,
+  extras: [],
+  // Six weeks included, and no charge for extending until a rate card sets one
+  hire: {
+    includedWeeks: 6,
+    extensionRates: {
+      'Apartment': [{ maxRooms: Infinity, rate: 0 }],
+      'House': [{ maxRooms: Infinity, rate: 0 }],
+    },
+  },
+  gstRate: GST_RATE,
+};
+
+export const staticPropertyTypes = ['Apartment', 'House'];
+export const staticStylingTypes = ['Full', 'Partial'];
+
+export const roundToCents = (value: number): number => Math.round(value * 100) / 100;
+
+export interface GstLines {
+  exGst: number;
+  gst: number;
+  incGst: number;
+}
+
+export const applyGst = (exGst: number, rate: number): GstLines => {
+  const gst = roundToCents(exGst * rate);
+  return { exGst, gst, incGst: roundToCents(exGst + gst) };
+};
+
+const roundingSteps: { [rule in RoundingRule]?: number } = { nearest10: 10, nearest50: 50, nearest100: 100 };
+
+export const roundQuote = (value: number, rule: RoundingRule): number => {
+  const step = roundingSteps[rule];
+  if (step) return Math.round(value / step) * step;
+
+  if (rule === 'psychological') {
+    // Nearest price ending in 95, e.g. $2,347.18 becomes $2,395
+    const rounded = Math.round((value + 5) / 100) * 100 - 5;
+    return rounded > 0 ? rounded : value;
+  }
+
+  return value;
+};
+
+const getPriceRanges = (propertyType: string, settings: RateSettings): PriceRange[] | null => {
+  if (propertyType === 'Apartment') return settings.apartmentPriceRanges;
+  if (propertyType === 'House') return settings.housePriceRanges;
+  return null;
+};
+
+/**
+ * Price a quote from the calculator form using the given rate settings.
+ * Returns every matched tier and room subtotal so callers never need to redo the maths.
+ */
+export const priceQuote = (formData: CalculatorFormData, settings: RateSettings): QuoteBreakdown => {
+  // Equivalent room count, one line per room actually on the quote
+  const rooms: RoomLine[] = Object.entries(formData.rooms)
+    .filter(([, room]) => room.count > 0)
+    .map(([roomType, room]) => {
+      const equivalentRooms = room.count * (room.percentage / 100) * room.weight;
+      return {
+        roomType,
+        count: room.count,
+        percentage: room.percentage,
+        weight: room.weight,
+        equivalentRooms,
+        subtotal: equivalentRooms * formData.roomRate,
+      };
+    });
+
+  const equivalentRooms = rooms.reduce((total, room) => total + room.equivalentRooms, 0);
+  const baseQuote = equivalentRooms * formData.roomRate;
+
+  // Penalty/reward rates, each matched against the first band whose upper bound exceeds the value
+  const adjustments: RateAdjustment[] = [];
+
+  const priceRanges = getPriceRanges(formData.propertyType, settings);
+  const priceRange = priceRanges?.find(range => formData.listingPrice < range.maxPrice);
+  if (priceRange) {
+    adjustments.push({
+      source: 'listingPrice',
+      label: `${formData.propertyType} listing price`,
+      bandMax: priceRange.maxPrice,
+      rate: priceRange.rate,
+      amount: priceRange.rate * baseQuote,
+    });
+  }
+
+  const distanceRange = settings.distanceRanges.find(range => formData.distanceFromWarehouse < range.maxDistance);
+  if (distanceRange) {
+    adjustments.push({
+      source: 'distance',
+      label: 'Distance from warehouse',
+      bandMax: distanceRange.maxDistance,
+      rate: distanceRange.rate,
+      amount: distanceRange.rate * baseQuote,
+    });
+  }
+
+  const accessRate = settings.accessDifficultyRates[formData.accessDifficulty];
+  if (accessRate !== undefined) {
+    adjustments.push({
+      source: 'accessDifficulty',
+      label: `${formData.accessDifficulty} access`,
+      bandMax: null,
+      rate: accessRate,
+      amount: accessRate * baseQuote,
+    });
+  }
+
+  // The cap limits how far the bands can discount together, and shows as its own line when it bites
+  const uncappedRate = adjustments.reduce((total, adjustment) => total + (adjustment.rate ?? 0), 0);
+  const { maxDiscount } = settings;
+  const totalRate = maxDiscount === null ? uncappedRate : Math.max(uncappedRate, -maxDiscount);
+  if (maxDiscount !== null && totalRate !== uncappedRate) {
+    adjustments.push({
+      source: 'discountCap',
+      label: `Discount capped at ${roundToCents(maxDiscount * 100)}%`,
+      bandMax: null,
+      rate: totalRate - uncappedRate,
+      amount: (totalRate - uncappedRate) * baseQuote,
+    });
+  }
+
+  const adjustedQuote = baseQuote + totalRate * baseQuote;
+
+  // Styling scales the adjusted quote; shown as its own line when it changes anything
+  const stylingMultiplier = settings.stylingRules[formData.styling]?.multiplier ?? 1;
+  if (stylingMultiplier !== 1) {
+    adjustments.push({
+      source: 'styling',
+      label: `${formData.styling} styling`,
+      bandMax: null,
+      rate: stylingMultiplier - 1,
+      amount: (stylingMultiplier - 1) * adjustedQuote,
+    });
+  }
+
+  const styledQuote = adjustedQuote * stylingMultiplier;
+
+  // Extras are flat prices, so the rate adjustments skip them; extras the card doesn't offer are ignored
+  const quantities = formData.extras ?? {};
+  const extras: ExtraLine[] = settings.extras
+    .filter(extra => quantities[extra.id] > 0)
+    .map(extra => {
+      const quantity = extra.pricing === 'fixed' ? 1 : quantities[extra.id];
+      return {
+        extraId: extra.id,
+        name: extra.name,
+        pricing: extra.pricing,
+        unit: extra.unit,
+        quantity,
+        price: extra.price,
+        subtotal: quantity * extra.price,
+      };
+    });
+  const extrasTotal = extras.reduce((total, extra) => total + extra.subtotal, 0);
+
+  // Hire past the included term is charged per week, at the rate for the property type and quote size
+  const { includedWeeks } = settings.hire;
+  const hireWeeks = formData.hireWeeks ?? includedWeeks;
+  const extensionWeeks = Math.max(0, hireWeeks - includedWeeks);
+  const extensionBand = settings.hire.extensionRates[formData.propertyType]
+    ?.find(band => equivalentRooms < band.maxRooms);
+  const weeklyRate = extensionBand?.rate ?? 0;
+  const hireExtension = extensionWeeks * weeklyRate;
+
+  const quoteBeforeOverride = styledQuote + extrasTotal + hireExtension;
+
+  // A manual override moves the whole quote; rounding and the minimum charge still apply after it.
+  // validatePriceOverride rejects discounts that would take the quote to $0 or below; should one get
+  // here anyway, the discount line shows only what was taken off, so the minimum charge isn't blamed.
+  const { override } = formData;
+  let overrideAmount = 0;
+  if (override && override.value !== 0) {
+    const requested = override.kind === 'percent' ? override.value * quoteBeforeOverride : override.value;
+    overrideAmount = Math.max(requested, -quoteBeforeOverride);
+    adjustments.push({
+      source: 'override',
+      label: override.value < 0 ? 'Discount' : 'Premium',
+      bandMax: null,
+      rate: override.kind === 'percent' ? override.value : null,
+      amount: overrideAmount,
+    });
+  }
+
+  const quoteWithAddOns = quoteBeforeOverride + overrideAmount;
+
+  // Small jobs are brought up to the property type's minimum charge, which rounding never undercuts
+  const minimumCharge = settings.minimumCharges[formData.propertyType] ?? 0;
+  const roundedQuote = roundQuote(quoteWithAddOns, settings.rounding);
+  const finalQuote = Math.max(roundedQuote, minimumCharge);
+  if (finalQuote > roundedQuote) {
+    adjustments.push({
+      source: 'minimumCharge',
+      label: `${formData.propertyType} minimum charge`,
+      bandMax: null,
+      rate: null,
+      amount: finalQuote - quoteWithAddOns,
+    });
+  } else if (roundToCents(roundedQuote) !== roundToCents(quoteWithAddOns)) {
+    adjustments.push({
+      source: 'rounding',
+      label: roundingRuleLabels[settings.rounding],
+      bandMax: null,
+      rate: null,
+      amount: roundedQuote - quoteWithAddOns,
+    });
+  }
+
+  // Variation covers the adjustments only; extras and hire extension are their own lines
+  const variation = finalQuote - baseQuote - extrasTotal - hireExtension;
+  const gstLines = applyGst(roundToCents(finalQuote), settings.gstRate);
+
+  return {
+    roomRate: formData.roomRate,
+    rooms: rooms.map(room => ({
+      ...room,
+      equivalentRooms: roundToCents(room.equivalentRooms),
+      subtotal: roundToCents(room.subtotal),
+    })),
+    adjustments: adjustments.map(adjustment => ({ ...adjustment, amount: roundToCents(adjustment.amount) })),
+    extras: extras.map(extra => ({ ...extra, subtotal: roundToCents(extra.subtotal) })),
+    hire: {
+      hireWeeks,
+      includedWeeks,
+      extensionWeeks,
+      bandMax: extensionBand?.maxRooms ?? null,
+      weeklyRate,
+      subtotal: roundToCents(hireExtension),
+    },
+    totalRate,
+    quoteBeforeOverride: roundToCents(quoteBeforeOverride),
+    stylingMultiplier,
+    gstRate: settings.gstRate,
+    equivalentRooms: roundToCents(equivalentRooms),
+    baseQuote: roundToCents(baseQuote),
+    variation: roundToCents(variation),
+    extrasTotal: roundToCents(extrasTotal),
+    hireExtension: roundToCents(hireExtension),
+    finalQuote: gstLines.exGst,
+    gst: gstLines.gst,
+    finalQuoteIncGst: gstLines.incGst,
+  };
+};
+
+// Summary figures only, in the shape integrations expect
+export const toQuoteCalculations = (breakdown: QuoteBreakdown): QuoteCalculations => ({
+  equivalentRooms: breakdown.equivalentRooms,
+  baseQuote: breakdown.baseQuote,
+  variation: breakdown.variation,
+  extrasTotal: breakdown.extrasTotal,
+  hireExtension: breakdown.hireExtension,
+  finalQuote: breakdown.finalQuote,
+  gst: breakdown.gst,
+  finalQuoteIncGst: breakdown.finalQuoteIncGst,
+});
@@ -0,0 +1,46 @@
+// Multi-option quotes (e.g. Good / Better / Best): one property, several ways to style it.
+// Property details, extras and hire are shared; each option sets its own rooms, styling and room rate.
+
+import type { CalculatorFormData, QuoteCalculations, RoomData } from './pricing.ts';
+
+export const MAX_QUOTE_OPTIONS = 4;
+
+// Option names head the comparison columns, on screen and in the PDF
+export const MAX_OPTION_NAME_LENGTH = 30;
+
+const SUGGESTED_OPTION_NAMES = ['Good', 'Better', 'Best'];
+
+export interface QuoteOption {
+  name: string;
+  styling: string;
+  roomRate: number;
+  rooms: RoomData;
+}
+
+// An option as stored with a saved quote, with the server's pricing
+export interface PricedQuoteOption extends QuoteOption {
+  calculations: QuoteCalculations;
+}
+
+export const optionFromFormData = (name: string, formData: CalculatorFormData): QuoteOption => ({
+  name,
+  styling: formData.styling,
+  roomRate: formData.roomRate,
+  rooms: formData.rooms,
+});
+
+// The quote's form with one option's choices in place of its own
+export const withOption = (formData: CalculatorFormData, option: QuoteOption): CalculatorFormData => ({
+  ...formData,
+  styling: option.styling,
+  roomRate: option.roomRate,
+  rooms: option.rooms,
+});
+
+// The option whose figures stand for the whole quote: the accepted one, or the first until one is
+export const leadOptionIndex = (acceptedOption: number | null | undefined): number => acceptedOption ?? 0;
+
+export const suggestOptionName = (options: QuoteOption[]): string => {
+  const taken = new Set(options.map(option => option.name));
+  return SUGGESTED_OPTION_NAMES.find(name => !taken.has(name)) ?? `Option ${options.length + 1}`;
+};
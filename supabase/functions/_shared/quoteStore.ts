@@ -0,0 +1,144 @@
+// Reads and writes public.quotes. Deno only.
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { isAdmin } from './supabaseClient.ts'
+import { toQuoteCalculations, type CalculatorFormData, type QuoteBreakdown } from './pricing.ts'
+import type { PricedQuoteOption } from './quoteOptions.ts'
+import { QUOTE_COLUMNS, toSavedQuote, type QuoteFilters, type QuoteRow, type SavedQuote } from './quotes.ts'
+
+// Ids and edit tokens come from the browser; anything that isn't a uuid can't match a quote
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// An update named a quote that doesn't exist, or gave the wrong edit token for it
+export class QuoteNotFoundError extends Error {
+  constructor(quoteId: string) {
+    super(`Quote ${quoteId} not found`)
+    this.name = 'QuoteNotFoundError'
+  }
+}
+
+export interface QuoteUpdateTarget {
+  id: string
+  // Null when a signed-in admin is updating, who needs no token
+  editToken: string | null
+}
+
+/**
+ * The quote a submission may update: any quote for a signed-in admin, or the quote whose edit token
+ * the caller holds. Null means the submission is saved as a new quote.
+ */
+export async function quoteUpdateTarget(
+  req: Request,
+  submission: { quoteId?: string, editToken?: string },
+): Promise<QuoteUpdateTarget | null> {
+  if (!submission.quoteId) return null
+  if (await isAdmin(req)) return { id: submission.quoteId, editToken: null }
+  if (submission.editToken) return { id: submission.quoteId, editToken: submission.editToken }
+  return null
+}
+
+interface SaveQuoteInput {
+  update: QuoteUpdateTarget | null
+  formData: CalculatorFormData
+  breakdown: QuoteBreakdown
+  rateCardId: string
+  options: PricedQuoteOption[]
+  acceptedOption: number | null
+}
+
+// Insert a new quote, or update it in place when the caller may (see quoteUpdateTarget).
+// Always stores the server's own pricing, never figures posted by the browser.
+// Throws QuoteNotFoundError when the quote to update doesn't exist or the edit token doesn't match.
+export async function saveQuote(client: SupabaseClient, input: SaveQuoteInput): Promise<SavedQuote & { editToken: string }> {
+  const { override } = input.formData
+  const overrideLine = input.breakdown.adjustments.find(adjustment => adjustment.source === 'override')
+
+  const row = {
+    property_address: input.formData.propertyAddress || null,
+    property_type: input.formData.propertyType || null,
+    final_quote: input.breakdown.finalQuote,
+    form_data: input.formData,
+    calculations: toQuoteCalculations(input.breakdown),
+    rate_card_id: input.rateCardId,
+    options: input.options,
+    accepted_option: input.acceptedOption,
+    override_kind: override?.kind ?? null,
+    override_value: override?.value ?? null,
+    override_amount: overrideLine?.amount ?? null,
+    override_reason: override?.reason.trim() ?? null,
+    updated_at: new Date().toISOString(),
+  }
+
+  const { update } = input
+  if (update && (!UUID_PATTERN.test(update.id) || (update.editToken !== null && !UUID_PATTERN.test(update.editToken)))) {
+    throw new QuoteNotFoundError(update.id)
+  }
+
+  const query = update
+    ? client.from('quotes').update(row).match(update.editToken === null ? { id: update.id } : { id: update.id, edit_token: update.editToken })
+    : client.from('quotes').insert(row)
+
+  const { data, error } = await query.select(`${QUOTE_COLUMNS}, edit_token`).maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to save quote: ${error.message}`)
+  }
+  if (!data && update) {
+    throw new QuoteNotFoundError(update.id)
+  }
+
+  const saved = data as QuoteRow & { edit_token: string }
+  return { ...toSavedQuote(saved), editToken: saved.edit_token }
+}
+
+// The search as a literal ilike pattern, so % and _ match themselves rather than anything
+const likePattern = (search: string): string => `%${search.replace(/[\\%_]/g, char => `\\${char}`)}%`
+
+export async function listQuotes(client: SupabaseClient, filters: QuoteFilters): Promise<SavedQuote[]> {
+  let query = client
+    .from('quotes')
+    .select(QUOTE_COLUMNS)
+    .order('created_at', { ascending: false })
+    .limit(200)
+
+  if (filters.search) {
+    query = query.ilike('property_address', likePattern(filters.search))
+  }
+  if (filters.propertyType) {
+    query = query.eq('property_type', filters.propertyType)
+  }
+  if (filters.overridden) {
+    query = query.not('override_kind', 'is', null)
+  }
+  if (filters.status) {
+    query = query.eq('notion_status', filters.status)
+  }
+  if (filters.from) {
+    query = query.gte('created_at', filters.from)
+  }
+  if (filters.to) {
+    // Inclusive of the whole "to" day
+    const until = new Date(filters.to)
+    until.setUTCDate(until.getUTCDate() + 1)
+    query = query.lt('created_at', until.toISOString())
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to load quotes: ${error.message}`)
+  }
+
+  return (data as QuoteRow[]).map(toSavedQuote)
+}
+
+// Remember the quote's Notion row once it has been sent, so quote history can link it before the next sync
+export async function setQuoteNotionPage(client: SupabaseClient, quoteId: string, pageId: string): Promise<void> {
+  const { error } = await client
+    .from('quotes')
+    .update({ notion_page_id: pageId })
+    .eq('id', quoteId)
+
+  if (error) {
+    throw new Error(`Failed to save the quote's Notion page: ${error.message}`)
+  }
+}
@@ -0,0 +1,66 @@
+// Reprices a quote posted by the browser under the rate card it names. Deno only.
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import type { CalculatorFormData, QuoteBreakdown, QuoteCalculations, RoomData } from './pricing.ts'
+import type { PricedQuoteOption, QuoteOption } from './quoteOptions.ts'
+import type { RateCard } from './rateSettings.ts'
+import { loadRateCard } from './rateSettingsStore.ts'
+import { validateRoomsForPropertyType, validateRoomWeights } from './roomCatalogue.ts'
+import { loadRoomCatalogue } from './roomCatalogueStore.ts'
+import { validateQuoteSubmission, type FieldError } from './validation.ts'
+
+export interface QuoteSubmission {
+  // Saved quote to update; a new quote is created when omitted, or when the caller may not update it
+  quoteId?: string;
+  // The quote's edit token, from the save that created it; not needed by a signed-in admin
+  editToken?: string;
+  formData: CalculatorFormData;
+  calculations: QuoteCalculations;
+  // Rate card the browser priced with; the current card when omitted
+  rateCardId?: string;
+  // Options of a multi-option quote; formData and calculations are the accepted (or first) one
+  options?: QuoteOption[];
+  acceptedOption?: number | null;
+}
+
+export type PricedSubmission =
+  | { ok: true; rateCard: RateCard; breakdown: QuoteBreakdown; options: PricedQuoteOption[]; acceptedOption: number | null }
+  | { ok: false; errors: FieldError[] }
+
+export async function priceSubmission(client: SupabaseClient, submission: QuoteSubmission): Promise<PricedSubmission> {
+  const rateCard = await loadRateCard(client, submission.rateCardId)
+
+  if (!rateCard) {
+    return { ok: false, errors: [{ field: 'rateCardId', message: `Unknown rate card "${submission.rateCardId}"` }] }
+  }
+
+  const validation = validateQuoteSubmission(submission, rateCard.settings)
+
+  if (!validation.ok) {
+    return validation
+  }
+
+  // The catalogue decides which rooms each property type can have and what they weigh, in every option
+  const catalogue = await loadRoomCatalogue(client)
+  const validateRooms = (rooms: RoomData) => [
+    ...validateRoomsForPropertyType(rooms, submission.formData.propertyType, catalogue),
+    ...validateRoomWeights(rooms, catalogue),
+  ]
+  const roomErrors = [
+    ...validateRooms(submission.formData.rooms),
+    ...validation.options.flatMap((option, index) =>
+      validateRooms(option.rooms)
+        .map(error => ({ ...error, field: error.field.replace(/^formData\./, `options[${index}].`) }))),
+  ]
+
+  if (roomErrors.length > 0) {
+    return { ok: false, errors: roomErrors }
+  }
+
+  return {
+    ok: true,
+    rateCard,
+    breakdown: validation.breakdown,
+    options: validation.options,
+    acceptedOption: validation.options.length > 0 ? submission.acceptedOption ?? null : null,
+  }
+}
@@ -0,0 +1,188 @@
+// Pulling what the sales team does in Notion back onto saved quotes, answered by the notion-sync edge function.
+// Shared with the browser so quote history names statuses and conflicts the same way.
+
+export type QuoteStatus = 'sent' | 'accepted' | 'lost';
+
+export const quoteStatusLabels: { [status in QuoteStatus]: string } = {
+  sent: 'Sent',
+  accepted: 'Accepted',
+  lost: 'Lost',
+};
+
+export const QUOTE_STATUSES = Object.keys(quoteStatusLabels) as QuoteStatus[];
+
+export const isQuoteStatus = (value: unknown): value is QuoteStatus =>
+  typeof value === 'string' && value in quoteStatusLabels;
+
+// Status values used in the Notion Quotes database and the quote status each one means.
+// The NOTION_STATUS_MAP secret adds to or replaces these; values are matched ignoring case.
+export const defaultNotionStatusMap: { [notionStatus: string]: QuoteStatus } = {
+  Sent: 'sent',
+  Accepted: 'accepted',
+  Lost: 'lost',
+};
+
+// The default status map with overrides applied, e.g. { "Won": "accepted", "Declined": "lost" }
+export const resolveNotionStatusMap = (overrides: unknown): { [notionStatus: string]: QuoteStatus } => {
+  if (overrides === undefined || overrides === null) return defaultNotionStatusMap;
+  if (typeof overrides !== 'object' || Array.isArray(overrides)) {
+    throw new Error('Notion status map must be an object of Notion status values');
+  }
+
+  const invalid = Object.entries(overrides).filter(([, status]) => !isQuoteStatus(status));
+  if (invalid.length > 0) {
+    throw new Error(
+      `Invalid Notion status map: ${invalid.map(([value]) => `"${value}"`).join(', ')} must map to one of ${QUOTE_STATUSES.join(', ')}`
+    );
+  }
+
+  return { ...defaultNotionStatusMap, ...(overrides as { [notionStatus: string]: QuoteStatus }) };
+};
+
+export const toQuoteStatus = (notionStatus: string, statusMap: { [notionStatus: string]: QuoteStatus }): QuoteStatus | null => {
+  const wanted = notionStatus.trim().toLowerCase();
+  const match = Object.keys(statusMap).find(value => value.trim().toLowerCase() === wanted);
+  return match ? statusMap[match] : null;
+};
+
+export type QuoteSyncConflictKind =
+  | 'unknown_status'        // The row's Status isn't in the status map, so the quote keeps its last status
+  | 'duplicate_pages'       // Several rows carry the quote's id; the oldest one is used
+  | 'quote_not_found'       // The row's Quote ID isn't a saved quote
+  | 'lost_after_accepting'; // Notion says Lost but an option was accepted in the calculator
+
+export interface QuoteSyncConflict {
+  quoteId: string | null;
+  notionPageId: string;
+  kind: QuoteSyncConflictKind;
+  // The Notion value that caused it, such as the unknown Status
+  notionValue: string | null;
+  message: string;
+  detectedAt?: string;
+}
+
+// A row of the Notion Quotes database that names a calculator quote
+export interface NotionQuoteRow {
+  pageId: string;
+  quoteId: string;
+  status: string | null;
+  followUp: string | null;
+  createdAt: string;
+  editedAt: string;
+}
+
+// What the sync needs to know about a saved quote
+export interface SyncQuoteState {
+  id: string;
+  acceptedOption: number | null;
+  notionStatus: QuoteStatus | null;
+  // When the Notion row was last edited, as of the last sync that applied it
+  notionEditedAt: string | null;
+}
+
+// New Notion state for a saved quote; status is left out when the row's Status couldn't be mapped
+export interface QuoteNotionUpdate {
+  quoteId: string;
+  pageId: string;
+  status?: QuoteStatus | null;
+  statusLabel: string | null;
+  followUp: string | null;
+  editedAt: string;
+}
+
+export interface QuoteSyncPlan {
+  updates: QuoteNotionUpdate[];
+  conflicts: QuoteSyncConflict[];
+}
+
+// The result of a sync run, as notion-sync reports it
+export interface QuoteSyncResult {
+  rows: number;
+  updated: number;
+  conflicts: QuoteSyncConflict[];
+}
+
+/**
+ * Work out what a sync changes. Notion decides a quote's status; anything it can't apply cleanly is
+ * a conflict. Rows can come in any order; of several rows for one quote, the oldest is synced, matching
+ * the row the calculator updates when a quote is resent.
+ * Quotes whose row hasn't changed since the last sync aren't updated again.
+ */
+export const planQuoteSync = (
+  rows: NotionQuoteRow[],
+  quotes: SyncQuoteState[],
+  statusMap: { [notionStatus: string]: QuoteStatus },
+): QuoteSyncPlan => {
+  const quotesById = new Map(quotes.map(quote => [quote.id, quote]));
+  const rowsByQuote = new Map<string, NotionQuoteRow[]>();
+  // Quotient's rows and rows added by hand have no Quote ID and aren't ours to sync
+  for (const row of rows.filter(row => row.quoteId?.trim())) {
+    rowsByQuote.set(row.quoteId, [...(rowsByQuote.get(row.quoteId) ?? []), row]);
+  }
+
+  const updates: QuoteNotionUpdate[] = [];
+  const conflicts: QuoteSyncConflict[] = [];
+
+  for (const [quoteId, quoteRows] of rowsByQuote) {
+    const [row, ...duplicates] = [...quoteRows].sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt));
+    const quote = quotesById.get(quoteId);
+    if (!quote) {
+      conflicts.push({
+        quoteId: null,
+        notionPageId: row.pageId,
+        kind: 'quote_not_found',
+        notionValue: quoteId,
+        message: `Notion row has Quote ID ${quoteId}, which isn't a saved quote`,
+      });
+      continue;
+    }
+
+    for (const duplicate of duplicates) {
+      conflicts.push({
+        quoteId,
+        notionPageId: duplicate.pageId,
+        kind: 'duplicate_pages',
+        notionValue: duplicate.status,
+        message: 'Another Notion row has this quote\'s id; only the oldest row is synced',
+      });
+    }
+
+    const status = row.status ? toQuoteStatus(row.status, statusMap) : null;
+    if (row.status && !status) {
+      conflicts.push({
+        quoteId,
+        notionPageId: row.pageId,
+        kind: 'unknown_status',
+        notionValue: row.status,
+        message: `Notion Status "${row.status}" isn't mapped to Sent, Accepted or Lost`,
+      });
+    }
+    if (status === 'lost' && quote.acceptedOption !== null) {
+      conflicts.push({
+        quoteId,
+        notionPageId: row.pageId,
+        kind: 'lost_after_accepting',
+        notionValue: row.status,
+        message: 'Marked Lost in Notion, but an option was accepted in the calculator',
+      });
+    }
+
+    // A status map change can map a row nobody has edited since, so compare the status too
+    const known = !row.status || status !== null;
+    const unchanged = quote.notionEditedAt !== null &&
+      Date.parse(quote.notionEditedAt) === Date.parse(row.editedAt) &&
+      (!known || status === quote.notionStatus);
+    if (unchanged) continue;
+
+    updates.push({
+      quoteId,
+      pageId: row.pageId,
+      ...(known ? { status } : {}),
+      statusLabel: row.status,
+      followUp: row.followUp,
+      editedAt: row.editedAt,
+    });
+  }
+
+  return { updates, conflicts };
+};
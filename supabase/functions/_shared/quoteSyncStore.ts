@@ -0,0 +1,172 @@
+// Reads and writes what the Notion sync keeps on public.quotes and public.quote_sync_conflicts. Deno only.
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import type {
+  QuoteNotionUpdate,
+  QuoteStatus,
+  QuoteSyncConflict,
+  QuoteSyncConflictKind,
+  SyncQuoteState,
+} from './quoteSync.ts'
+
+// Quote IDs are typed into Notion by hand sometimes, and one that isn't a uuid fails the whole query
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// Keeps each request's id list well inside URL limits
+const ID_BATCH_SIZE = 100
+
+interface SyncQuoteRow {
+  id: string
+  accepted_option: number | null
+  notion_status: QuoteStatus | null
+  notion_edited_at: string | null
+}
+
+interface ConflictRow {
+  id: string
+  quote_id: string | null
+  notion_page_id: string
+  kind: QuoteSyncConflictKind
+  notion_value: string | null
+  message: string
+  detected_at: string
+}
+
+const CONFLICT_COLUMNS = 'id, quote_id, notion_page_id, kind, notion_value, message, detected_at'
+
+const toConflict = (row: ConflictRow): QuoteSyncConflict => ({
+  quoteId: row.quote_id,
+  notionPageId: row.notion_page_id,
+  kind: row.kind,
+  notionValue: row.notion_value,
+  message: row.message,
+  detectedAt: row.detected_at,
+})
+
+// A conflict is the same one while the same Notion row has the same kind of problem
+const conflictKey = (conflict: { notionPageId: string, kind: QuoteSyncConflictKind }) => `${conflict.notionPageId}:${conflict.kind}`
+
+// The saved quotes among the ids; ids that aren't saved quotes are left out
+export async function loadSyncQuotes(client: SupabaseClient, quoteIds: string[]): Promise<SyncQuoteState[]> {
+  const ids = [...new Set(quoteIds)].filter(id => UUID_PATTERN.test(id))
+  const quotes: SyncQuoteState[] = []
+
+  for (let start = 0; start < ids.length; start += ID_BATCH_SIZE) {
+    const { data, error } = await client
+      .from('quotes')
+      .select('id, accepted_option, notion_status, notion_edited_at')
+      .in('id', ids.slice(start, start + ID_BATCH_SIZE))
+
+    if (error) {
+      throw new Error(`Failed to load quotes to sync: ${error.message}`)
+    }
+
+    for (const row of data as SyncQuoteRow[]) {
+      quotes.push({
+        id: row.id,
+        acceptedOption: row.accepted_option,
+        notionStatus: row.notion_status,
+        notionEditedAt: row.notion_edited_at,
+      })
+    }
+  }
+
+  return quotes
+}
+
+// Only the Notion columns change: updated_at stays the time the quote itself was last saved
+export async function applyQuoteNotionUpdates(client: SupabaseClient, updates: QuoteNotionUpdate[]): Promise<void> {
+  for (const update of updates) {
+    const { error } = await client
+      .from('quotes')
+      .update({
+        notion_page_id: update.pageId,
+        ...(update.status !== undefined ? { notion_status: update.status } : {}),
+        notion_status_label: update.statusLabel,
+        notion_follow_up: update.followUp,
+        notion_edited_at: update.editedAt,
+      })
+      .eq('id', update.quoteId)
+
+    if (error) {
+      throw new Error(`Failed to save the Notion status of quote ${update.quoteId}: ${error.message}`)
+    }
+  }
+}
+
+async function loadOpenConflictRows(client: SupabaseClient): Promise<ConflictRow[]> {
+  const { data, error } = await client
+    .from('quote_sync_conflicts')
+    .select(CONFLICT_COLUMNS)
+    .is('resolved_at', null)
+    .order('detected_at', { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to load quote sync conflicts: ${error.message}`)
+  }
+
+  return data as ConflictRow[]
+}
+
+export async function loadOpenSyncConflicts(client: SupabaseClient): Promise<QuoteSyncConflict[]> {
+  return (await loadOpenConflictRows(client)).map(toConflict)
+}
+
+/**
+ * Make the open conflicts match what this sync found: new ones are added, ones still found keep
+ * their detection time, and ones no longer found are marked resolved.
+ */
+export async function recordSyncConflicts(client: SupabaseClient, conflicts: QuoteSyncConflict[]): Promise<void> {
+  const open = await loadOpenConflictRows(client)
+  const openByKey = new Map(open.map(row => [conflictKey({ notionPageId: row.notion_page_id, kind: row.kind }), row]))
+  const foundKeys = new Set(conflicts.map(conflictKey))
+
+  const resolvedIds = open
+    .filter(row => !foundKeys.has(conflictKey({ notionPageId: row.notion_page_id, kind: row.kind })))
+    .map(row => row.id)
+
+  if (resolvedIds.length > 0) {
+    const { error } = await client
+      .from('quote_sync_conflicts')
+      .update({ resolved_at: new Date().toISOString() })
+      .in('id', resolvedIds)
+
+    if (error) {
+      throw new Error(`Failed to resolve quote sync conflicts: ${error.message}`)
+    }
+  }
+
+  const added = []
+  for (const conflict of conflicts) {
+    const existing = openByKey.get(conflictKey(conflict))
+    if (!existing) {
+      added.push({
+        quote_id: conflict.quoteId,
+        notion_page_id: conflict.notionPageId,
+        kind: conflict.kind,
+        notion_value: conflict.notionValue,
+        message: conflict.message,
+      })
+      continue
+    }
+
+    // Still open, but the value behind it may have changed, such as a different unknown Status
+    if (existing.notion_value !== conflict.notionValue || existing.message !== conflict.message) {
+      const { error } = await client
+        .from('quote_sync_conflicts')
+        .update({ notion_value: conflict.notionValue, message: conflict.message })
+        .eq('id', existing.id)
+
+      if (error) {
+        throw new Error(`Failed to update quote sync conflict: ${error.message}`)
+      }
+    }
+  }
+
+  if (added.length > 0) {
+    const { error } = await client.from('quote_sync_conflicts').insert(added)
+
+    if (error) {
+      throw new Error(`Failed to record quote sync conflicts: ${error.message}`)
+    }
+  }
+}
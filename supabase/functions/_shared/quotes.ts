@@ -0,0 +1,91 @@
+// Saved quotes as stored in public.quotes and exchanged with the quotes edge function.
+
+import type { CalculatorFormData, QuoteCalculations } from './pricing.ts';
+import type { PricedQuoteOption } from './quoteOptions.ts';
+import type { QuoteStatus } from './quoteSync.ts';
+
+// The quote's row in Notion, as the last sync found it
+export interface QuoteNotionState {
+  pageId: string;
+  // Null until the sales team sets a Status that maps to one
+  status: QuoteStatus | null;
+  // Status as written in Notion
+  statusLabel: string | null;
+  followUp: string | null;
+  editedAt: string | null;
+}
+
+export interface SavedQuote {
+  id: string;
+  // Sequential number shown to customers, e.g. on the PDF
+  quoteNumber: number;
+  createdAt: string;
+  updatedAt: string;
+  // The accepted option, or the first until one is accepted, when the quote has options
+  formData: CalculatorFormData;
+  calculations: QuoteCalculations;
+  rateCardId: string;
+  // Empty unless the quote offers several options
+  options: PricedQuoteOption[];
+  acceptedOption: number | null;
+  // Null until the quote has been sent to Notion
+  notion: QuoteNotionState | null;
+  // Lets the calculator update the quote later; only on the response to saving it
+  editToken?: string;
+}
+
+export interface QuoteFilters {
+  search?: string;       // Matched against the property address
+  propertyType?: string;
+  overridden?: boolean;  // Only quotes with a manual discount or premium
+  status?: QuoteStatus;  // Status synced from Notion
+  from?: string;         // ISO date, inclusive
+  to?: string;           // ISO date, inclusive
+}
+
+// Row shape in public.quotes
+export interface QuoteRow {
+  id: string;
+  quote_number: number;
+  created_at: string;
+  updated_at: string;
+  property_address: string | null;
+  property_type: string | null;
+  final_quote: number | null;
+  form_data: CalculatorFormData;
+  calculations: QuoteCalculations;
+  rate_card_id: string;
+  options: PricedQuoteOption[];
+  accepted_option: number | null;
+  notion_page_id: string | null;
+  notion_status: QuoteStatus | null;
+  notion_status_label: string | null;
+  notion_follow_up: string | null;
+  notion_edited_at: string | null;
+}
+
+export const QUOTE_COLUMNS = 'id, quote_number, created_at, updated_at, property_address, property_type, final_quote, form_data, calculations, rate_card_id, options, accepted_option, notion_page_id, notion_status, notion_status_label, notion_follow_up, notion_edited_at';
+
+export const toSavedQuote = (row: QuoteRow): SavedQuote => ({
+  id: row.id,
+  quoteNumber: row.quote_number,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+  formData: row.form_data,
+  calculations: row.calculations,
+  rateCardId: row.rate_card_id,
+  options: row.options ?? [],
+  acceptedOption: row.accepted_option,
+  notion: row.notion_page_id
+    ? {
+      pageId: row.notion_page_id,
+      status: row.notion_status,
+      statusLabel: row.notion_status_label,
+      followUp: row.notion_follow_up,
+      editedAt: row.notion_edited_at,
+    }
+    : null,
+});
+
+// Quote number as customers see it, e.g. "Q-00042"
+export const formatQuoteNumber = (quoteNumber: number): string => `Q-${String(quoteNumber).padStart(5, '0')}`;
@@ -0,0 +1,377 @@
+// Rate cards: immutable, versioned snapshots of the rate settings kept in public.rate_cards,
+// plus the validation both the admin page and the rate-settings edge function apply before publishing.
+
+import {
+  GST_RATE,
+  roundingRuleLabels,
+  staticPropertyTypes,
+  staticRateSettings,
+  staticStylingTypes,
+  type ExtraItem,
+  type HireSettings,
+  type RateSettings,
+  type RoundingRule,
+  type StylingRule,
+} from './pricing.ts';
+import type { FieldError } from './validation.ts';
+
+// Bump when the stored shape changes, and teach parseRateSettings to upgrade the old shape
+export const RATE_SETTINGS_SCHEMA_VERSION = 6;
+
+// JSON has no Infinity, so the open-ended last band is stored with a null upper bound
+interface StoredPriceRange {
+  maxPrice: number | null;
+  rate: number;
+}
+
+interface StoredDistanceRange {
+  maxDistance: number | null;
+  rate: number;
+}
+
+interface StoredHireExtensionBand {
+  maxRooms: number | null;
+  rate: number;
+}
+
+export interface StoredRateSettingsV1 {
+  schemaVersion: 1;
+  apartmentPriceRanges: StoredPriceRange[];
+  housePriceRanges: StoredPriceRange[];
+  distanceRanges: StoredDistanceRange[];
+  accessDifficultyRates: { [key: string]: number };
+  defaultRoomRates: { [propertyType: string]: number };
+}
+
+// Version 2 replaced the per property type default room rates with per styling rules
+export interface StoredRateSettingsV2 extends Omit<StoredRateSettingsV1, 'schemaVersion' | 'defaultRoomRates'> {
+  schemaVersion: 2;
+  stylingRules: { [styling: string]: StylingRule };
+}
+
+// Version 3 added the GST rate
+export interface StoredRateSettingsV3 extends Omit<StoredRateSettingsV2, 'schemaVersion'> {
+  schemaVersion: 3;
+  gstRate: number;
+}
+
+// Version 4 added minimum charges, rounding and the discount cap
+export interface StoredRateSettingsV4 extends Omit<StoredRateSettingsV3, 'schemaVersion'> {
+  schemaVersion: 4;
+  minimumCharges: { [propertyType: string]: number };
+  rounding: RoundingRule;
+  maxDiscount: number | null;
+}
+
+// Version 5 added the extras catalogue
+export interface StoredRateSettingsV5 extends Omit<StoredRateSettingsV4, 'schemaVersion'> {
+  schemaVersion: 5;
+  extras: ExtraItem[];
+}
+
+// Version 6 added the hire period
+export interface StoredRateSettingsV6 extends Omit<StoredRateSettingsV5, 'schemaVersion'> {
+  schemaVersion: 6;
+  hire: {
+    includedWeeks: number;
+    extensionRates: { [propertyType: string]: StoredHireExtensionBand[] };
+  };
+}
+
+export type StoredRateSettings =
+  | StoredRateSettingsV1
+  | StoredRateSettingsV2
+  | StoredRateSettingsV3
+  | StoredRateSettingsV4
+  | StoredRateSettingsV5
+  | StoredRateSettingsV6;
+
+const SUPPORTED_SCHEMA_VERSIONS = [1, 2, 3, 4, 5, 6];
+
+// Extras are printed on one line of the PDF, like room names
+export const MAX_EXTRA_NAME_LENGTH = 60;
+
+const toStoredBound = (value: number): number | null => (value === Infinity ? null : value);
+const fromStoredBound = (value: number | null): number => (value === null ? Infinity : value);
+
+const mapExtensionRates = <From extends { rate: number }, To>(
+  rates: { [propertyType: string]: From[] },
+  mapBand: (band: From) => To,
+): { [propertyType: string]: To[] } =>
+  Object.fromEntries(Object.entries(rates).map(([propertyType, bands]) => [propertyType, bands.map(mapBand)]));
+
+const copyHireSettings = (hire: HireSettings): HireSettings => ({
+  includedWeeks: hire.includedWeeks,
+  extensionRates: mapExtensionRates(hire.extensionRates, band => ({ ...band })),
+});
+
+const copyStylingRules = (rules: RateSettings['stylingRules']): RateSettings['stylingRules'] =>
+  Object.fromEntries(Object.entries(rules).map(([styling, rule]) => [styling, { ...rule, roomRates: { ...rule.roomRates } }]));
+
+// Cards from before styling rules priced every styling the same, so each gets the old room rates unchanged
+const upgradeV1StylingRules = (defaultRoomRates: { [propertyType: string]: number }): RateSettings['stylingRules'] =>
+  Object.fromEntries(staticStylingTypes.map(styling => [
+    styling,
+    { multiplier: 1, roomPercentage: 100, roomRates: { ...defaultRoomRates } },
+  ]));
+
+export const serializeRateSettings = (settings: RateSettings): StoredRateSettingsV6 => ({
+  schemaVersion: RATE_SETTINGS_SCHEMA_VERSION,
+  apartmentPriceRanges: settings.apartmentPriceRanges.map(range => ({ ...range, maxPrice: toStoredBound(range.maxPrice) })),
+  housePriceRanges: settings.housePriceRanges.map(range => ({ ...range, maxPrice: toStoredBound(range.maxPrice) })),
+  distanceRanges: settings.distanceRanges.map(range => ({ ...range, maxDistance: toStoredBound(range.maxDistance) })),
+  accessDifficultyRates: { ...settings.accessDifficultyRates },
+  stylingRules: copyStylingRules(settings.stylingRules),
+  minimumCharges: { ...settings.minimumCharges },
+  rounding: settings.rounding,
+  maxDiscount: settings.maxDiscount,
+  extras: settings.extras.map(extra => ({ ...extra })),
+  hire: {
+    includedWeeks: settings.hire.includedWeeks,
+    extensionRates: mapExtensionRates(settings.hire.extensionRates, band => ({ ...band, maxRooms: toStoredBound(band.maxRooms) })),
+  },
+  gstRate: settings.gstRate,
+});
+
+/**
+ * Turn a stored settings value back into RateSettings.
+ * Throws on an unknown schema version rather than pricing with a shape we don't understand.
+ */
+export const parseRateSettings = (value: unknown): RateSettings => {
+  const stored = value as StoredRateSettings;
+
+  if (!stored || typeof stored !== 'object') {
+    throw new Error('Rate settings are missing');
+  }
+
+  if (!SUPPORTED_SCHEMA_VERSIONS.includes(stored.schemaVersion)) {
+    throw new Error(`Unsupported rate settings schema version: ${(stored as { schemaVersion?: unknown }).schemaVersion}`);
+  }
+
+  return {
+    apartmentPriceRanges: stored.apartmentPriceRanges.map(range => ({ ...range, maxPrice: fromStoredBound(range.maxPrice) })),
+    housePriceRanges: stored.housePriceRanges.map(range => ({ ...range, maxPrice: fromStoredBound(range.maxPrice) })),
+    distanceRanges: stored.distanceRanges.map(range => ({ ...range, maxDistance: fromStoredBound(range.maxDistance) })),
+    accessDifficultyRates: { ...stored.accessDifficultyRates },
+    stylingRules: stored.schemaVersion === 1
+      ? upgradeV1StylingRules(stored.defaultRoomRates)
+      : copyStylingRules(stored.stylingRules),
+    // Older cards had no minimums, rounding or cap, so they upgrade without changing any price
+    minimumCharges: stored.schemaVersion >= 4
+      ? { ...(stored as StoredRateSettingsV4).minimumCharges }
+      : Object.fromEntries(staticPropertyTypes.map(propertyType => [propertyType, 0])),
+    rounding: stored.schemaVersion >= 4 ? (stored as StoredRateSettingsV4).rounding : 'none',
+    maxDiscount: stored.schemaVersion >= 4 ? (stored as StoredRateSettingsV4).maxDiscount : null,
+    extras: stored.schemaVersion >= 5 ? (stored as StoredRateSettingsV5).extras.map(extra => ({ ...extra })) : [],
+    // Older cards never charged for hire, so they get the standard term with free extensions
+    hire: stored.schemaVersion >= 6
+      ? {
+        includedWeeks: (stored as StoredRateSettingsV6).hire.includedWeeks,
+        extensionRates: mapExtensionRates(
+          (stored as StoredRateSettingsV6).hire.extensionRates,
+          band => ({ ...band, maxRooms: fromStoredBound(band.maxRooms) }),
+        ),
+      }
+      : copyHireSettings(staticRateSettings.hire),
+    // Older cards were priced ex-GST with GST at the standard rate on top
+    gstRate: stored.schemaVersion >= 3 ? (stored as StoredRateSettingsV3).gstRate : GST_RATE,
+  };
+};
+
+export interface RateCard {
+  id: string;
+  effectiveFrom: string; // ISO timestamp
+  settings: RateSettings;
+}
+
+export interface StoredRateCard {
+  id: string;
+  effectiveFrom: string;
+  settings: StoredRateSettings;
+}
+
+// The card seeded by the rate cards migration, matching the static settings the calculator shipped with.
+// Where an admin had saved rates to public.settings, the migration seeds the card with those instead.
+// It predates styling rules, so like any version 1 card it prices Partial as Full.
+export const staticRateCard: RateCard = {
+  id: 'default',
+  effectiveFrom: '2025-01-01T00:00:00.000Z',
+  settings: { ...staticRateSettings, stylingRules: upgradeV1StylingRules(staticRateSettings.stylingRules['Full'].roomRates) },
+};
+
+export const serializeRateCard = (card: RateCard): StoredRateCard => ({
+  id: card.id,
+  effectiveFrom: card.effectiveFrom,
+  settings: serializeRateSettings(card.settings),
+});
+
+export const parseRateCard = (stored: StoredRateCard): RateCard => ({
+  id: stored.id,
+  effectiveFrom: stored.effectiveFrom,
+  settings: parseRateSettings(stored.settings),
+});
+
+// The card in force at a moment: the latest one whose effective date has arrived
+export const selectCurrentRateCard = (cards: RateCard[], at: Date = new Date()): RateCard | null => {
+  return cards
+    .filter(card => new Date(card.effectiveFrom).getTime() <= at.getTime())
+    .sort((a, b) => new Date(b.effectiveFrom).getTime() - new Date(a.effectiveFrom).getTime())[0] ?? null;
+};
+
+// Short human-readable name for a card, e.g. "3f2a9c1d (from 2026-07-01)"
+export const describeRateCard = (card: RateCard): string =>
+  `${card.id.slice(0, 8)} (from ${card.effectiveFrom.split('T')[0]})`;
+
+/**
+ * Check a list of band upper bounds. Bands only store their upper bound and each one starts
+ * where the previous ended, so strictly ascending bounds leave no gaps or overlaps.
+ */
+const validateBands = (field: string, bounds: number[], rates: number[]): FieldError[] => {
+  const errors: FieldError[] = [];
+
+  if (bounds.length === 0) {
+    return [{ field, message: 'At least one band is required' }];
+  }
+
+  bounds.forEach((bound, index) => {
+    const isLast = index === bounds.length - 1;
+
+    if (typeof bound !== 'number' || Number.isNaN(bound) || bound <= 0) {
+      errors.push({ field: `${field}[${index}]`, message: 'Upper bound must be a number greater than 0' });
+    } else if (!isLast && bound === Infinity) {
+      errors.push({ field: `${field}[${index}]`, message: 'Only the last band can be open-ended' });
+    } else if (index > 0 && bound <= bounds[index - 1]) {
+      errors.push({ field: `${field}[${index}]`, message: `Upper bound must be above the previous band's ${bounds[index - 1]}` });
+    }
+
+    if (typeof rates[index] !== 'number' || !Number.isFinite(rates[index])) {
+      errors.push({ field: `${field}[${index}].rate`, message: 'Rate must be a number' });
+    }
+  });
+
+  if (bounds[bounds.length - 1] !== Infinity) {
+    errors.push({ field, message: 'The last band must be open-ended (Infinity)' });
+  }
+
+  return errors;
+};
+
+export const validateRateSettings = (settings: RateSettings): FieldError[] => {
+  const errors: FieldError[] = [
+    ...validateBands(
+      'apartmentPriceRanges',
+      settings.apartmentPriceRanges.map(range => range.maxPrice),
+      settings.apartmentPriceRanges.map(range => range.rate),
+    ),
+    ...validateBands(
+      'housePriceRanges',
+      settings.housePriceRanges.map(range => range.maxPrice),
+      settings.housePriceRanges.map(range => range.rate),
+    ),
+    ...validateBands(
+      'distanceRanges',
+      settings.distanceRanges.map(range => range.maxDistance),
+      settings.distanceRanges.map(range => range.rate),
+    ),
+  ];
+
+  const accessLevels = Object.entries(settings.accessDifficultyRates);
+  if (accessLevels.length === 0) {
+    errors.push({ field: 'accessDifficultyRates', message: 'At least one access difficulty is required' });
+  }
+  for (const [level, rate] of accessLevels) {
+    if (!level.trim()) {
+      errors.push({ field: 'accessDifficultyRates', message: 'Access difficulty names cannot be blank' });
+    }
+    if (typeof rate !== 'number' || !Number.isFinite(rate)) {
+      errors.push({ field: `accessDifficultyRates.${level}`, message: 'Rate must be a number' });
+    }
+  }
+
+  for (const propertyType of staticPropertyTypes) {
+    const minimumCharge = settings.minimumCharges?.[propertyType];
+    if (typeof minimumCharge !== 'number' || !Number.isFinite(minimumCharge) || minimumCharge < 0) {
+      errors.push({ field: `minimumCharges.${propertyType}`, message: 'Minimum charge must be a number, 0 or more' });
+    }
+  }
+
+  if (!(settings.rounding in roundingRuleLabels)) {
+    errors.push({ field: 'rounding', message: `Unknown rounding rule "${settings.rounding}"` });
+  }
+
+  if (settings.maxDiscount !== null
+    && (typeof settings.maxDiscount !== 'number' || !Number.isFinite(settings.maxDiscount) || settings.maxDiscount < 0 || settings.maxDiscount > 1)) {
+    errors.push({ field: 'maxDiscount', message: 'Maximum discount must be between 0 and 100%, or blank for no cap' });
+  }
+
+  const extraIds = new Set<string>();
+  const extraNames = new Set<string>();
+  (settings.extras ?? []).forEach((extra, index) => {
+    const field = `extras[${index}]`;
+    const name = extra.name?.trim() ?? '';
+
+    if (!extra.id || extraIds.has(extra.id)) {
+      errors.push({ field: `${field}.id`, message: 'Each extra needs its own id' });
+    }
+    if (!name || name.length > MAX_EXTRA_NAME_LENGTH) {
+      errors.push({ field: `${field}.name`, message: `Names must be 1 to ${MAX_EXTRA_NAME_LENGTH} characters` });
+    } else if (extraNames.has(name.toLowerCase())) {
+      errors.push({ field: `${field}.name`, message: `"${name}" is listed more than once` });
+    }
+    if (extra.pricing !== 'fixed' && extra.pricing !== 'perUnit') {
+      errors.push({ field: `${field}.pricing`, message: `Unknown pricing "${extra.pricing}"` });
+    }
+    if (typeof extra.price !== 'number' || !Number.isFinite(extra.price) || extra.price <= 0) {
+      errors.push({ field: `${field}.price`, message: 'Price must be greater than 0' });
+    }
+    if (extra.pricing === 'perUnit' && !extra.unit?.trim()) {
+      errors.push({ field: `${field}.unit`, message: 'Per-unit extras need a unit, e.g. "week"' });
+    }
+
+    extraIds.add(extra.id);
+    extraNames.add(name.toLowerCase());
+  });
+
+  const { hire } = settings;
+  if (!Number.isInteger(hire?.includedWeeks) || hire.includedWeeks < 1) {
+    errors.push({ field: 'hire.includedWeeks', message: 'Included hire term must be a whole number of weeks, 1 or more' });
+  }
+  for (const propertyType of staticPropertyTypes) {
+    const field = `hire.extensionRates.${propertyType}`;
+    const bands = hire?.extensionRates?.[propertyType] ?? [];
+    errors.push(...validateBands(field, bands.map(band => band.maxRooms), bands.map(band => band.rate)));
+    bands.forEach((band, index) => {
+      if (band.rate < 0) {
+        errors.push({ field: `${field}[${index}].rate`, message: 'Weekly rate must be 0 or more' });
+      }
+    });
+  }
+
+  if (typeof settings.gstRate !== 'number' || !Number.isFinite(settings.gstRate) || settings.gstRate < 0 || settings.gstRate >= 1) {
+    errors.push({ field: 'gstRate', message: 'GST rate must be between 0 and 100%' });
+  }
+
+  for (const styling of staticStylingTypes) {
+    const field = `stylingRules.${styling}`;
+    const rule = settings.stylingRules[styling];
+    if (!rule) {
+      errors.push({ field, message: `Pricing for ${styling} styling is required` });
+      continue;
+    }
+
+    if (typeof rule.multiplier !== 'number' || !Number.isFinite(rule.multiplier) || rule.multiplier <= 0) {
+      errors.push({ field: `${field}.multiplier`, message: 'Multiplier must be greater than 0' });
+    }
+    if (typeof rule.roomPercentage !== 'number' || rule.roomPercentage < 0 || rule.roomPercentage > 100) {
+      errors.push({ field: `${field}.roomPercentage`, message: 'Room percentage must be between 0 and 100%' });
+    }
+    for (const propertyType of staticPropertyTypes) {
+      const roomRate = rule.roomRates?.[propertyType];
+      if (typeof roomRate !== 'number' || !Number.isFinite(roomRate) || roomRate <= 0) {
+        errors.push({ field: `${field}.roomRates.${propertyType}`, message: 'Room rate must be greater than 0' });
+      }
+    }
+  }
+
+  return errors;
+};
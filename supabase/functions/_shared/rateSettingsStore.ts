@@ -0,0 +1,43 @@
+// Loads the published rate cards. Deno only.
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { parseRateCard, selectCurrentRateCard, staticRateCard, type RateCard, type StoredRateSettings } from './rateSettings.ts'
+
+interface RateCardRow {
+  id: string
+  effective_from: string
+  settings: StoredRateSettings
+}
+
+const toRateCard = (row: RateCardRow): RateCard =>
+  parseRateCard({ id: row.id, effectiveFrom: row.effective_from, settings: row.settings })
+
+// Every published card, oldest first. Falls back to the static card when none can be read,
+// so pricing keeps working exactly as it did before rates moved into the database.
+export async function loadRateCards(client: SupabaseClient): Promise<RateCard[]> {
+  const { data, error } = await client
+    .from('rate_cards')
+    .select('id, effective_from, settings')
+    .order('effective_from', { ascending: true })
+
+  if (error) {
+    console.error('Error loading rate cards, using static card:', error)
+    return [staticRateCard]
+  }
+
+  if (!data || data.length === 0) {
+    return [staticRateCard]
+  }
+
+  return (data as RateCardRow[]).map(toRateCard)
+}
+
+// The card a quote should be priced with: the one it names, or the card in force now
+export async function loadRateCard(client: SupabaseClient, rateCardId?: string): Promise<RateCard | null> {
+  const cards = await loadRateCards(client)
+
+  if (rateCardId) {
+    return cards.find(card => card.id === rateCardId) ?? null
+  }
+
+  return selectCurrentRateCard(cards) ?? staticRateCard
+}
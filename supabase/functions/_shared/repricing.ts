@@ -0,0 +1,73 @@
+// Line-by-line comparison of one quote priced under two rate cards.
+
+import { roundToCents, type QuoteBreakdown } from './pricing.ts';
+
+export interface LineItemDelta {
+  key: string;
+  label: string;
+  original: number;
+  repriced: number;
+  delta: number;
+}
+
+const lineDelta = (key: string, label: string, original: number, repriced: number): LineItemDelta => ({
+  key,
+  label,
+  original,
+  repriced,
+  delta: roundToCents(repriced - original),
+});
+
+/**
+ * Compare the breakdown a quote was sent with against the same form priced under another card.
+ * Lines present on only one side count as 0 on the other.
+ */
+export const compareBreakdowns = (original: QuoteBreakdown, repriced: QuoteBreakdown): LineItemDelta[] => {
+  const deltas: LineItemDelta[] = [];
+
+  const roomTypes = [...new Set([...original.rooms, ...repriced.rooms].map(room => room.roomType))];
+  for (const roomType of roomTypes) {
+    deltas.push(lineDelta(
+      `room:${roomType}`,
+      roomType,
+      original.rooms.find(room => room.roomType === roomType)?.subtotal ?? 0,
+      repriced.rooms.find(room => room.roomType === roomType)?.subtotal ?? 0,
+    ));
+  }
+
+  deltas.push(lineDelta('baseQuote', 'Base Quote', original.baseQuote, repriced.baseQuote));
+
+  const sources = [...new Set([...original.adjustments, ...repriced.adjustments].map(adjustment => adjustment.source))];
+  for (const source of sources) {
+    const originalAdjustment = original.adjustments.find(adjustment => adjustment.source === source);
+    const repricedAdjustment = repriced.adjustments.find(adjustment => adjustment.source === source);
+    deltas.push(lineDelta(
+      `adjustment:${source}`,
+      (repricedAdjustment ?? originalAdjustment).label,
+      originalAdjustment?.amount ?? 0,
+      repricedAdjustment?.amount ?? 0,
+    ));
+  }
+
+  deltas.push(lineDelta('variation', 'Variation', original.variation, repriced.variation));
+
+  deltas.push(lineDelta('hireExtension', 'Hire extension', original.hireExtension, repriced.hireExtension));
+
+  const extraIds = [...new Set([...original.extras, ...repriced.extras].map(extra => extra.extraId))];
+  for (const extraId of extraIds) {
+    const originalExtra = original.extras.find(extra => extra.extraId === extraId);
+    const repricedExtra = repriced.extras.find(extra => extra.extraId === extraId);
+    deltas.push(lineDelta(
+      `extra:${extraId}`,
+      (repricedExtra ?? originalExtra).name,
+      originalExtra?.subtotal ?? 0,
+      repricedExtra?.subtotal ?? 0,
+    ));
+  }
+
+  deltas.push(lineDelta('finalQuote', 'Final Quote (ex GST)', original.finalQuote, repriced.finalQuote));
+  deltas.push(lineDelta('gst', 'GST', original.gst, repriced.gst));
+  deltas.push(lineDelta('finalQuoteIncGst', 'Final Quote (inc GST)', original.finalQuoteIncGst, repriced.finalQuoteIncGst));
+
+  return deltas;
+};
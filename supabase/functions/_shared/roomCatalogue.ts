@@ -0,0 +1,120 @@
+// The managed room catalogue: every room type the calculator offers and the rules it follows,
+// plus the checks a custom room has to pass before it joins a quote or the catalogue.
+
+import { staticPropertyTypes, type RoomData } from './pricing.ts';
+import type { FieldError } from './validation.ts';
+
+export interface CatalogueRoom {
+  name: string;
+  weight: number;
+  // Count and item quantity % the room starts at on a new quote (optional rooms: once shown)
+  defaultCount: number;
+  defaultPercentage: number;
+  // Core rooms are always listed; optional rooms are picked per quote
+  isCore: boolean;
+  // Property types the room can be quoted for; empty means all of them
+  propertyTypes: string[];
+}
+
+export const MAX_ROOM_NAME_LENGTH = 60;
+
+// A room promoted from a quote starts as an optional room with no defaults beyond its weight
+export const promotedRoom = (name: string, weight: number): CatalogueRoom => ({
+  name,
+  weight,
+  defaultCount: 0,
+  defaultPercentage: 100,
+  isCore: false,
+  propertyTypes: [],
+});
+
+export const isRoomAllowed = (room: CatalogueRoom, propertyType: string): boolean =>
+  !propertyType || room.propertyTypes.length === 0 || room.propertyTypes.includes(propertyType);
+
+// Catalogue rooms at their defaults, in the shape the calculator form uses
+export const toRoomData = (rooms: CatalogueRoom[]): RoomData =>
+  Object.fromEntries(rooms.map(room => [
+    room.name,
+    { count: room.defaultCount, percentage: room.defaultPercentage, weight: room.weight },
+  ]));
+
+// existingNames are the rooms already on the quote or in the catalogue; names match case-insensitively
+export const validateCustomRoom = (room: Pick<CatalogueRoom, 'name' | 'weight'>, existingNames: string[]): FieldError[] => {
+  const errors: FieldError[] = [];
+  const name = room.name?.trim() ?? '';
+
+  if (!name) {
+    errors.push({ field: 'name', message: 'Room name is required' });
+  } else if (name.length > MAX_ROOM_NAME_LENGTH) {
+    errors.push({ field: 'name', message: `Room name must be ${MAX_ROOM_NAME_LENGTH} characters or fewer` });
+  } else if (existingNames.some(existing => existing.toLowerCase() === name.toLowerCase())) {
+    errors.push({ field: 'name', message: `There is already a room called "${name}"` });
+  }
+
+  if (typeof room.weight !== 'number' || !Number.isFinite(room.weight) || room.weight <= 0) {
+    errors.push({ field: 'weight', message: 'Weight must be greater than 0' });
+  }
+
+  return errors;
+};
+
+// Checks the whole catalogue as the admin page saves it
+export const validateRoomCatalogue = (rooms: CatalogueRoom[]): FieldError[] => {
+  const errors: FieldError[] = [];
+
+  if (rooms.length === 0) {
+    return [{ field: 'rooms', message: 'At least one room is required' }];
+  }
+
+  rooms.forEach((room, index) => {
+    const field = `rooms[${index}]`;
+    const earlierNames = rooms.slice(0, index).map(earlier => earlier.name);
+
+    for (const error of validateCustomRoom(room, earlierNames)) {
+      errors.push({ field: `${field}.${error.field}`, message: error.message });
+    }
+    if (!Number.isInteger(room.defaultCount) || room.defaultCount < 0) {
+      errors.push({ field: `${field}.defaultCount`, message: 'Default count must be a whole number, 0 or more' });
+    }
+    if (typeof room.defaultPercentage !== 'number' || room.defaultPercentage < 0 || room.defaultPercentage > 100) {
+      errors.push({ field: `${field}.defaultPercentage`, message: 'Default item quantity must be between 0 and 100%' });
+    }
+    for (const propertyType of room.propertyTypes ?? []) {
+      if (!staticPropertyTypes.includes(propertyType)) {
+        errors.push({ field: `${field}.propertyTypes`, message: `Unknown property type "${propertyType}"` });
+      }
+    }
+  });
+
+  return errors;
+};
+
+// Catalogue rooms on a quote must be allowed for its property type; custom rooms aren't restricted
+export const validateRoomsForPropertyType = (rooms: RoomData, propertyType: string, catalogue: CatalogueRoom[]): FieldError[] => {
+  const errors: FieldError[] = [];
+
+  for (const room of catalogue) {
+    if (rooms[room.name]?.count > 0 && !isRoomAllowed(room, propertyType)) {
+      errors.push({ field: `formData.rooms.${room.name}.count`, message: `${room.name} can't be quoted for a ${propertyType}` });
+    }
+  }
+
+  return errors;
+};
+
+// Rooms on a quote named like a catalogue room are priced at the catalogue's weight; only custom rooms bring their own
+export const validateRoomWeights = (rooms: RoomData, catalogue: CatalogueRoom[]): FieldError[] => {
+  const errors: FieldError[] = [];
+
+  for (const [roomType, room] of Object.entries(rooms)) {
+    const catalogueRoom = catalogue.find(candidate => candidate.name.toLowerCase() === roomType.toLowerCase());
+    if (catalogueRoom && room.count > 0 && room.weight !== catalogueRoom.weight) {
+      errors.push({
+        field: `formData.rooms.${roomType}.weight`,
+        message: `${catalogueRoom.name} has a weight of ${catalogueRoom.weight} in the room catalogue`,
+      });
+    }
+  }
+
+  return errors;
+};
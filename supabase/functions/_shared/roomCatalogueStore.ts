@@ -0,0 +1,56 @@
+// Loads the managed room catalogue. Deno only.
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import type { CatalogueRoom } from './roomCatalogue.ts'
+import { staticRoomCatalogue } from './rooms.ts'
+
+export interface RoomTypeRow {
+  name: string
+  weight: number
+  default_count: number
+  default_percentage: number
+  is_core: boolean
+  property_types: string[] | null
+  sort_order: number
+}
+
+export const ROOM_TYPE_COLUMNS = 'name, weight, default_count, default_percentage, is_core, property_types, sort_order'
+
+export const toCatalogueRoom = (row: RoomTypeRow): CatalogueRoom => ({
+  name: row.name,
+  weight: Number(row.weight),
+  defaultCount: row.default_count,
+  defaultPercentage: Number(row.default_percentage),
+  isCore: row.is_core,
+  propertyTypes: row.property_types ?? [],
+})
+
+// Rows keep the catalogue's order, which is the order the calculator lists rooms in
+export const toRoomTypeRow = (room: CatalogueRoom, sortOrder: number): RoomTypeRow => ({
+  name: room.name.trim(),
+  weight: room.weight,
+  default_count: room.defaultCount,
+  default_percentage: room.defaultPercentage,
+  is_core: room.isCore,
+  property_types: room.propertyTypes,
+  sort_order: sortOrder,
+})
+
+// The whole catalogue in display order. Falls back to the built-in rooms when none can be read.
+export async function loadRoomCatalogue(client: SupabaseClient): Promise<CatalogueRoom[]> {
+  const { data, error } = await client
+    .from('room_types')
+    .select(ROOM_TYPE_COLUMNS)
+    .order('sort_order', { ascending: true })
+    .order('name', { ascending: true })
+
+  if (error) {
+    console.error('Error loading room catalogue, using built-in rooms:', error)
+    return staticRoomCatalogue
+  }
+
+  if (!data || data.length === 0) {
+    return staticRoomCatalogue
+  }
+
+  return (data as RoomTypeRow[]).map(toCatalogueRoom)
+}
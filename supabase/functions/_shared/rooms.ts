@@ -0,0 +1,32 @@
+// Built-in room catalogue, shared by the calculator and the edge functions.
+// public.room_types is seeded from it and replaces it once loaded; it stays as the offline fallback.
+
+import type { RoomData } from './pricing.ts';
+import { toRoomData, type CatalogueRoom } from './roomCatalogue.ts';
+
+export const staticRoomCatalogue: CatalogueRoom[] = [
+  // Core room types (always visible)
+  { name: 'Living Room', weight: 2, defaultCount: 1, defaultPercentage: 100, isCore: true, propertyTypes: [] },
+  { name: 'Dining Room', weight: 1, defaultCount: 1, defaultPercentage: 100, isCore: true, propertyTypes: [] },
+  { name: 'Kitchen', weight: 0.5, defaultCount: 1, defaultPercentage: 100, isCore: true, propertyTypes: [] },
+  { name: 'Master Bedroom', weight: 1.5, defaultCount: 1, defaultPercentage: 100, isCore: true, propertyTypes: [] },
+  { name: 'Master Wardrobe', weight: 0.5, defaultCount: 0, defaultPercentage: 100, isCore: true, propertyTypes: ['House'] },
+  { name: 'Standard Bedroom', weight: 1, defaultCount: 0, defaultPercentage: 100, isCore: true, propertyTypes: [] },
+  { name: 'Standard Bathroom', weight: 0.25, defaultCount: 0, defaultPercentage: 100, isCore: true, propertyTypes: [] },
+  { name: 'Outdoor (large)', weight: 1.5, defaultCount: 0, defaultPercentage: 100, isCore: true, propertyTypes: [] },
+  { name: 'Outdoor (small)', weight: 0.5, defaultCount: 0, defaultPercentage: 100, isCore: true, propertyTypes: [] },
+  // Optional room types (hidden by default)
+  { name: 'Foyer/Entry', weight: 0.5, defaultCount: 0, defaultPercentage: 100, isCore: false, propertyTypes: [] },
+  { name: 'Family Room/Lounge', weight: 1.5, defaultCount: 0, defaultPercentage: 100, isCore: false, propertyTypes: [] },
+  { name: 'Hallway', weight: 0.5, defaultCount: 0, defaultPercentage: 100, isCore: false, propertyTypes: [] },
+  { name: 'Pantry', weight: 0.25, defaultCount: 0, defaultPercentage: 100, isCore: false, propertyTypes: [] },
+  { name: 'Laundry', weight: 0.25, defaultCount: 0, defaultPercentage: 100, isCore: false, propertyTypes: [] },
+  { name: 'Office', weight: 1, defaultCount: 0, defaultPercentage: 100, isCore: false, propertyTypes: [] },
+  { name: 'Study', weight: 1, defaultCount: 0, defaultPercentage: 100, isCore: false, propertyTypes: [] },
+];
+
+export const coreRooms: RoomData = toRoomData(staticRoomCatalogue.filter(room => room.isCore));
+export const optionalRooms: RoomData = toRoomData(staticRoomCatalogue.filter(room => !room.isCore));
+
+// Combine all rooms
+export const allRooms: RoomData = { ...coreRooms, ...optionalRooms };
@@ -0,0 +1,45 @@
+// Supabase clients for edge functions. Deno only: the browser talks to the edge functions instead.
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2'
+
+// Service-role client for reads and writes the function itself is responsible for
+export function createServiceClient(): SupabaseClient {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY environment variables are required')
+  }
+
+  return createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false },
+  })
+}
+
+// Client acting as the caller, so row level security policies apply to it
+export function createUserClient(req: Request): SupabaseClient {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')
+  const anonKey = Deno.env.get('SUPABASE_ANON_KEY')
+
+  if (!supabaseUrl || !anonKey) {
+    throw new Error('SUPABASE_URL and SUPABASE_ANON_KEY environment variables are required')
+  }
+
+  return createClient(supabaseUrl, anonKey, {
+    auth: { persistSession: false },
+    global: {
+      headers: { Authorization: req.headers.get('Authorization') ?? '' },
+    },
+  })
+}
+
+// True when the caller's JWT belongs to a profile with the admin role
+export async function isAdmin(req: Request): Promise<boolean> {
+  const { data, error } = await createUserClient(req).rpc('get_current_user_role')
+
+  if (error) {
+    console.error('Error checking user role:', error)
+    return false
+  }
+
+  return data === 'admin'
+}
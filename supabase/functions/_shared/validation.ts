@@ -0,0 +1,301 @@
+// Validation of quote payloads posted to the edge functions.
+// Shared with the browser so the calculator can explain a rejection in the same terms.
+
+import {
+  MAX_OVERRIDE_REASON_LENGTH,
+  priceQuote,
+  staticPropertyTypes,
+  toQuoteCalculations,
+  type CalculatorFormData,
+  type PriceOverride,
+  type QuoteBreakdown,
+  type QuoteCalculations,
+  type RateSettings,
+} from './pricing.ts';
+import {
+  leadOptionIndex,
+  MAX_OPTION_NAME_LENGTH,
+  MAX_QUOTE_OPTIONS,
+  optionFromFormData,
+  withOption,
+  type PricedQuoteOption,
+  type QuoteOption,
+} from './quoteOptions.ts';
+import { MAX_ROOM_NAME_LENGTH } from './roomCatalogue.ts';
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export interface ValidationErrorBody {
+  error: string;
+  fields: FieldError[];
+}
+
+// Submitted totals may differ from the server's by at most this much before we reject them
+const TOTAL_TOLERANCE = 0.01;
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// Overrides must say why, so reports can tell a deliberate discount from a pricing mistake.
+// Given the quote before the override (QuoteBreakdown.quoteBeforeOverride), a discount must also leave something to pay.
+export const validatePriceOverride = (override: PriceOverride, quoteBeforeOverride?: number): FieldError[] => {
+  const errors: FieldError[] = [];
+
+  if (!override || typeof override !== 'object') {
+    return [{ field: 'formData.override', message: 'Override must be a kind, value and reason' }];
+  }
+
+  if (override.kind !== 'percent' && override.kind !== 'amount') {
+    errors.push({ field: 'formData.override.kind', message: 'Override must be a percentage or a dollar amount' });
+  }
+
+  if (!isFiniteNumber(override.value) || override.value === 0) {
+    errors.push({ field: 'formData.override.value', message: 'Override must be a number other than 0' });
+  } else if (override.kind === 'percent' && override.value <= -1) {
+    errors.push({ field: 'formData.override.value', message: 'A percentage discount must be less than 100%' });
+  } else if (override.kind === 'amount' && quoteBeforeOverride !== undefined && quoteBeforeOverride + override.value <= 0) {
+    errors.push({
+      field: 'formData.override.value',
+      message: `A discount must be less than the quote before it ($${quoteBeforeOverride.toFixed(2)} ex GST)`,
+    });
+  }
+
+  const reason = typeof override.reason === 'string' ? override.reason.trim() : '';
+  if (!reason) {
+    errors.push({ field: 'formData.override.reason', message: 'A reason is required for every override' });
+  } else if (reason.length > MAX_OVERRIDE_REASON_LENGTH) {
+    errors.push({ field: 'formData.override.reason', message: `Reason must be at most ${MAX_OVERRIDE_REASON_LENGTH} characters` });
+  }
+
+  return errors;
+};
+
+const validateFormData = (formData: CalculatorFormData, settings: RateSettings): FieldError[] => {
+  const errors: FieldError[] = [];
+
+  if (!staticPropertyTypes.includes(formData.propertyType)) {
+    errors.push({ field: 'formData.propertyType', message: `Unknown property type "${formData.propertyType}"` });
+  }
+
+  if (settings.stylingRules[formData.styling] === undefined) {
+    errors.push({ field: 'formData.styling', message: `The rate card has no styling type "${formData.styling}"` });
+  }
+
+  if (settings.accessDifficultyRates[formData.accessDifficulty] === undefined) {
+    errors.push({ field: 'formData.accessDifficulty', message: `Unknown access difficulty "${formData.accessDifficulty}"` });
+  }
+
+  if (typeof formData.propertyAddress !== 'string') {
+    errors.push({ field: 'formData.propertyAddress', message: 'Property address must be a string' });
+  }
+
+  if (!isFiniteNumber(formData.distanceFromWarehouse) || formData.distanceFromWarehouse < 0) {
+    errors.push({ field: 'formData.distanceFromWarehouse', message: 'Distance must be a number of kilometres, 0 or more' });
+  }
+
+  if (!isFiniteNumber(formData.listingPrice) || formData.listingPrice < 0) {
+    errors.push({ field: 'formData.listingPrice', message: 'Listing price must be a number, 0 or more' });
+  }
+
+  if (!isFiniteNumber(formData.roomRate) || formData.roomRate <= 0) {
+    errors.push({ field: 'formData.roomRate', message: 'Room rate must be greater than 0' });
+  }
+
+  if (!formData.rooms || typeof formData.rooms !== 'object') {
+    errors.push({ field: 'formData.rooms', message: 'Rooms are required' });
+    return errors;
+  }
+
+  for (const [roomType, room] of Object.entries(formData.rooms)) {
+    const field = `formData.rooms.${roomType}`;
+    if (!roomType.trim() || roomType.length > MAX_ROOM_NAME_LENGTH) {
+      errors.push({ field, message: `Room names must be 1 to ${MAX_ROOM_NAME_LENGTH} characters` });
+    }
+    if (!Number.isInteger(room?.count) || room.count < 0) {
+      errors.push({ field: `${field}.count`, message: 'Count must be a whole number, 0 or more' });
+    }
+    if (!isFiniteNumber(room?.percentage) || room.percentage < 0 || room.percentage > 100) {
+      errors.push({ field: `${field}.percentage`, message: 'Item quantity must be between 0 and 100%' });
+    }
+    if (!isFiniteNumber(room?.weight) || room.weight < 0) {
+      errors.push({ field: `${field}.weight`, message: 'Weight must be a number, 0 or more' });
+    }
+  }
+
+  if (formData.hireWeeks !== undefined && (!Number.isInteger(formData.hireWeeks) || formData.hireWeeks < 1)) {
+    errors.push({ field: 'formData.hireWeeks', message: 'Hire period must be a whole number of weeks, 1 or more' });
+  }
+
+  if (formData.depot != null && (
+    typeof formData.depot !== 'object'
+    || [formData.depot.id, formData.depot.name, formData.depot.address].some(value => typeof value !== 'string' || !value.trim())
+  )) {
+    errors.push({ field: 'formData.depot', message: 'Depot must have an id, name and address' });
+  }
+
+  // The discount limit needs the quote's price, which only means something once the rest of the form is valid
+  if (formData.override != null) {
+    const quoteBeforeOverride = errors.length === 0 ? priceQuote(formData, settings).quoteBeforeOverride : undefined;
+    errors.push(...validatePriceOverride(formData.override, quoteBeforeOverride));
+  }
+
+  if (formData.extras !== undefined) {
+    if (!formData.extras || typeof formData.extras !== 'object') {
+      errors.push({ field: 'formData.extras', message: 'Extras must be quantities keyed by extra' });
+      return errors;
+    }
+
+    for (const [extraId, quantity] of Object.entries(formData.extras)) {
+      const field = `formData.extras.${extraId}`;
+      const extra = settings.extras.find(item => item.id === extraId);
+      if (!extra) {
+        errors.push({ field, message: `Unknown extra "${extraId}"` });
+      } else if (!Number.isInteger(quantity) || quantity < 0) {
+        errors.push({ field, message: 'Quantity must be a whole number, 0 or more' });
+      } else if (extra.pricing === 'fixed' && quantity > 1) {
+        errors.push({ field, message: `${extra.name} is a fixed price and can only be added once` });
+      }
+    }
+  }
+
+  return errors;
+};
+
+const sameChoices = (a: QuoteOption, b: QuoteOption): boolean =>
+  JSON.stringify([a.styling, a.roomRate, a.rooms]) === JSON.stringify([b.styling, b.roomRate, b.rooms]);
+
+// Each option is checked like the quote's own form, and the form itself must carry the lead option
+const validateOptions = (
+  formData: CalculatorFormData,
+  options: QuoteOption[],
+  acceptedOption: number | null | undefined,
+  settings: RateSettings,
+): FieldError[] => {
+  if (!Array.isArray(options)) {
+    return [{ field: 'options', message: 'Options must be a list' }];
+  }
+
+  if (options.length === 0) {
+    return acceptedOption == null
+      ? []
+      : [{ field: 'acceptedOption', message: 'Only a quote with options can have an accepted option' }];
+  }
+
+  if (options.length < 2 || options.length > MAX_QUOTE_OPTIONS) {
+    return [{ field: 'options', message: `A quote can have 2 to ${MAX_QUOTE_OPTIONS} options` }];
+  }
+
+  const errors: FieldError[] = [];
+  const names = new Set<string>();
+
+  options.forEach((option, index) => {
+    const field = `options[${index}]`;
+    if (!option || typeof option !== 'object') {
+      errors.push({ field, message: 'Option is required' });
+      return;
+    }
+
+    const name = typeof option.name === 'string' ? option.name.trim() : '';
+    if (!name || name.length > MAX_OPTION_NAME_LENGTH) {
+      errors.push({ field: `${field}.name`, message: `Option names must be 1 to ${MAX_OPTION_NAME_LENGTH} characters` });
+    } else if (names.has(name.toLowerCase())) {
+      errors.push({ field: `${field}.name`, message: `"${name}" is used by more than one option` });
+    }
+    names.add(name.toLowerCase());
+
+    for (const error of validateFormData(withOption(formData, option), settings)) {
+      errors.push({ field: error.field.replace(/^formData\./, `${field}.`), message: error.message });
+    }
+  });
+
+  if (acceptedOption != null && (!Number.isInteger(acceptedOption) || acceptedOption < 0 || acceptedOption >= options.length)) {
+    errors.push({ field: 'acceptedOption', message: 'Accepted option must be one of the options' });
+  } else if (errors.length === 0 && !sameChoices(optionFromFormData('', formData), options[leadOptionIndex(acceptedOption)])) {
+    errors.push({ field: 'formData', message: 'formData must carry the accepted option, or the first option when none is accepted' });
+  }
+
+  return errors;
+};
+
+const validateTotals = (calculations: QuoteCalculations, breakdown: QuoteBreakdown): FieldError[] => {
+  const errors: FieldError[] = [];
+  const fields: (keyof QuoteCalculations)[] = [
+    'equivalentRooms',
+    'baseQuote',
+    'variation',
+    'extrasTotal',
+    'hireExtension',
+    'finalQuote',
+    'gst',
+    'finalQuoteIncGst',
+  ];
+
+  for (const field of fields) {
+    const submitted = calculations[field];
+    if (!isFiniteNumber(submitted) || Math.abs(submitted - breakdown[field]) > TOTAL_TOLERANCE) {
+      errors.push({
+        field: `calculations.${field}`,
+        message: `Submitted ${field} ${submitted} does not match the recalculated ${breakdown[field]}`,
+      });
+    }
+  }
+
+  return errors;
+};
+
+export type QuoteValidationResult =
+  | { ok: true; breakdown: QuoteBreakdown; options: PricedQuoteOption[] }
+  | { ok: false; errors: FieldError[] };
+
+/**
+ * Validate a submitted quote and reprice it from its form data.
+ * Range errors are reported before totals, since totals are meaningless for an invalid form.
+ */
+export const validateQuoteSubmission = (
+  payload: {
+    formData?: CalculatorFormData;
+    calculations?: QuoteCalculations;
+    options?: QuoteOption[];
+    acceptedOption?: number | null;
+  },
+  settings: RateSettings,
+): QuoteValidationResult => {
+  if (!payload?.formData || typeof payload.formData !== 'object') {
+    return { ok: false, errors: [{ field: 'formData', message: 'formData is required' }] };
+  }
+
+  const formErrors = validateFormData(payload.formData, settings);
+  if (formErrors.length > 0) {
+    return { ok: false, errors: formErrors };
+  }
+
+  const options = payload.options ?? [];
+  const optionErrors = validateOptions(payload.formData, options, payload.acceptedOption, settings);
+  if (optionErrors.length > 0) {
+    return { ok: false, errors: optionErrors };
+  }
+
+  const breakdown = priceQuote(payload.formData, settings);
+
+  if (!payload.calculations || typeof payload.calculations !== 'object') {
+    return { ok: false, errors: [{ field: 'calculations', message: 'calculations are required' }] };
+  }
+
+  const totalErrors = validateTotals(payload.calculations, breakdown);
+  if (totalErrors.length > 0) {
+    return { ok: false, errors: totalErrors };
+  }
+
+  // Options are priced here rather than trusting figures from the browser
+  const { formData } = payload;
+  const pricedOptions = options.map(option => ({
+    ...option,
+    name: option.name.trim(),
+    calculations: toQuoteCalculations(priceQuote(withOption(formData, option), settings)),
+  }));
+
+  return { ok: true, breakdown, options: pricedOptions };
+};
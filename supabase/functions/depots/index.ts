@@ -0,0 +1,97 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import { validateDepots, type Depot } from '../_shared/depots.ts'
+import { loadDepots, toDepotRow } from '../_shared/depotStore.ts'
+import { createServiceClient, createUserClient, isAdmin } from '../_shared/supabaseClient.ts'
+import type { ValidationErrorBody } from '../_shared/validation.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, PUT, OPTIONS',
+}
+
+// Depots are listed in steps of 10, like the room catalogue
+const SORT_ORDER_STEP = 10
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "application/json"
+      }
+    }
+  )
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Everyone using the calculator reads the depots
+    if (req.method === 'GET') {
+      const depots = await loadDepots(createServiceClient())
+      return jsonResponse({ depots })
+    }
+
+    if (req.method !== 'PUT') {
+      return jsonResponse({ error: 'Method not allowed' }, 405)
+    }
+
+    // Only admins can change the depots
+    if (!(await isAdmin(req))) {
+      return jsonResponse({ error: 'Only admins can change the depots' }, 403)
+    }
+
+    // PUT saves the whole list from the admin page: depots left out are removed.
+    // Quotes keep a copy of the depot they were measured from, so removing one doesn't change them.
+    const { depots }: { depots: Depot[] } = await req.json()
+    const errors = validateDepots(depots ?? [])
+    if (errors.length > 0) {
+      const body: ValidationErrorBody = { error: 'Depot validation failed', fields: errors }
+      return jsonResponse(body, 422)
+    }
+
+    // Write as the caller so the depots admin policies still apply
+    const userClient = createUserClient(req)
+    const existing = await loadDepots(createServiceClient())
+
+    const { error: upsertError } = await userClient
+      .from('depots')
+      .upsert(depots.map((depot, index) => ({
+        ...toDepotRow(depot, (index + 1) * SORT_ORDER_STEP),
+        updated_at: new Date().toISOString(),
+      })))
+
+    if (upsertError) {
+      throw new Error(`Failed to save depots: ${upsertError.message}`)
+    }
+
+    const keptIds = new Set(depots.map(depot => depot.id))
+    const removedIds = existing.map(depot => depot.id).filter(id => !keptIds.has(id))
+    if (removedIds.length > 0) {
+      const { error: deleteError } = await userClient
+        .from('depots')
+        .delete()
+        .in('id', removedIds)
+
+      if (deleteError) {
+        throw new Error(`Failed to remove depots: ${deleteError.message}`)
+      }
+    }
+
+    console.log('Saved', depots.length, 'depots, removed', removedIds.length)
+
+    return jsonResponse({ success: true, depots: await loadDepots(createServiceClient()) })
+  } catch (error) {
+    console.error('Error handling depots request:', error)
+    return jsonResponse({
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    }, 500)
+  }
+})
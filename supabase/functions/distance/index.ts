@@ -0,0 +1,94 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import type { DepotDistance } from '../_shared/depots.ts'
+import { loadDepots } from '../_shared/depotStore.ts'
+import {
+  distanceErrorStatus,
+  MIN_ADDRESS_LENGTH,
+  type DistanceErrorBody,
+  type DistanceErrorCode,
+  type DistanceLookup,
+} from '../_shared/distance.ts'
+import { createDistanceCache } from '../_shared/distanceCache.ts'
+import { createDistanceProvider, DistanceError } from '../_shared/distanceProviders.ts'
+import { createServiceClient } from '../_shared/supabaseClient.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "application/json"
+      }
+    }
+  )
+}
+
+function errorResponse(code: DistanceErrorCode, error: string): Response {
+  const body: DistanceErrorBody = { error, code }
+  return jsonResponse(body, distanceErrorStatus[code])
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405)
+  }
+
+  try {
+    const data: { destination?: unknown } = await req.json().catch(() => ({}))
+    const destination = typeof data.destination === 'string' ? data.destination.trim() : ''
+
+    if (destination.length < MIN_ADDRESS_LENGTH) {
+      return errorResponse('invalid_address', `destination must be an address of at least ${MIN_ADDRESS_LENGTH} characters`)
+    }
+
+    // Measure from every depot; the calculator picks the nearest unless the stylist picks one
+    const supabase = createServiceClient()
+    const provider = createDistanceProvider(createDistanceCache(supabase))
+    const depots = await loadDepots(supabase)
+    const results = await Promise.allSettled(depots.map(depot => provider.distance(depot.address, destination)))
+
+    const distances: DepotDistance[] = []
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        distances.push({
+          depotId: depots[index].id,
+          distanceKm: result.value.distanceKm,
+          durationMinutes: result.value.durationMinutes,
+        })
+      } else {
+        console.warn(`No distance from depot ${depots[index].id}:`, result.reason)
+      }
+    })
+
+    // A depot with no route is left out; with none at all, say why the first one failed
+    if (distances.length === 0) {
+      throw (results[0] as PromiseRejectedResult).reason
+    }
+
+    console.log(`Distance via ${provider.name} to ${destination}:`, distances.map(d => `${d.depotId} ${d.distanceKm} km`).join(', '))
+
+    const lookup: DistanceLookup = { destination, provider: provider.name, distances }
+    return jsonResponse(lookup)
+  } catch (error) {
+    if (error instanceof DistanceError) {
+      console.error(`Distance lookup failed (${error.code}):`, error.message)
+      return errorResponse(error.code, error.message)
+    }
+
+    console.error('Error looking up distance:', error)
+    return errorResponse('provider_unavailable', error instanceof Error ? error.message : 'Unknown error occurred')
+  }
+})
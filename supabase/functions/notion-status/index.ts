@@ -0,0 +1,71 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import { notionPageUrl, type NotionConnection, type NotionQuoteStatus } from '../_shared/notion.ts'
+import { openNotionDatabase, requireNotionProperties } from '../_shared/notionClient.ts'
+import { findNotionPage, notionPropertyText } from '../_shared/notionUpsert.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "application/json"
+      }
+    }
+  )
+}
+
+// Whether the Quotes database can be read with the function's token and matches the property mapping; never throws
+async function testConnection(): Promise<NotionConnection> {
+  try {
+    const { title } = await openNotionDatabase('quotes')
+    return { connected: true, databaseTitle: title, error: null }
+  } catch (error) {
+    console.error('Notion connection test failed:', error)
+    return { connected: false, databaseTitle: null, error: error instanceof Error ? error.message : 'Unknown error occurred' }
+  }
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  if (req.method !== 'GET') {
+    return jsonResponse({ error: 'Method not allowed' }, 405)
+  }
+
+  try {
+    // Without a quote, report whether Notion is reachable at all
+    const quoteId = new URL(req.url).searchParams.get('quoteId')?.trim()
+    if (!quoteId) {
+      return jsonResponse(await testConnection())
+    }
+
+    const { notion, databaseId, properties } = await openNotionDatabase('quotes')
+    requireNotionProperties('quotes', properties, ['quoteId'])
+    const page = await findNotionPage(notion, databaseId, [{ property: properties.quoteId, value: quoteId }])
+
+    const status: NotionQuoteStatus = {
+      quoteId,
+      pageId: page?.id ?? null,
+      pageUrl: page ? notionPageUrl(page.id) : null,
+      status: page ? notionPropertyText(page, properties.status) : null,
+      lastEditedTime: page?.last_edited_time ?? null,
+    }
+    return jsonResponse(status)
+  } catch (error) {
+    console.error('Error looking up Notion status:', error)
+    return jsonResponse({
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    }, 500)
+  }
+})
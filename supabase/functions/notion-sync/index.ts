@@ -0,0 +1,132 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import { collectPaginatedAPI, isFullPage } from 'npm:@notionhq/client@4'
+import { openNotionDatabase, requireNotionProperties } from '../_shared/notionClient.ts'
+import { notionPropertyText } from '../_shared/notionUpsert.ts'
+import {
+  planQuoteSync,
+  resolveNotionStatusMap,
+  type NotionQuoteRow,
+  type QuoteStatus,
+  type QuoteSyncResult,
+} from '../_shared/quoteSync.ts'
+import {
+  applyQuoteNotionUpdates,
+  loadOpenSyncConflicts,
+  loadSyncQuotes,
+  recordSyncConflicts,
+} from '../_shared/quoteSyncStore.ts'
+import { createServiceClient, isAdmin } from '../_shared/supabaseClient.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-sync-secret',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "application/json"
+      }
+    }
+  )
+}
+
+// The default status map with NOTION_STATUS_MAP applied
+function loadStatusMap(): { [notionStatus: string]: QuoteStatus } {
+  const statusMap = Deno.env.get('NOTION_STATUS_MAP')
+  if (!statusMap) return resolveNotionStatusMap(null)
+
+  let overrides: unknown
+  try {
+    overrides = JSON.parse(statusMap)
+  } catch {
+    throw new Error('NOTION_STATUS_MAP must be JSON')
+  }
+  return resolveNotionStatusMap(overrides)
+}
+
+// Scheduled runs send the sync secret; anyone else has to be a signed-in admin
+async function isAllowedToSync(req: Request): Promise<boolean> {
+  const syncSecret = Deno.env.get('NOTION_SYNC_SECRET')
+  if (syncSecret && req.headers.get('x-sync-secret') === syncSecret) return true
+  return await isAdmin(req)
+}
+
+async function syncQuotes(): Promise<QuoteSyncResult> {
+  const statusMap = loadStatusMap()
+  const { notion, databaseId, properties } = await openNotionDatabase('quotes')
+  requireNotionProperties('quotes', properties, ['quoteId'])
+
+  // Quotient's rows and rows added by hand have no Quote ID and aren't ours to sync
+  const pages = await collectPaginatedAPI(notion.databases.query, {
+    database_id: databaseId,
+    filter: { property: properties.quoteId.name, rich_text: { is_not_empty: true } },
+    sorts: [{ timestamp: 'last_edited_time', direction: 'descending' }],
+  })
+
+  const rows: NotionQuoteRow[] = []
+  for (const page of pages) {
+    if (!isFullPage(page)) continue
+    const quoteId = notionPropertyText(page, properties.quoteId)
+    if (!quoteId) continue
+
+    rows.push({
+      pageId: page.id,
+      quoteId,
+      status: notionPropertyText(page, properties.status),
+      followUp: notionPropertyText(page, properties.followUp),
+      createdAt: page.created_time,
+      editedAt: page.last_edited_time,
+    })
+  }
+
+  const supabase = createServiceClient()
+  const quotes = await loadSyncQuotes(supabase, rows.map(row => row.quoteId))
+  const { updates, conflicts } = planQuoteSync(rows, quotes, statusMap)
+
+  await applyQuoteNotionUpdates(supabase, updates)
+  await recordSyncConflicts(supabase, conflicts)
+
+  console.log(`Synced ${rows.length} Notion rows: ${updates.length} quotes updated, ${conflicts.length} conflicts`)
+
+  return { rows: rows.length, updated: updates.length, conflicts }
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Open conflicts, for quote history
+    if (req.method === 'GET') {
+      if (!(await isAdmin(req))) {
+        return jsonResponse({ error: 'Only admins can view sync conflicts' }, 403)
+      }
+
+      const conflicts = await loadOpenSyncConflicts(createServiceClient())
+      return jsonResponse({ conflicts })
+    }
+
+    if (req.method !== 'POST') {
+      return jsonResponse({ error: 'Method not allowed' }, 405)
+    }
+
+    if (!(await isAllowedToSync(req))) {
+      return jsonResponse({ error: 'Only admins or the scheduled sync can sync from Notion' }, 403)
+    }
+
+    return jsonResponse(await syncQuotes())
+  } catch (error) {
+    console.error('Error syncing quotes from Notion:', error)
+    return jsonResponse({
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    }, 500)
+  }
+})
@@ -0,0 +1,85 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import { priceSubmission, type QuoteSubmission } from '../_shared/quoteSubmission.ts'
+import { listQuotes, QuoteNotFoundError, quoteUpdateTarget, saveQuote } from '../_shared/quoteStore.ts'
+import { isQuoteStatus } from '../_shared/quoteSync.ts'
+import { createServiceClient, createUserClient } from '../_shared/supabaseClient.ts'
+import type { ValidationErrorBody } from '../_shared/validation.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "application/json"
+      }
+    }
+  )
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Quote history: read as the caller so "Admins can view all quotes" decides who sees what
+    if (req.method === 'GET') {
+      const params = new URL(req.url).searchParams
+      const status = params.get('status')
+      const quotes = await listQuotes(createUserClient(req), {
+        search: params.get('search') || undefined,
+        propertyType: params.get('propertyType') || undefined,
+        overridden: params.get('overridden') === 'true',
+        status: isQuoteStatus(status) ? status : undefined,
+        from: params.get('from') || undefined,
+        to: params.get('to') || undefined,
+      })
+      return jsonResponse({ quotes })
+    }
+
+    if (req.method !== 'POST') {
+      return jsonResponse({ error: 'Method not allowed' }, 405)
+    }
+
+    // Saving is open to the calculator, but only ever stores the server's own pricing.
+    // Updating needs a signed-in admin or the quote's edit token; otherwise it is saved as a new quote.
+    const data: QuoteSubmission = await req.json()
+    const supabase = createServiceClient()
+    const validation = await priceSubmission(supabase, data)
+
+    if (!validation.ok) {
+      const body: ValidationErrorBody = { error: 'Quote validation failed', fields: validation.errors }
+      return jsonResponse(body, 422)
+    }
+
+    const quote = await saveQuote(supabase, {
+      update: await quoteUpdateTarget(req, data),
+      formData: data.formData,
+      breakdown: validation.breakdown,
+      rateCardId: validation.rateCard.id,
+      options: validation.options,
+      acceptedOption: validation.acceptedOption,
+    })
+
+    console.log('Saved quote', quote.id)
+
+    return jsonResponse({ success: true, quote })
+  } catch (error) {
+    if (error instanceof QuoteNotFoundError) {
+      return jsonResponse({ error: error.message }, 404)
+    }
+    console.error('Error handling quotes request:', error)
+    return jsonResponse({
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    }, 500)
+  }
+})
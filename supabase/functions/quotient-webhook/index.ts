@@ -1,5 +1,7 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts"
-import { Client } from 'npm:@notionhq/client'
+import { openNotionDatabase } from '../_shared/notionClient.ts'
+import { notionProperties, upsertNotionPage } from '../_shared/notionUpsert.ts'
+import { createServiceClient } from '../_shared/supabaseClient.ts'
 
 interface QuotientAddress {
   type: string;
@@ -93,32 +95,25 @@ Deno.serve(async (req) => {
       }
     }
 
-    const notionToken = Deno.env.get('NOTION_TOKEN')
-    const databaseId = Deno.env.get('NOTION_DATABASE_ID')
-
-    if (!notionToken || !databaseId) {
-      throw new Error('NOTION_TOKEN and NOTION_DATABASE_ID environment variables are required')
-    }
-
-    const notion = new Client({
-      auth: notionToken,
-    })
+    const { notion, databaseId, properties } = await openNotionDatabase('quotes')
 
     const payload: QuotientWebhookPayload = await req.json()
     
     console.log('Received Quotient webhook:', payload.event_name, payload.quote_number)
 
     // Extract data according to user requirements:
-    // quote_number → Quote # (row title)  
-    // title → Property Address
-    // first_sent → Date Sent
-    // total_excludes_tax → Amount (+GST)
-    // quote_for → Notes (concatenate name_first, name_last, email, company_name)
+    // quote_number → quoteNumber (row title)
+    // title → propertyAddress
+    // first_sent → dateSent
+    // total_includes_tax → amountIncGst
+    // total_excludes_tax → amountExGst
+    // quote_for → notes (concatenate name_first, name_last, email, company_name)
     
     const quoteNumber = payload.quote_number
     const propertyAddress = payload.title || 'No title provided'
     const dateSent = payload.first_sent
-    const amount = payload.total_excludes_tax
+    const amountIncGst = payload.total_includes_tax
+    const amountExGst = payload.total_excludes_tax
     
     // Build Notes from quote_for customer data
     const customer = payload.quote_for
@@ -129,60 +124,23 @@ Deno.serve(async (req) => {
       customer.company_name
     ].filter(Boolean).join(', ')
 
-    // Create Notion entry with exact field mapping as requested
-    await notion.pages.create({
-      parent: {
-        database_id: databaseId,
-      },
-      properties: {
-        'Quote #': {
-          title: [
-            {
-              text: {
-                content: `${quoteNumber}`,
-              },
-            },
-          ],
-        },
-        'Date Sent': {
-          date: {
-            start: new Date(dateSent).toISOString(),
-          },
-        },
-        'Property Address': {
-          rich_text: [
-            {
-              text: {
-                content: propertyAddress,
-              },
-            },
-          ],
-        },
-        'Amount (+GST)': {
-          number: amount,
-        },
-        'Notes': {
-          rich_text: [
-            {
-              text: {
-                content: notes,
-              },
-            },
-          ],
-        },
-        'Follow-Up': {
-          rich_text: [
-            {
-              text: {
-                content: 'autosent from Quotient - UPDATE this!',
-              },
-            },
-          ],
-        },
-      },
+    // Keyed on the quote number, as Quotient sends an event for every change to a quote
+    const notionPage = await upsertNotionPage(notion, createServiceClient(), {
+      databaseId,
+      keys: [{ property: properties.quoteNumber, value: `${quoteNumber}` }],
+      properties: notionProperties([
+        [properties.dateSent, new Date(dateSent).toISOString()],
+        [properties.propertyAddress, propertyAddress],
+        [properties.amountIncGst, amountIncGst],
+        [properties.amountExGst, amountExGst],
+        [properties.notes, notes],
+      ]),
+      createOnly: notionProperties([
+        [properties.followUp, 'autosent from Quotient - UPDATE this!'],
+      ]),
     })
 
-    console.log('Successfully sent Quotient data to Notion')
+    console.log(`Successfully ${notionPage.created ? 'sent' : 'updated'} Quotient data in Notion`)
 
     return new Response(
       JSON.stringify({ 
@@ -0,0 +1,106 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import { parseRateSettings, selectCurrentRateCard, serializeRateCard, serializeRateSettings, validateRateSettings } from '../_shared/rateSettings.ts'
+import type { RateSettings } from '../_shared/pricing.ts'
+import { loadRateCards } from '../_shared/rateSettingsStore.ts'
+import { createServiceClient, createUserClient, isAdmin } from '../_shared/supabaseClient.ts'
+import type { FieldError, ValidationErrorBody } from '../_shared/validation.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "application/json"
+      }
+    }
+  )
+}
+
+function validationResponse(fields: FieldError[]): Response {
+  const body: ValidationErrorBody = { error: 'Rate card validation failed', fields }
+  return jsonResponse(body, 422)
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Anyone using the calculator can read the rate cards, including older ones to reprice old quotes
+    if (req.method === 'GET') {
+      const cards = await loadRateCards(createServiceClient())
+      return jsonResponse({
+        cards: cards.map(serializeRateCard),
+        currentId: selectCurrentRateCard(cards)?.id ?? null,
+      })
+    }
+
+    if (req.method !== 'POST') {
+      return jsonResponse({ error: 'Method not allowed' }, 405)
+    }
+
+    // Only admins can publish a new card
+    if (!(await isAdmin(req))) {
+      return jsonResponse({ error: 'Only admins can publish rate cards' }, 403)
+    }
+
+    const { effectiveFrom, settings: stored } = await req.json()
+
+    const effectiveDate = new Date(effectiveFrom)
+    if (!effectiveFrom || Number.isNaN(effectiveDate.getTime())) {
+      return validationResponse([{ field: 'effectiveFrom', message: 'Effective-from must be a valid date' }])
+    }
+
+    let settings: RateSettings
+    try {
+      settings = parseRateSettings(stored)
+    } catch (error) {
+      return validationResponse([{ field: 'settings', message: error instanceof Error ? error.message : 'Invalid rate settings' }])
+    }
+
+    const errors = validateRateSettings(settings)
+    if (errors.length > 0) {
+      return validationResponse(errors)
+    }
+
+    // Insert as the caller so the "Admins can publish rate cards" policy still applies
+    const userClient = createUserClient(req)
+    const { data: { user } } = await userClient.auth.getUser()
+
+    const { data, error } = await userClient
+      .from('rate_cards')
+      .insert({
+        effective_from: effectiveDate.toISOString(),
+        settings: serializeRateSettings(settings),
+        created_by: user?.id ?? null,
+      })
+      .select('id, effective_from')
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to publish rate card: ${error.message}`)
+    }
+
+    console.log('Published rate card', data.id, 'effective from', data.effective_from)
+
+    return jsonResponse({
+      success: true,
+      card: serializeRateCard({ id: data.id, effectiveFrom: data.effective_from, settings }),
+    })
+  } catch (error) {
+    console.error('Error handling rate settings request:', error)
+    return jsonResponse({
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    }, 500)
+  }
+})
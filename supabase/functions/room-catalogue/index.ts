@@ -0,0 +1,124 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import { promotedRoom, validateCustomRoom, validateRoomCatalogue, type CatalogueRoom } from '../_shared/roomCatalogue.ts'
+import { loadRoomCatalogue, ROOM_TYPE_COLUMNS, toCatalogueRoom, toRoomTypeRow, type RoomTypeRow } from '../_shared/roomCatalogueStore.ts'
+import { createServiceClient, createUserClient, isAdmin } from '../_shared/supabaseClient.ts'
+import type { FieldError, ValidationErrorBody } from '../_shared/validation.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, OPTIONS',
+}
+
+// Rooms are listed in steps of 10 so a single room can be slotted in without renumbering
+const SORT_ORDER_STEP = 10
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "application/json"
+      }
+    }
+  )
+}
+
+function validationResponse(fields: FieldError[]): Response {
+  const body: ValidationErrorBody = { error: 'Room catalogue validation failed', fields }
+  return jsonResponse(body, 422)
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Everyone using the calculator reads the catalogue
+    if (req.method === 'GET') {
+      const rooms = await loadRoomCatalogue(createServiceClient())
+      return jsonResponse({ rooms })
+    }
+
+    if (req.method !== 'POST' && req.method !== 'PUT') {
+      return jsonResponse({ error: 'Method not allowed' }, 405)
+    }
+
+    // Only admins can change the catalogue
+    if (!(await isAdmin(req))) {
+      return jsonResponse({ error: 'Only admins can change the room catalogue' }, 403)
+    }
+
+    // Write as the caller so the room_types admin policies still apply
+    const userClient = createUserClient(req)
+    const existing = await loadRoomCatalogue(createServiceClient())
+
+    // POST promotes one custom room from a quote to the end of the optional rooms
+    if (req.method === 'POST') {
+      const { name, weight }: Pick<CatalogueRoom, 'name' | 'weight'> = await req.json()
+      const errors = validateCustomRoom({ name, weight }, existing.map(room => room.name))
+      if (errors.length > 0) {
+        return validationResponse(errors)
+      }
+
+      const { data, error } = await userClient
+        .from('room_types')
+        .insert(toRoomTypeRow(promotedRoom(name, weight), (existing.length + 1) * SORT_ORDER_STEP))
+        .select(ROOM_TYPE_COLUMNS)
+        .single()
+
+      if (error) {
+        throw new Error(`Failed to add room type: ${error.message}`)
+      }
+
+      console.log('Added room type', data.name)
+
+      return jsonResponse({ success: true, room: toCatalogueRoom(data as RoomTypeRow) })
+    }
+
+    // PUT saves the whole catalogue from the admin page: rooms left out are removed.
+    // Quotes already using a removed room keep it, priced with the weight stored on the quote.
+    const { rooms }: { rooms: CatalogueRoom[] } = await req.json()
+    const errors = validateRoomCatalogue(rooms ?? [])
+    if (errors.length > 0) {
+      return validationResponse(errors)
+    }
+
+    const { error: upsertError } = await userClient
+      .from('room_types')
+      .upsert(rooms.map((room, index) => ({
+        ...toRoomTypeRow(room, (index + 1) * SORT_ORDER_STEP),
+        updated_at: new Date().toISOString(),
+      })))
+
+    if (upsertError) {
+      throw new Error(`Failed to save room catalogue: ${upsertError.message}`)
+    }
+
+    const keptNames = new Set(rooms.map(room => room.name.trim()))
+    const removedNames = existing.map(room => room.name).filter(name => !keptNames.has(name))
+    if (removedNames.length > 0) {
+      const { error: deleteError } = await userClient
+        .from('room_types')
+        .delete()
+        .in('name', removedNames)
+
+      if (deleteError) {
+        throw new Error(`Failed to remove room types: ${deleteError.message}`)
+      }
+    }
+
+    console.log('Saved room catalogue with', rooms.length, 'rooms, removed', removedNames.length)
+
+    return jsonResponse({ success: true, rooms: await loadRoomCatalogue(createServiceClient()) })
+  } catch (error) {
+    console.error('Error handling room catalogue request:', error)
+    return jsonResponse({
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    }, 500)
+  }
+})
@@ -1,40 +1,100 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts"
-import { Client } from 'npm:@notionhq/client'
-
-interface RoomData {
-  [key: string]: {
-    count: number;
-    percentage: number;
-    weight: number;
-  };
-}
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { priceSubmission, type PricedSubmission, type QuoteSubmission } from '../_shared/quoteSubmission.ts'
+import { notionPageUrl, type NotionSubmitResult } from '../_shared/notion.ts'
+import { openNotionDatabase, requireNotionProperties } from '../_shared/notionClient.ts'
+import { quoteBreakdownBlocks, replaceQuoteBreakdown } from '../_shared/notionQuotePage.ts'
+import { notionProperties, upsertNotionPage, type NotionUpsertResult } from '../_shared/notionUpsert.ts'
+import type { CalculatorFormData } from '../_shared/pricing.ts'
+import type { SavedQuote } from '../_shared/quotes.ts'
+import { QuoteNotFoundError, quoteUpdateTarget, saveQuote, setQuoteNotionPage } from '../_shared/quoteStore.ts'
+import { loadRoomCatalogue } from '../_shared/roomCatalogueStore.ts'
+import { createServiceClient } from '../_shared/supabaseClient.ts'
+import type { ValidationErrorBody } from '../_shared/validation.ts'
 
-interface CalculatorFormData {
-  propertyType: string;
-  styling: string;
-  propertyAddress: string;
-  distanceFromWarehouse: number;
-  listingPrice: number;
-  accessDifficulty: string;
-  roomRate: number;
-  rooms: RoomData;
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
-interface QuoteCalculations {
-  equivalentRooms: number;
-  baseQuote: number;
-  variation: number;
-  finalQuote: number;
-}
+type PricedQuote = Extract<PricedSubmission, { ok: true }>
 
-interface NotionQuoteData {
-  formData: CalculatorFormData;
-  calculations: QuoteCalculations;
-}
+// Creates or updates the saved quote's row in the Quotes database
+async function sendToNotion(
+  supabase: SupabaseClient,
+  quote: SavedQuote,
+  formData: CalculatorFormData,
+  { breakdown, rateCard, options, acceptedOption }: PricedQuote,
+): Promise<NotionUpsertResult> {
+  // Checks the Quotes database's columns first, so a renamed column fails loudly
+  const { notion, databaseId, properties } = await openNotionDatabase('quotes')
+  // The quote id is the row's key; the other quote detail columns are skipped when the database doesn't have them
+  requireNotionProperties('quotes', properties, ['quoteId'])
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  // Rooms added by hand aren't in the catalogue, so call them out for whoever follows up
+  const catalogueNames = new Set((await loadRoomCatalogue(supabase)).map(room => room.name))
+  const customRooms = breakdown.rooms
+    .filter(room => !catalogueNames.has(room.roomType))
+    .map(room => `${room.roomType} x${room.count} (weight ${room.weight})`)
+  const customRoomsNote = customRooms.length > 0 ? ` Custom rooms: ${customRooms.join(', ')}.` : ''
+
+  // The amounts include extras, so list them for whoever raises the invoice
+  const extras = breakdown.extras
+    .map(extra => `${extra.name}${extra.pricing === 'perUnit' ? ` x${extra.quantity} ${extra.unit}` : ''} ($${extra.subtotal.toFixed(2)})`)
+  const extrasNote = extras.length > 0 ? ` Extras: ${extras.join(', ')}.` : ''
+  const { hire } = breakdown
+  // The amounts are the accepted (or first) option's; list every option so the others aren't lost
+  const optionLines = options.map((option, index) =>
+    `${option.name} $${option.calculations.finalQuoteIncGst.toFixed(2)} inc GST${index === acceptedOption ? ' (accepted)' : ''}`)
+  const optionsNote = optionLines.length > 0 ? ` Options: ${optionLines.join(', ')}.` : ''
+  const hireNote = ` Hire: ${hire.hireWeeks} weeks (${hire.includedWeeks} included` +
+    (hire.extensionWeeks > 0 ? `, ${hire.extensionWeeks} extension weeks at $${hire.weeklyRate.toFixed(2)}).` : ').')
+  const depotNote = formData.depot ? ` Depot: ${formData.depot.name} (${formData.distanceFromWarehouse} km).` : ''
+  // Manual discounts and premiums carry their reason through to whoever follows up
+  const overrideLine = breakdown.adjustments.find(adjustment => adjustment.source === 'override')
+  const overrideNote = overrideLine && formData.override
+    ? ` Override: ${overrideLine.amount < 0 ? '-' : '+'}$${Math.abs(overrideLine.amount).toFixed(2)} ex GST (${formData.override.reason.trim()}).`
+    : ''
+
+  // Room lines and the calculation summary go in the page body
+  const breakdownBlocks = quoteBreakdownBlocks({
+    formData,
+    breakdown,
+    rateCardId: rateCard.id,
+    options,
+    acceptedOption,
+  })
+
+  // Keyed on the quote id, so sending the same quote again updates its row
+  const notionPage = await upsertNotionPage(notion, supabase, {
+    databaseId,
+    keys: [{ property: properties.quoteId, value: quote.id }],
+    properties: notionProperties([
+      [properties.propertyAddress, formData.propertyAddress || 'Not provided'],
+      [properties.propertyType, formData.propertyType],
+      [properties.styling, formData.styling],
+      [properties.listingPrice, formData.listingPrice],
+      [properties.distanceKm, formData.distanceFromWarehouse],
+      [properties.accessDifficulty, formData.accessDifficulty],
+      [properties.roomRate, breakdown.roomRate],
+      // Both sides of GST: the customer pays Amount (+GST)
+      [properties.amountIncGst, breakdown.finalQuoteIncGst],
+      [properties.amountExGst, breakdown.finalQuote],
+    ]),
+    // The first send date and the follow-up notes stay as they are once the row exists
+    createOnly: notionProperties([
+      [properties.dateSent, new Date().toISOString().split('T')[0]],
+      [properties.followUp, `autosent from calculator (rate card ${rateCard.id}), UPDATE this!${depotNote}${overrideNote}${optionsNote}${hireNote}${customRoomsNote}${extrasNote}`],
+    ]),
+    children: breakdownBlocks,
+  })
+
+  if (!notionPage.created) {
+    await replaceQuoteBreakdown(notion, notionPage.pageId, breakdownBlocks)
+  }
+  await setQuoteNotionPage(supabase, quote.id, notionPage.pageId)
+
+  return notionPage
 }
 
 Deno.serve(async (req) => {
@@ -46,55 +106,64 @@ Deno.serve(async (req) => {
   console.log('Submit quote function called - JWT verification disabled')
 
   try {
-    const notionToken = Deno.env.get('NOTION_TOKEN')
-    const databaseId = Deno.env.get('NOTION_DATABASE_ID')
+    const data: QuoteSubmission = await req.json()
 
-    if (!notionToken || !databaseId) {
-      throw new Error('NOTION_TOKEN and NOTION_DATABASE_ID environment variables are required')
+    // Reprice from the submitted form with the shared engine rather than trusting the browser's figures
+    const supabase = createServiceClient()
+    const validation = await priceSubmission(supabase, data)
+
+    if (!validation.ok) {
+      console.log('Rejected quote submission:', validation.errors)
+      const body: ValidationErrorBody = { error: 'Quote validation failed', fields: validation.errors }
+      return new Response(
+        JSON.stringify(body),
+        { 
+          status: 422,
+          headers: { 
+            ...corsHeaders,
+            "Content-Type": "application/json" 
+          } 
+        }
+      )
     }
 
-    const notion = new Client({
-      auth: notionToken,
+    const { breakdown, rateCard } = validation
+
+    // Keep our own record of every quote sent, before it goes anywhere else.
+    // A resend updates the quote only for an admin or with its edit token, as the quotes function does.
+    const quote = await saveQuote(supabase, {
+      update: await quoteUpdateTarget(req, data),
+      formData: data.formData,
+      breakdown,
+      rateCardId: rateCard.id,
+      options: validation.options,
+      acceptedOption: validation.acceptedOption,
     })
 
-    const data: NotionQuoteData = await req.json()
+    // The quote is saved whatever happens in Notion; a failure there comes back alongside the saved quote
+    let notionPage: NotionUpsertResult | null = null
+    let notionError: string | null = null
+    try {
+      notionPage = await sendToNotion(supabase, quote, data.formData, validation)
+    } catch (error) {
+      console.error(`Saved quote ${quote.id} but could not send it to Notion:`, error)
+      notionError = error instanceof Error ? error.message : 'Unknown error occurred'
+    }
 
-    await notion.pages.create({
-      parent: {
-        database_id: databaseId,
-      },
-      properties: {
-        'Date Sent': {
-          date: {
-            start: new Date().toISOString().split('T')[0],
-          },
-        },
-        'Property Address': {
-          rich_text: [
-            {
-              text: {
-                content: data.formData.propertyAddress || 'Not provided',
-              },
-            },
-          ],
-        },
-        'Amount (+GST)': {
-          number: data.calculations.finalQuote,
-        },
-        'Follow-Up': {
-          rich_text: [
-            {
-              text: {
-                content: 'autosent from calculator, UPDATE this!',
-              },
-            },
-          ],
-        },
-      },
-    })
+    const result: NotionSubmitResult = {
+      success: notionPage !== null,
+      quoteId: quote.id,
+      quoteNumber: quote.quoteNumber,
+      editToken: quote.editToken,
+      rateCardId: rateCard.id,
+      notionPageId: notionPage?.pageId ?? null,
+      notionPageUrl: notionPage ? notionPageUrl(notionPage.pageId) : null,
+      notionPageCreated: notionPage?.created ?? false,
+      notionError,
+    }
 
     return new Response(
-      JSON.stringify({ success: true }),
+      JSON.stringify(result),
       { 
         headers: { 
           ...corsHeaders,
@@ -103,6 +172,18 @@ Deno.serve(async (req) => {
       },
     )
   } catch (error) {
+    if (error instanceof QuoteNotFoundError) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        {
+          status: 404,
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json"
+          }
+        }
+      )
+    }
     console.error('Error submitting to Notion:', error)
     return new Response(
       JSON.stringify({ 
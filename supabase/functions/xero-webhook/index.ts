@@ -1,5 +1,9 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts"
-import { Client } from 'npm:@notionhq/client'
+import type { Client } from 'npm:@notionhq/client@4'
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { createNotionClient, openNotionDatabase } from '../_shared/notionClient.ts'
+import { notionProperties, upsertNotionPage } from '../_shared/notionUpsert.ts'
+import { createServiceClient } from '../_shared/supabaseClient.ts'
 
 // Xero Webhook Event Structure
 interface XeroWebhookEvent {
@@ -159,9 +163,11 @@ async function fetchInvoiceFromXero(resourceId: string, accessToken: string, ten
   }
 }
 
-// Process payment event and create entry in payments Notion database
-async function processPaymentEvent(invoice: XeroInvoice, notion: Client, paymentsDatabaseId: string): Promise<void> {
+// Process payment event and create or update its entry in payments Notion database
+async function processPaymentEvent(invoice: XeroInvoice, notion: Client, supabase: SupabaseClient): Promise<void> {
   try {
+    const { databaseId, properties } = await openNotionDatabase('payments', notion)
+
     // Determine payment status
     const isFullyPaid = invoice.AmountDue === 0 || invoice.Status === 'PAID'
     const paymentStatus = isFullyPaid ? 'Fully Paid' : 'Deposit'
@@ -178,53 +184,23 @@ async function processPaymentEvent(invoice: XeroInvoice, notion: Client, payment
     
     console.log(`Processing payment event for invoice ${invoiceNumber}: ${paymentStatus}, Amount: ${amountPaid}`)
     
-    // Create Notion entry in payments database
-    await notion.pages.create({
-      parent: {
-        database_id: paymentsDatabaseId,
-      },
-      properties: {
-        'INV #': {
-          title: [
-            {
-              text: {
-                content: invoiceNumber,
-              },
-            },
-          ],
-        },
-        'Address': {
-          rich_text: [
-            {
-              text: {
-                content: address,
-              },
-            },
-          ],
-        },
-        'Amount Paid': {
-          rich_text: [
-            {
-              text: {
-                content: amountPaid,
-              },
-            },
-          ],
-        },
-        'Date Paid': {
-          date: {
-            start: paymentDate,
-          },
-        },
-        'Status': {
-          select: {
-            name: paymentStatus,
-          },
-        },
-      },
+    // One row per invoice and status, so a deposit and the final payment stay separate rows
+    // but Xero repeating the event updates the existing one
+    const notionPage = await upsertNotionPage(notion, supabase, {
+      databaseId,
+      keys: [
+        { property: properties.invoiceId, value: invoice.InvoiceID },
+        { property: properties.status, value: paymentStatus },
+      ],
+      properties: notionProperties([
+        [properties.invoiceNumber, invoiceNumber],
+        [properties.address, address],
+        [properties.amountPaid, amountPaid],
+        [properties.datePaid, paymentDate],
+      ]),
     })
     
-    console.log(`Successfully created payment entry for invoice ${invoiceNumber}`)
+    console.log(`Successfully ${notionPage.created ? 'created' : 'updated'} payment entry for invoice ${invoiceNumber}`)
   } catch (error) {
     console.error('Error processing payment event:', error)
     // Don't throw - we want invoice processing to continue even if payment processing fails
@@ -244,12 +220,9 @@ Deno.serve(async (req) => {
     const refreshToken = Deno.env.get('XERO_REFRESH_TOKEN')
     const clientId = Deno.env.get('XERO_CLIENT_ID')
     const clientSecret = Deno.env.get('XERO_CLIENT_SECRET')
-    const notionToken = Deno.env.get('NOTION_TOKEN')
-    const databaseId = Deno.env.get('NOTION_DATABASE_ID_RECEIVABLE')
-    const paymentsDatabaseId = Deno.env.get('NOTION_DATABASE_ID_PAYMENTS')
 
-    if (!webhookKey || !accessToken || !notionToken || !databaseId || !paymentsDatabaseId) {
-      throw new Error('Required environment variables missing: XERO_WEBHOOK_KEY, XERO_ACCESS_TOKEN, NOTION_TOKEN, NOTION_DATABASE_ID_RECEIVABLE, NOTION_DATABASE_ID_PAYMENTS')
+    if (!webhookKey || !accessToken) {
+      throw new Error('Required environment variables missing: XERO_WEBHOOK_KEY, XERO_ACCESS_TOKEN')
     }
 
     // Get request body as text for signature verification
@@ -289,10 +262,11 @@ Deno.serve(async (req) => {
     const payload: XeroWebhookPayload = JSON.parse(body)
     console.log('Received Xero webhook:', payload.events.length, 'events')
 
-    // Initialize Notion client
-    const notion = new Client({
-      auth: notionToken,
-    })
+    // Initialize Notion client and check the Invoices database's columns
+    const notion = createNotionClient()
+    const { databaseId, properties } = await openNotionDatabase('invoices', notion)
+    // Records which Notion row each invoice has, so a repeated event updates it
+    const supabase = createServiceClient()
 
     // Process each invoice event
     for (const event of payload.events) {
@@ -312,11 +286,11 @@ Deno.serve(async (req) => {
       }
 
       // Map Xero invoice data to Notion fields according to user requirements:
-      // InvoiceNumber → INV # (row title)
-      // Date → Date Sent (date only, no time)  
-      // Reference → Address (text)
-      // Total → Amount (number)
-      // Contact → Updates (text + "autosent from Xero, UPDATE this!")
+      // InvoiceNumber → invoiceNumber (row title)
+      // Date → dateSent (date only, no time)
+      // Reference → address (text)
+      // Total → amount (number, inc GST: Xero's SubTotal + TotalTax)
+      // Contact → updates (text + "autosent from Xero, UPDATE this!")
       
       const invoiceNumber = invoice.InvoiceNumber
       const dateSent = invoice.Date // Already in YYYY-MM-DD format
@@ -325,56 +299,27 @@ Deno.serve(async (req) => {
       const contactInfo = invoice.Contact.Name || 'Unknown Contact'
       const updates = `${contactInfo}, autosent from Xero, UPDATE this!`
 
-      // Create Notion entry
-      await notion.pages.create({
-        parent: {
-          database_id: databaseId,
-        },
-        properties: {
-          'INV #': {
-            title: [
-              {
-                text: {
-                  content: invoiceNumber,
-                },
-              },
-            ],
-          },
-          'Date Sent': {
-            date: {
-              start: dateSent,
-            },
-          },
-          'Address': {
-            rich_text: [
-              {
-                text: {
-                  content: address,
-                },
-              },
-            ],
-          },
-          'Amount': {
-            number: amount,
-          },
-          'Updates': {
-            rich_text: [
-              {
-                text: {
-                  content: updates,
-                },
-              },
-            ],
-          },
-        },
+      // Keyed on InvoiceID, which stays the same when the invoice is renumbered or Xero sends an UPDATE
+      const notionPage = await upsertNotionPage(notion, supabase, {
+        databaseId,
+        keys: [{ property: properties.invoiceId, value: invoice.InvoiceID }],
+        properties: notionProperties([
+          [properties.invoiceNumber, invoiceNumber],
+          [properties.dateSent, dateSent],
+          [properties.address, address],
+          [properties.amount, amount],
+        ]),
+        createOnly: notionProperties([
+          [properties.updates, updates],
+        ]),
       })
 
-      console.log(`Successfully created Notion entry for invoice ${invoiceNumber}`)
+      console.log(`Successfully ${notionPage.created ? 'created' : 'updated'} Notion entry for invoice ${invoiceNumber}`)
       
       // Check if this invoice has payment activity and process as payment event
       if (invoice.AmountPaid > 0) {
         console.log(`Detected payment on invoice ${invoiceNumber}, processing payment event...`)
-        await processPaymentEvent(invoice, notion, paymentsDatabaseId)
+        await processPaymentEvent(invoice, notion, supabase)
       }
     }
 
@@ -0,0 +1,49 @@
+-- Key/value settings used by the rate-settings edge function.
+-- The table may already exist from the original project setup, so only add what is missing.
+CREATE TABLE IF NOT EXISTS public.settings (
+  key TEXT PRIMARY KEY,
+  value JSONB NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.settings ADD COLUMN IF NOT EXISTS key TEXT;
+ALTER TABLE public.settings ADD COLUMN IF NOT EXISTS value JSONB;
+ALTER TABLE public.settings ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT now();
+CREATE UNIQUE INDEX IF NOT EXISTS settings_key_idx ON public.settings (key);
+
+ALTER TABLE public.settings ENABLE ROW LEVEL SECURITY;
+
+-- Seed the rate settings with the values previously hard-coded in the calculator.
+-- Open-ended bands are stored with a null upper bound (JSON has no Infinity).
+INSERT INTO public.settings (key, value)
+VALUES (
+  'rate_settings',
+  '{
+    "schemaVersion": 1,
+    "apartmentPriceRanges": [
+      { "maxPrice": 600000, "rate": -0.1 },
+      { "maxPrice": 800000, "rate": -0.05 },
+      { "maxPrice": 1000000, "rate": 0 },
+      { "maxPrice": null, "rate": 0 }
+    ],
+    "housePriceRanges": [
+      { "maxPrice": 1500000, "rate": -0.1 },
+      { "maxPrice": 2000000, "rate": -0.05 },
+      { "maxPrice": 3000000, "rate": 0 },
+      { "maxPrice": 5000000, "rate": 0.05 },
+      { "maxPrice": 7000000, "rate": 0.1 },
+      { "maxPrice": 10000000, "rate": 0.2 },
+      { "maxPrice": null, "rate": 0.2 }
+    ],
+    "distanceRanges": [
+      { "maxDistance": 15, "rate": 0 },
+      { "maxDistance": 30, "rate": 0.05 },
+      { "maxDistance": 50, "rate": 0.1 },
+      { "maxDistance": 80, "rate": 0.25 },
+      { "maxDistance": null, "rate": 0.25 }
+    ],
+    "accessDifficultyRates": { "Easy": 0, "Standard": 0.05, "Difficult": 0.1 },
+    "defaultRoomRates": { "Apartment": 350, "House": 400 }
+  }'::jsonb
+)
+ON CONFLICT (key) DO NOTHING;
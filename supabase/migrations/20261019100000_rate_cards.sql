@@ -0,0 +1,73 @@
+-- Versioned rate cards. A card is never edited once published: changing rates publishes a new
+-- card with its own effective date, so quotes priced under an older card reprice identically.
+CREATE TABLE IF NOT EXISTS public.rate_cards (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  effective_from TIMESTAMPTZ NOT NULL,
+  settings JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_by UUID REFERENCES auth.users (id)
+);
+
+CREATE INDEX IF NOT EXISTS rate_cards_effective_from_idx ON public.rate_cards (effective_from);
+
+ALTER TABLE public.rate_cards ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can publish rate cards" ON public.rate_cards;
+CREATE POLICY "Admins can publish rate cards" ON public.rate_cards
+  FOR INSERT WITH CHECK (public.get_current_user_role() = 'admin');
+
+DROP POLICY IF EXISTS "Admins can view rate cards" ON public.rate_cards;
+CREATE POLICY "Admins can view rate cards" ON public.rate_cards
+  FOR SELECT USING (public.get_current_user_role() = 'admin');
+
+-- The card the calculator has always priced with. Rates an admin saved to public.settings before
+-- cards existed were what every quote so far was priced with, so they become this first card;
+-- they are stored as saved, and parseRateSettings upgrades their schema version when read.
+-- Otherwise it is seeded to match staticRateCard in _shared/rateSettings.ts.
+INSERT INTO public.rate_cards (id, effective_from, settings)
+SELECT
+  'default',
+  '2025-01-01T00:00:00Z',
+  COALESCE(
+    (SELECT s.value FROM public.settings s WHERE s.key = 'rate_settings'),
+    '{
+      "schemaVersion": 1,
+      "apartmentPriceRanges": [
+        { "maxPrice": 600000, "rate": -0.1 },
+        { "maxPrice": 800000, "rate": -0.05 },
+        { "maxPrice": 1000000, "rate": 0 },
+        { "maxPrice": null, "rate": 0 }
+      ],
+      "housePriceRanges": [
+        { "maxPrice": 1500000, "rate": -0.1 },
+        { "maxPrice": 2000000, "rate": -0.05 },
+        { "maxPrice": 3000000, "rate": 0 },
+        { "maxPrice": 5000000, "rate": 0.05 },
+        { "maxPrice": 7000000, "rate": 0.1 },
+        { "maxPrice": 10000000, "rate": 0.2 },
+        { "maxPrice": null, "rate": 0.2 }
+      ],
+      "distanceRanges": [
+        { "maxDistance": 15, "rate": 0 },
+        { "maxDistance": 30, "rate": 0.05 },
+        { "maxDistance": 50, "rate": 0.1 },
+        { "maxDistance": 80, "rate": 0.25 },
+        { "maxDistance": null, "rate": 0.25 }
+      ],
+      "accessDifficultyRates": { "Easy": 0, "Standard": 0.05, "Difficult": 0.1 },
+      "defaultRoomRates": { "Apartment": 350, "House": 400 }
+    }'::jsonb
+  )
+ON CONFLICT (id) DO NOTHING;
+
+-- When the first card already existed, keep saved rates it doesn't match as a card effective from now
+INSERT INTO public.rate_cards (effective_from, settings)
+SELECT now(), s.value
+FROM public.settings s
+WHERE s.key = 'rate_settings'
+  AND NOT EXISTS (SELECT 1 FROM public.rate_cards c WHERE c.settings = s.value);
+
+-- Only drop the old row once a card holds it
+DELETE FROM public.settings s
+WHERE s.key = 'rate_settings'
+  AND EXISTS (SELECT 1 FROM public.rate_cards c WHERE c.settings = s.value);
@@ -0,0 +1,22 @@
+-- Every quote the calculator saves or sends. The admin policies on public.quotes already exist;
+-- the table may predate this migration, so only add the columns the quotes edge function needs.
+CREATE TABLE IF NOT EXISTS public.quotes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.quotes ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT now();
+ALTER TABLE public.quotes ADD COLUMN IF NOT EXISTS property_address TEXT;
+ALTER TABLE public.quotes ADD COLUMN IF NOT EXISTS property_type TEXT;
+ALTER TABLE public.quotes ADD COLUMN IF NOT EXISTS final_quote NUMERIC(12, 2);
+ALTER TABLE public.quotes ADD COLUMN IF NOT EXISTS form_data JSONB;
+ALTER TABLE public.quotes ADD COLUMN IF NOT EXISTS calculations JSONB;
+ALTER TABLE public.quotes ADD COLUMN IF NOT EXISTS rate_card_id TEXT REFERENCES public.rate_cards (id);
+-- Per-quote secret that lets whoever saved a quote update it later without signing in.
+-- Only the save that creates a quote returns it; quote history never reads it.
+ALTER TABLE public.quotes ADD COLUMN IF NOT EXISTS edit_token UUID NOT NULL DEFAULT gen_random_uuid();
+
+CREATE INDEX IF NOT EXISTS quotes_created_at_idx ON public.quotes (created_at DESC);
+CREATE INDEX IF NOT EXISTS quotes_property_type_idx ON public.quotes (property_type);
+
+ALTER TABLE public.quotes ENABLE ROW LEVEL SECURITY;
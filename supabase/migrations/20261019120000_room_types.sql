@@ -0,0 +1,18 @@
+-- Room types promoted from custom rooms on quotes. They join the calculator's optional rooms
+-- alongside the built-in ones.
+CREATE TABLE IF NOT EXISTS public.room_types (
+  name TEXT PRIMARY KEY,
+  weight NUMERIC NOT NULL CHECK (weight > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_by UUID REFERENCES auth.users (id)
+);
+
+ALTER TABLE public.room_types ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can add room types" ON public.room_types;
+CREATE POLICY "Admins can add room types" ON public.room_types
+  FOR INSERT WITH CHECK (public.get_current_user_role() = 'admin');
+
+DROP POLICY IF EXISTS "Admins can view room types" ON public.room_types;
+CREATE POLICY "Admins can view room types" ON public.room_types
+  FOR SELECT USING (public.get_current_user_role() = 'admin');
@@ -0,0 +1,41 @@
+-- Managed room catalogue: each room type carries the rules the calculator used to hard-code,
+-- and the built-in rooms are seeded so the catalogue starts out matching them.
+ALTER TABLE public.room_types ADD COLUMN IF NOT EXISTS default_count INTEGER NOT NULL DEFAULT 0 CHECK (default_count >= 0);
+ALTER TABLE public.room_types ADD COLUMN IF NOT EXISTS default_percentage NUMERIC NOT NULL DEFAULT 100 CHECK (default_percentage BETWEEN 0 AND 100);
+ALTER TABLE public.room_types ADD COLUMN IF NOT EXISTS is_core BOOLEAN NOT NULL DEFAULT false;
+-- Empty means the room can be quoted for every property type
+ALTER TABLE public.room_types ADD COLUMN IF NOT EXISTS property_types TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE public.room_types ADD COLUMN IF NOT EXISTS sort_order INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE public.room_types ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+DROP POLICY IF EXISTS "Admins can update room types" ON public.room_types;
+CREATE POLICY "Admins can update room types" ON public.room_types
+  FOR UPDATE USING (public.get_current_user_role() = 'admin');
+
+DROP POLICY IF EXISTS "Admins can remove room types" ON public.room_types;
+CREATE POLICY "Admins can remove room types" ON public.room_types
+  FOR DELETE USING (public.get_current_user_role() = 'admin');
+
+-- Matches staticRoomCatalogue in _shared/rooms.ts
+INSERT INTO public.room_types (name, weight, default_count, default_percentage, is_core, property_types, sort_order)
+VALUES
+  ('Living Room', 2, 1, 100, true, '{}', 10),
+  ('Dining Room', 1, 1, 100, true, '{}', 20),
+  ('Kitchen', 0.5, 1, 100, true, '{}', 30),
+  ('Master Bedroom', 1.5, 1, 100, true, '{}', 40),
+  ('Master Wardrobe', 0.5, 0, 100, true, '{House}', 50),
+  ('Standard Bedroom', 1, 0, 100, true, '{}', 60),
+  ('Standard Bathroom', 0.25, 0, 100, true, '{}', 70),
+  ('Outdoor (large)', 1.5, 0, 100, true, '{}', 80),
+  ('Outdoor (small)', 0.5, 0, 100, true, '{}', 90),
+  ('Foyer/Entry', 0.5, 0, 100, false, '{}', 100),
+  ('Family Room/Lounge', 1.5, 0, 100, false, '{}', 110),
+  ('Hallway', 0.5, 0, 100, false, '{}', 120),
+  ('Pantry', 0.25, 0, 100, false, '{}', 130),
+  ('Laundry', 0.25, 0, 100, false, '{}', 140),
+  ('Office', 1, 0, 100, false, '{}', 150),
+  ('Study', 1, 0, 100, false, '{}', 160)
+ON CONFLICT (name) DO NOTHING;
+
+-- Rooms promoted before this migration go after the built-in ones
+UPDATE public.room_types SET sort_order = 1000 WHERE sort_order = 0;
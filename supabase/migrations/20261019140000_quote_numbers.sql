@@ -0,0 +1,5 @@
+-- Sequential, customer-facing quote numbers (printed as Q-00001). Existing quotes are numbered
+-- in the order the identity fills them.
+ALTER TABLE public.quotes ADD COLUMN IF NOT EXISTS quote_number BIGINT GENERATED BY DEFAULT AS IDENTITY;
+
+CREATE UNIQUE INDEX IF NOT EXISTS quotes_quote_number_idx ON public.quotes (quote_number);
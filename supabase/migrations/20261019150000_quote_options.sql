@@ -0,0 +1,4 @@
+-- Multi-option (Good / Better / Best) quotes. form_data and calculations keep holding the accepted
+-- option, or the first until one is accepted, so reports and integrations read quotes as before.
+ALTER TABLE public.quotes ADD COLUMN IF NOT EXISTS options JSONB NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE public.quotes ADD COLUMN IF NOT EXISTS accepted_option INTEGER;
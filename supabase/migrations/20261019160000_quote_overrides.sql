@@ -0,0 +1,22 @@
+-- Manual discounts and premiums. The override also lives in form_data; these columns copy it out
+-- so reports can count and total overrides without digging through JSON.
+ALTER TABLE public.quotes ADD COLUMN IF NOT EXISTS override_kind TEXT;
+ALTER TABLE public.quotes ADD COLUMN IF NOT EXISTS override_value NUMERIC(12, 4);
+ALTER TABLE public.quotes ADD COLUMN IF NOT EXISTS override_amount NUMERIC(12, 2);
+ALTER TABLE public.quotes ADD COLUMN IF NOT EXISTS override_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS quotes_override_kind_idx ON public.quotes (override_kind) WHERE override_kind IS NOT NULL;
+
+-- How often and how much quotes are overridden, per month. Amounts are ex GST; discounts are negative.
+CREATE OR REPLACE VIEW public.quote_override_report
+WITH (security_invoker = true) AS
+SELECT
+  date_trunc('month', created_at) AS month,
+  count(*) AS quotes,
+  count(*) FILTER (WHERE override_amount < 0) AS discounted,
+  count(*) FILTER (WHERE override_amount > 0) AS premiums,
+  coalesce(sum(override_amount) FILTER (WHERE override_amount < 0), 0) AS total_discount,
+  coalesce(sum(override_amount) FILTER (WHERE override_amount > 0), 0) AS total_premium,
+  round(avg(override_amount / nullif(final_quote - override_amount, 0)) FILTER (WHERE override_amount < 0), 4) AS average_discount_rate
+FROM public.quotes
+GROUP BY 1;
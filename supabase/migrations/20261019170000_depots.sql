@@ -0,0 +1,31 @@
+-- Depots quotes are measured from. Everyone using the calculator can read them; only admins change them.
+CREATE TABLE IF NOT EXISTS public.depots (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  address TEXT NOT NULL,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.depots ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view depots" ON public.depots;
+CREATE POLICY "Anyone can view depots" ON public.depots
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins can add depots" ON public.depots;
+CREATE POLICY "Admins can add depots" ON public.depots
+  FOR INSERT WITH CHECK (public.get_current_user_role() = 'admin');
+
+DROP POLICY IF EXISTS "Admins can update depots" ON public.depots;
+CREATE POLICY "Admins can update depots" ON public.depots
+  FOR UPDATE USING (public.get_current_user_role() = 'admin');
+
+DROP POLICY IF EXISTS "Admins can remove depots" ON public.depots;
+CREATE POLICY "Admins can remove depots" ON public.depots
+  FOR DELETE USING (public.get_current_user_role() = 'admin');
+
+-- Matches staticDepots in _shared/depots.ts
+INSERT INTO public.depots (id, name, address, sort_order)
+VALUES ('lidcombe', 'Lidcombe', '2/67 Mons Street, Lidcombe NSW 2141 Australia', 10)
+ON CONFLICT (id) DO NOTHING;
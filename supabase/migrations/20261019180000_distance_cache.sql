@@ -0,0 +1,35 @@
+-- Geocodes and driving distances shared by everyone using the calculator, keyed on normalised
+-- addresses (see normaliseAddress in _shared/distance.ts). Only the distance function reads and
+-- writes them, with the service role, so there are no policies.
+CREATE TABLE IF NOT EXISTS public.geocode_cache (
+  geocoder TEXT NOT NULL,
+  address_key TEXT NOT NULL,
+  lat DOUBLE PRECISION NOT NULL,
+  lon DOUBLE PRECISION NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  PRIMARY KEY (geocoder, address_key)
+);
+
+CREATE TABLE IF NOT EXISTS public.distance_cache (
+  provider TEXT NOT NULL,
+  origin_key TEXT NOT NULL,
+  destination_key TEXT NOT NULL,
+  distance_km NUMERIC(10, 2) NOT NULL,
+  duration_minutes INTEGER,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  PRIMARY KEY (provider, origin_key, destination_key)
+);
+
+ALTER TABLE public.geocode_cache ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.distance_cache ENABLE ROW LEVEL SECURITY;
+
+-- Expired entries are ignored and replaced on the next lookup; this clears out the ones nobody asks for again
+CREATE OR REPLACE FUNCTION public.purge_expired_distance_cache()
+RETURNS void
+LANGUAGE sql
+AS $$
+  DELETE FROM public.geocode_cache WHERE expires_at < now();
+  DELETE FROM public.distance_cache WHERE expires_at < now();
+$$;
@@ -0,0 +1,12 @@
+-- The Notion page each upsert key was given. The primary key lets only one of two concurrent
+-- upserts for the same key claim a page, so a retried webhook or a double send can't add a second row.
+CREATE TABLE IF NOT EXISTS public.notion_page_keys (
+  database_id TEXT NOT NULL,
+  key TEXT NOT NULL,
+  page_id TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (database_id, key)
+);
+
+-- Only the edge functions use it, with the service role
+ALTER TABLE public.notion_page_keys ENABLE ROW LEVEL SECURITY;
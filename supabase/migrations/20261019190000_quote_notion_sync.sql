@@ -0,0 +1,31 @@
+-- What the sales team has done with each quote in Notion, pulled back by the notion-sync edge function.
+-- Notion owns these columns: the calculator never writes them except notion_page_id when it sends a quote.
+ALTER TABLE public.quotes ADD COLUMN IF NOT EXISTS notion_page_id TEXT;
+ALTER TABLE public.quotes ADD COLUMN IF NOT EXISTS notion_status TEXT CHECK (notion_status IN ('sent', 'accepted', 'lost'));
+ALTER TABLE public.quotes ADD COLUMN IF NOT EXISTS notion_status_label TEXT;
+ALTER TABLE public.quotes ADD COLUMN IF NOT EXISTS notion_follow_up TEXT;
+ALTER TABLE public.quotes ADD COLUMN IF NOT EXISTS notion_edited_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS quotes_notion_status_idx ON public.quotes (notion_status) WHERE notion_status IS NOT NULL;
+
+-- Notion rows the sync couldn't apply cleanly. A conflict stays open until a sync no longer finds it.
+CREATE TABLE IF NOT EXISTS public.quote_sync_conflicts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  quote_id UUID REFERENCES public.quotes (id) ON DELETE CASCADE,
+  notion_page_id TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  notion_value TEXT,
+  message TEXT NOT NULL,
+  detected_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  resolved_at TIMESTAMPTZ
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS quote_sync_conflicts_open_idx
+  ON public.quote_sync_conflicts (notion_page_id, kind) WHERE resolved_at IS NULL;
+
+-- Written by the sync with the service role; admins read them in quote history
+ALTER TABLE public.quote_sync_conflicts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view quote sync conflicts" ON public.quote_sync_conflicts;
+CREATE POLICY "Admins can view quote sync conflicts" ON public.quote_sync_conflicts
+  FOR SELECT USING (public.get_current_user_role() = 'admin');